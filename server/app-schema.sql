@@ -0,0 +1,50 @@
+CREATE TABLE IF NOT EXISTS api_credentials (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  label TEXT,
+  api_url TEXT,
+  key_ciphertext TEXT,
+  key_iv TEXT,
+  key_tag TEXT,
+  key_hint TEXT,
+  last_tested_at TEXT,
+  last_test_ok INTEGER,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id TEXT,
+  source TEXT NOT NULL DEFAULT 'chat',
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_chat_id ON ai_usage (chat_id);
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS job_search_cache (
+  cache_key TEXT PRIMARY KEY,
+  query TEXT NOT NULL,
+  items TEXT NOT NULL,
+  sources TEXT NOT NULL,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  fetched_at INTEGER NOT NULL,
+  last_hit_at INTEGER,
+  hit_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_search_cache_fetched_at ON job_search_cache (fetched_at);
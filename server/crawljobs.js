@@ -0,0 +1,188 @@
+/**
+ * crawljobs.js - Crawl-Aufträge im Hintergrund mit Status pro URL
+ *
+ * Ein Job hält seine URLs in crawl_job_urls (pending → running → ok/failed/skipped).
+ * Der Ablauf (runCrawlJob in index.js) liest nur pending-URLs, deshalb können
+ * Jobs pausiert, fortgesetzt und fehlgeschlagene URLs erneut versucht werden.
+ * Status eines Jobs: running, paused, completed, cancelled
+ */
+
+export const MAX_CRAWL_JOBS_PER_CHAT = 20
+
+const URL_STATUSES = ['pending', 'running', 'ok', 'failed', 'skipped', 'cancelled']
+
+// Mehrzeilige INSERTs, damit 1000 URLs nicht 1000 einzelne Statements brauchen
+const INSERT_CHUNK_SIZE = 200
+
+const mapCrawlJobRow = (row, countRows) => {
+  const counts = Object.fromEntries(URL_STATUSES.map(status => [status, 0]))
+  countRows.forEach((entry) => {
+    counts[entry.status] = entry.count
+  })
+  return {
+    id: row.id,
+    status: row.status,
+    total: URL_STATUSES.reduce((sum, status) => sum + counts[status], 0),
+    counts,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at
+  }
+}
+
+const mapCrawlJobUrlRow = (row) => ({
+  position: row.position,
+  url: row.url,
+  status: row.status,
+  reason: row.reason,
+  detail: row.detail,
+  pageId: row.page_id,
+  statusCode: row.status_code,
+  attempts: row.attempts,
+  updatedAt: row.updated_at
+})
+
+/**
+ * @returns Job mit Zählern pro URL-Status oder null
+ */
+export const getCrawlJob = async (db, id) => {
+  const row = await db.get('SELECT * FROM crawl_jobs WHERE id = ?', [id])
+  if (!row) {
+    return null
+  }
+  const countRows = await db.all(
+    'SELECT status, COUNT(*) AS count FROM crawl_job_urls WHERE job_id = ? GROUP BY status',
+    [id]
+  )
+  return mapCrawlJobRow(row, countRows)
+}
+
+// Neueste zuerst
+export const listCrawlJobs = async (db) => {
+  const rows = await db.all('SELECT id FROM crawl_jobs ORDER BY id DESC')
+  const jobs = await Promise.all(rows.map(row => getCrawlJob(db, row.id)))
+  return jobs.filter(Boolean)
+}
+
+export const listCrawlJobUrls = async (db, jobId, { onlyPending = false } = {}) => {
+  const rows = await db.all(
+    `SELECT * FROM crawl_job_urls WHERE job_id = ?${onlyPending ? " AND status = 'pending'" : ''} ORDER BY position`,
+    [jobId]
+  )
+  return rows.map(mapCrawlJobUrlRow)
+}
+
+/**
+ * Legt einen laufenden Job an; doppelte URLs werden nur einmal aufgenommen
+ * Ältere abgeschlossene Jobs über MAX_CRAWL_JOBS_PER_CHAT werden gelöscht
+ *
+ * @returns Neuer Job
+ */
+export const createCrawlJob = async (db, urls) => {
+  const uniqueUrls = Array.from(new Set(urls.map(url => String(url || '').trim()).filter(Boolean)))
+  const { lastID } = await db.run("INSERT INTO crawl_jobs (status) VALUES ('running')")
+
+  for (let start = 0; start < uniqueUrls.length; start += INSERT_CHUNK_SIZE) {
+    const chunk = uniqueUrls.slice(start, start + INSERT_CHUNK_SIZE)
+    await db.run(
+      `INSERT INTO crawl_job_urls (job_id, position, url) VALUES ${chunk.map(() => '(?, ?, ?)').join(', ')}`,
+      chunk.flatMap((url, index) => [lastID, start + index, url])
+    )
+  }
+
+  const stale = await db.all(
+    "SELECT id FROM crawl_jobs WHERE status IN ('completed', 'cancelled') ORDER BY id DESC LIMIT -1 OFFSET ?",
+    [MAX_CRAWL_JOBS_PER_CHAT]
+  )
+  for (const row of stale) {
+    await deleteCrawlJob(db, row.id)
+  }
+
+  return getCrawlJob(db, lastID)
+}
+
+/**
+ * Speichert Status und Ergebnis einer URL
+ * @returns Aktualisierter Eintrag
+ */
+export const updateCrawlJobUrl = async (db, jobId, position, { status, reason = null, detail = null, pageId = null, statusCode = null }) => {
+  await db.run(
+    `UPDATE crawl_job_urls
+     SET status = ?, reason = ?, detail = ?, page_id = ?, status_code = ?,
+       attempts = attempts + CASE WHEN ? IN ('ok', 'failed', 'skipped') THEN 1 ELSE 0 END,
+       updated_at = datetime('now')
+     WHERE job_id = ? AND position = ?`,
+    [status, reason, detail, pageId, statusCode, status, jobId, position]
+  )
+  const row = await db.get('SELECT * FROM crawl_job_urls WHERE job_id = ? AND position = ?', [jobId, position])
+  return row ? mapCrawlJobUrlRow(row) : null
+}
+
+/**
+ * Setzt den Job-Status, aber nur aus den erlaubten Vorgänger-Status
+ * @returns true, wenn der Job geändert wurde
+ */
+export const setCrawlJobStatus = async (db, id, status, fromStatuses) => {
+  const finished = status === 'completed' || status === 'cancelled'
+  const result = await db.run(
+    `UPDATE crawl_jobs
+     SET status = ?, updated_at = datetime('now'), finished_at = ${finished ? "datetime('now')" : 'NULL'}
+     WHERE id = ? AND status IN (${fromStatuses.map(() => '?').join(', ')})`,
+    [status, id, ...fromStatuses]
+  )
+  return result.changes > 0
+}
+
+/**
+ * Schließt einen laufenden Job ab, sobald keine URL mehr offen ist
+ * @returns true, wenn der Job jetzt completed ist
+ */
+export const completeCrawlJob = async (db, id) => {
+  const result = await db.run(
+    `UPDATE crawl_jobs SET status = 'completed', updated_at = datetime('now'), finished_at = datetime('now')
+     WHERE id = ? AND status = 'running'
+       AND NOT EXISTS (SELECT 1 FROM crawl_job_urls WHERE job_id = ? AND status IN ('pending', 'running'))`,
+    [id, id]
+  )
+  return result.changes > 0
+}
+
+/**
+ * Setzt URLs mit einem der Status zurück auf pending (Wiederholen bzw. nach Neustart)
+ * @returns Anzahl zurückgesetzter URLs
+ */
+export const resetCrawlJobUrls = async (db, jobId, fromStatuses) => {
+  const result = await db.run(
+    `UPDATE crawl_job_urls SET status = 'pending', reason = NULL, detail = NULL, updated_at = datetime('now')
+     WHERE job_id = ? AND status IN (${fromStatuses.map(() => '?').join(', ')})`,
+    [jobId, ...fromStatuses]
+  )
+  return result.changes
+}
+
+// Offene URLs eines abgebrochenen Jobs werden nicht mehr geladen
+export const cancelPendingCrawlJobUrls = async (db, jobId) => {
+  await db.run(
+    "UPDATE crawl_job_urls SET status = 'cancelled', updated_at = datetime('now') WHERE job_id = ? AND status = 'pending'",
+    [jobId]
+  )
+}
+
+/**
+ * Nach einem Server-Neustart läuft kein Job mehr: laufende Jobs werden pausiert,
+ * URLs mitten im Abruf wieder offen
+ */
+export const recoverCrawlJobs = async (db) => {
+  const rows = await db.all("SELECT id FROM crawl_jobs WHERE status = 'running'")
+  for (const row of rows) {
+    await resetCrawlJobUrls(db, row.id, ['running'])
+    await setCrawlJobStatus(db, row.id, 'paused', ['running'])
+  }
+  return rows.length
+}
+
+export const deleteCrawlJob = async (db, id) => {
+  await db.run('DELETE FROM crawl_job_urls WHERE job_id = ?', [id])
+  const result = await db.run('DELETE FROM crawl_jobs WHERE id = ?', [id])
+  return result.changes > 0
+}
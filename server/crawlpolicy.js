@@ -0,0 +1,228 @@
+/**
+ * crawlpolicy.js - robots.txt und Höflichkeit pro Host für den Crawler
+ *
+ * Vor jedem Abruf wird robots.txt des Hosts geladen (zwischengespeichert) und
+ * geprüft. Pro Host laufen nur wenige Anfragen gleichzeitig, zwischen zwei
+ * Starts liegt mindestens minDelayMs bzw. das Crawl-delay aus robots.txt.
+ * Regeln nach RFC 9309: längster Treffer gewinnt, bei Gleichstand Allow.
+ */
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Produkt-Token des User-Agents ("JobAssistant/1.0 (...)" -> "jobassistant")
+const getProductToken = (userAgent) => String(userAgent || '').split(/[\s/]/)[0].toLowerCase()
+
+const patternToRegExp = (pattern) => {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Liest die Gruppe für unseren User-Agent (sonst "*") aus einer robots.txt
+ *
+ * @param text - Inhalt der robots.txt
+ * @param userAgent - Eigener User-Agent, verglichen wird das Produkt-Token
+ * @returns { rules: [{ allow, pattern }], crawlDelayMs }
+ */
+export const parseRobotsTxt = (text, userAgent) => {
+  const token = getProductToken(userAgent)
+  const groups = []
+  let current = null
+  let lastWasAgent = false
+
+  for (const rawLine of String(text || '').split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) {
+      continue
+    }
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Aufeinanderfolgende User-agent-Zeilen teilen sich eine Gruppe
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+    lastWasAgent = false
+    if (!current) {
+      continue
+    }
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value })
+    } else if (field === 'crawl-delay') {
+      const delay = Number.parseFloat(value)
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelay = delay
+      }
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.includes(token))
+  const matching = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'))
+  const delays = matching.map(group => group.crawlDelay).filter(delay => delay !== null)
+
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) * 1000 : 0
+  }
+}
+
+/**
+ * Prüft Pfad (inkl. Query) gegen die Regeln
+ * @returns true, wenn keine Disallow-Regel mit längerem Muster greift
+ */
+export const isAllowedByRobots = (robots, path) => {
+  if (path === '/robots.txt') {
+    return true
+  }
+  let best = null
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) {
+      continue
+    }
+    const length = rule.pattern.length
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { length, allow: rule.allow }
+    }
+  }
+  return best ? best.allow : true
+}
+
+const ALLOW_ALL = { rules: [], crawlDelayMs: 0 }
+const DISALLOW_ALL = { rules: [{ allow: false, pattern: '/' }], crawlDelayMs: 0 }
+
+/**
+ * Erstellt die Crawl-Regeln mit eigenem robots.txt-Cache und Host-Warteschlangen
+ *
+ * @param options - { userAgent, robotsTimeoutMs, robotsCacheTtlMs, hostConcurrency, minDelayMs, maxDelayMs, fetchImpl }
+ * @returns { checkRobots(url), runForHost(url, crawlDelayMs, task) }
+ */
+export const createCrawlPolicy = ({
+  userAgent,
+  robotsTimeoutMs = 5000,
+  robotsCacheTtlMs = 24 * 60 * 60 * 1000,
+  hostConcurrency = 2,
+  minDelayMs = 1000,
+  maxDelayMs = 30000,
+  fetchImpl = fetch
+}) => {
+  // origin -> { expiresAt, robots: Promise }
+  const robotsCache = new Map()
+  // host -> { active, waiting: [resolve], nextStartAt }
+  const hosts = new Map()
+
+  /**
+   * 2xx wird gelesen, 4xx erlaubt alles, 5xx sperrt alles (RFC 9309)
+   * Netzwerkfehler erlauben alles, der eigentliche Abruf meldet den Fehler dann selbst
+   */
+  const loadRobots = async (origin) => {
+    try {
+      const response = await fetchImpl(`${origin}/robots.txt`, {
+        redirect: 'follow',
+        headers: { 'User-Agent': userAgent },
+        signal: AbortSignal.timeout(robotsTimeoutMs)
+      })
+      if (response.ok) {
+        return parseRobotsTxt(await response.text(), userAgent)
+      }
+      return response.status >= 500 ? DISALLOW_ALL : ALLOW_ALL
+    } catch {
+      return ALLOW_ALL
+    }
+  }
+
+  const getRobots = (origin) => {
+    const now = Date.now()
+    const cached = robotsCache.get(origin)
+    if (cached && cached.expiresAt > now) {
+      return cached.robots
+    }
+    if (robotsCache.size >= 1000) {
+      for (const [key, entry] of robotsCache) {
+        if (entry.expiresAt <= now) {
+          robotsCache.delete(key)
+        }
+      }
+    }
+    const robots = loadRobots(origin)
+    robotsCache.set(origin, { expiresAt: now + robotsCacheTtlMs, robots })
+    return robots
+  }
+
+  /**
+   * @returns { allowed, crawlDelayMs }
+   */
+  const checkRobots = async (url) => {
+    const parsed = new URL(url)
+    const robots = await getRobots(parsed.origin)
+    return {
+      allowed: isAllowedByRobots(robots, `${parsed.pathname}${parsed.search}`),
+      crawlDelayMs: robots.crawlDelayMs
+    }
+  }
+
+  const getHostState = (host) => {
+    let state = hosts.get(host)
+    if (!state) {
+      if (hosts.size >= 1000) {
+        const now = Date.now()
+        for (const [key, entry] of hosts) {
+          if (entry.active === 0 && entry.nextStartAt <= now) {
+            hosts.delete(key)
+          }
+        }
+      }
+      state = { active: 0, waiting: [], nextStartAt: 0 }
+      hosts.set(host, state)
+    }
+    return state
+  }
+
+  const acquire = (state) => new Promise((resolve) => {
+    if (state.active < hostConcurrency) {
+      state.active += 1
+      resolve()
+    } else {
+      state.waiting.push(resolve)
+    }
+  })
+
+  // Der Platz geht direkt an den nächsten Wartenden über
+  const release = (state) => {
+    const next = state.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      state.active -= 1
+    }
+  }
+
+  /**
+   * Führt task() aus, sobald der Host einen freien Platz hat und der Abstand
+   * zum letzten Start (max(minDelayMs, Crawl-delay), höchstens maxDelayMs) erreicht ist
+   */
+  const runForHost = async (url, crawlDelayMs, task) => {
+    const state = getHostState(new URL(url).host)
+    await acquire(state)
+    try {
+      const delayMs = Math.min(Math.max(minDelayMs, crawlDelayMs || 0), maxDelayMs)
+      const startAt = Math.max(Date.now(), state.nextStartAt)
+      state.nextStartAt = startAt + delayMs
+      await sleep(startAt - Date.now())
+      return await task()
+    } finally {
+      release(state)
+    }
+  }
+
+  return { checkRobots, runForHost }
+}
@@ -6,13 +6,16 @@ import sqlite3 from 'sqlite3'
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const dataDir = path.join(__dirname, 'data')
 const schemaPath = path.join(__dirname, 'schema.sql')
+const appSchemaPath = path.join(__dirname, 'app-schema.sql')
 
 if (!fs.existsSync(dataDir)) {
   fs.mkdirSync(dataDir, { recursive: true })
 }
 
 const schema = fs.readFileSync(schemaPath, 'utf-8')
+const appSchema = fs.readFileSync(appSchemaPath, 'utf-8')
 const dbCache = new Map()
+let appDbPromise = null
 
 const openDatabase = (dbPath) => {
   const db = new sqlite3.Database(dbPath)
@@ -64,8 +67,8 @@ const ensureColumns = async (db, tableName, columns) => {
   }
 }
 
-const initSchema = async (db) => {
-  const statements = schema
+const runStatements = async (db, sql) => {
+  const statements = sql
     .split(/;\s*\n/)
     .map(statement => statement.trim())
     .filter(Boolean)
@@ -73,12 +76,49 @@ const initSchema = async (db) => {
   for (const statement of statements) {
     await db.run(statement)
   }
+}
+
+const initSchema = async (db) => {
+  await runStatements(db, schema)
 
   await ensureColumns(db, 'pages', [
     { name: 'title', definition: 'title TEXT' },
     { name: 'status_code', definition: 'status_code INTEGER' },
     { name: 'content_hash', definition: 'content_hash TEXT' },
-    { name: 'fetched_at', definition: "fetched_at TEXT NOT NULL DEFAULT (datetime('now'))" }
+    { name: 'fetched_at', definition: "fetched_at TEXT NOT NULL DEFAULT (datetime('now'))" },
+    { name: 'content_format', definition: "content_format TEXT NOT NULL DEFAULT 'text'" },
+    { name: 'raw_html', definition: 'raw_html TEXT' },
+    { name: 'job_company', definition: 'job_company TEXT' },
+    { name: 'job_location', definition: 'job_location TEXT' },
+    { name: 'job_date_posted', definition: 'job_date_posted TEXT' },
+    { name: 'job_valid_through', definition: 'job_valid_through TEXT' },
+    { name: 'job_employment_type', definition: 'job_employment_type TEXT' },
+    { name: 'job_salary_min', definition: 'job_salary_min REAL' },
+    { name: 'job_salary_max', definition: 'job_salary_max REAL' },
+    { name: 'job_salary_currency', definition: 'job_salary_currency TEXT' },
+    { name: 'job_salary_unit', definition: 'job_salary_unit TEXT' }
+  ])
+
+  await ensureColumns(db, 'files', [
+    { name: 'text_content', definition: 'text_content TEXT' },
+    { name: 'text_format', definition: 'text_format TEXT' },
+    { name: 'text_status', definition: 'text_status TEXT' },
+    { name: 'text_extracted_at', definition: 'text_extracted_at TEXT' }
+  ])
+
+  await ensureColumns(db, 'messages', [
+    { name: 'sources', definition: 'sources TEXT' },
+    { name: 'provider', definition: 'provider TEXT' },
+    { name: 'model', definition: 'model TEXT' },
+    { name: 'prompt_tokens', definition: 'prompt_tokens INTEGER' },
+    { name: 'completion_tokens', definition: 'completion_tokens INTEGER' },
+    { name: 'total_tokens', definition: 'total_tokens INTEGER' },
+    { name: 'finish_reason', definition: 'finish_reason TEXT' },
+    { name: 'generated_at', definition: 'generated_at TEXT' }
+  ])
+
+  await ensureColumns(db, 'jobs', [
+    { name: 'description_type', definition: 'description_type TEXT' }
   ])
 }
 
@@ -99,3 +139,43 @@ export const getDb = async (chatId) => {
   dbCache.set(safeId, db)
   return db
 }
+
+/**
+ * Gemeinsame Datenbank für chat-übergreifende Daten (z.B. API-Key-Vault)
+ * Liegt als app.db neben den Chat-Datenbanken
+ */
+export const getAppDb = () => {
+  if (!appDbPromise) {
+    appDbPromise = (async () => {
+      const db = openDatabase(path.join(dataDir, 'app.db'))
+      await runStatements(db, appSchema)
+      return db
+    })()
+  }
+  return appDbPromise
+}
+
+export const listChatIds = async () => {
+  const entries = await fs.promises.readdir(dataDir)
+  return entries
+    .map(entry => entry.match(/^chat-(\d+)\.db$/))
+    .filter(Boolean)
+    .map(match => Number(match[1]))
+    .sort((a, b) => a - b)
+}
+
+export const deleteDb = async (chatId) => {
+  const safeId = sanitizeChatId(chatId)
+  const cached = dbCache.get(safeId)
+  if (cached) {
+    dbCache.delete(safeId)
+    await new Promise((resolve, reject) => {
+      cached.db.close((err) => (err ? reject(err) : resolve()))
+    })
+  }
+
+  const dbPath = path.join(dataDir, `chat-${safeId}.db`)
+  if (fs.existsSync(dbPath)) {
+    await fs.promises.unlink(dbPath)
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * extract.js - Text-Extraktion für hochgeladene Dateien
+ *
+ * Wandelt PDF, DOCX, ODT, RTF, Markdown, HTML und Textdateien in Klartext um,
+ * damit Chat und Bewerbungserstellung mit dem echten Inhalt arbeiten können.
+ */
+
+import { unzipSync, strFromU8 } from 'fflate'
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf'
+
+const FORMAT_BY_EXTENSION = {
+  pdf: 'pdf',
+  docx: 'docx',
+  odt: 'odt',
+  rtf: 'rtf',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  csv: 'text',
+  json: 'text'
+}
+
+const FORMAT_BY_MIME = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'text/markdown': 'markdown',
+  'text/html': 'html',
+  'application/json': 'text'
+}
+
+// RTF-Hex-Escapes (\'hh) sind in der Regel Windows-1252 kodiert
+const cp1252 = new TextDecoder('windows-1252')
+
+const XML_ENTITIES = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+/**
+ * Ermittelt das Format anhand von Dateiendung, dann MIME-Type
+ * Gibt null zurück, wenn das Format nicht unterstützt wird
+ */
+export const detectFormat = (name, mime) => {
+  const extension = String(name || '').split('.').pop().toLowerCase()
+  if (FORMAT_BY_EXTENSION[extension]) {
+    return FORMAT_BY_EXTENSION[extension]
+  }
+  if (mime && FORMAT_BY_MIME[mime]) {
+    return FORMAT_BY_MIME[mime]
+  }
+  if (mime && mime.startsWith('text/')) {
+    return 'text'
+  }
+  return null
+}
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+  if (entity[0] === '#') {
+    const code = entity[1].toLowerCase() === 'x'
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10)
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match
+  }
+  return XML_ENTITIES[entity.toLowerCase()] ?? match
+})
+
+// Mehrfache Leerzeichen und Leerzeilen zusammenfassen, Absätze aber erhalten
+const normalizeWhitespace = (text) => text
+  .replace(/\r\n?/g, '\n')
+  .replace(/[ \t\f\v]+/g, ' ')
+  .replace(/ *\n */g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim()
+
+const readZipEntry = (buffer, entryName) => {
+  const entries = unzipSync(new Uint8Array(buffer), {
+    filter: (file) => file.name === entryName
+  })
+  if (!entries[entryName]) {
+    throw new Error(`${entryName} not found in archive`)
+  }
+  return strFromU8(entries[entryName])
+}
+
+const extractPdf = async (buffer) => {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer))
+  const { text } = await extractPdfText(pdf, { mergePages: true })
+  return text
+}
+
+const extractDocx = (buffer) => {
+  const xml = readZipEntry(buffer, 'word/document.xml')
+  const text = xml
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>|<w:cr\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+  return decodeEntities(text)
+}
+
+const extractOdt = (buffer) => {
+  const xml = readZipEntry(buffer, 'content.xml')
+  const text = xml
+    .replace(/<text:tab\/>/g, '\t')
+    .replace(/<text:line-break\/>/g, '\n')
+    .replace(/<text:s(?: text:c="(\d+)")?\/>/g, (match, count) => ' '.repeat(Number(count || 1)))
+    .replace(/<\/text:(p|h)>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+  return decodeEntities(text)
+}
+
+// RTF-Gruppen, deren Inhalt kein Fließtext ist
+const RTF_SKIP_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'footer', 'listtable',
+  'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles'
+])
+
+const extractRtf = (buffer) => {
+  const rtf = cp1252.decode(buffer)
+  const stack = []
+  let skip = false
+  let unicodeSkip = 0
+  let output = ''
+  let index = 0
+
+  while (index < rtf.length) {
+    const char = rtf[index]
+
+    if (char === '{') {
+      stack.push(skip)
+      index += 1
+      continue
+    }
+    if (char === '}') {
+      skip = stack.pop() ?? false
+      index += 1
+      continue
+    }
+    if (char === '\\') {
+      const next = rtf[index + 1]
+      if (next === '\\' || next === '{' || next === '}') {
+        if (!skip) output += next
+        index += 2
+        continue
+      }
+      if (next === "'") {
+        const hex = rtf.slice(index + 2, index + 4)
+        if (!skip && unicodeSkip === 0) {
+          output += cp1252.decode(Uint8Array.of(parseInt(hex, 16)))
+        }
+        unicodeSkip = Math.max(0, unicodeSkip - 1)
+        index += 4
+        continue
+      }
+      if (next === '*') {
+        skip = true
+        index += 2
+        continue
+      }
+
+      const match = rtf.slice(index).match(/^\\([a-z]+)(-?\d+)? ?/i)
+      if (!match) {
+        index += 2
+        continue
+      }
+      const [token, word, param] = match
+      index += token.length
+
+      if (RTF_SKIP_DESTINATIONS.has(word)) {
+        skip = true
+      } else if (skip) {
+        continue
+      } else if (word === 'par' || word === 'line' || word === 'sect' || word === 'page') {
+        output += '\n'
+      } else if (word === 'tab') {
+        output += '\t'
+      } else if (word === 'u' && param) {
+        const code = Number(param)
+        output += String.fromCharCode(code < 0 ? code + 65536 : code)
+        unicodeSkip = 1
+      }
+      continue
+    }
+
+    if (char !== '\r' && char !== '\n' && !skip) {
+      if (unicodeSkip > 0) {
+        unicodeSkip -= 1
+      } else {
+        output += char
+      }
+    }
+    index += 1
+  }
+
+  return output
+}
+
+const extractHtml = (buffer) => {
+  const html = buffer.toString('utf-8')
+  const text = html
+    .replace(/<(script|style|noscript|template)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|li|tr|section|article|header|footer|ul|ol|table)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+  return decodeEntities(text)
+}
+
+const EXTRACTORS = {
+  pdf: extractPdf,
+  docx: extractDocx,
+  odt: extractOdt,
+  rtf: extractRtf,
+  html: extractHtml,
+  markdown: (buffer) => buffer.toString('utf-8'),
+  text: (buffer) => buffer.toString('utf-8')
+}
+
+/**
+ * Extrahiert den Klartext einer Datei
+ *
+ * @param file - { name, mime, buffer }
+ * @returns { format, status: 'ok' | 'empty' | 'unsupported' | 'failed', text, error? }
+ */
+export const extractFileText = async ({ name, mime, buffer }) => {
+  const format = detectFormat(name, mime)
+  if (!format) {
+    return { format: null, status: 'unsupported', text: null }
+  }
+
+  try {
+    const text = normalizeWhitespace(await EXTRACTORS[format](buffer))
+    return { format, status: text ? 'ok' : 'empty', text: text || null }
+  } catch (error) {
+    return { format, status: 'failed', text: null, error: error.message }
+  }
+}
+
+/**
+ * Baut den Datei-Kontext für den System-Prompt
+ * Das Zeichenbudget wird gleichmäßig auf die Dateien verteilt
+ *
+ * @param files - [{ name, text }]
+ * @param maxChars - Gesamtbudget in Zeichen
+ */
+export const buildFileContext = (files, maxChars) => {
+  const usable = files.filter(file => file.text)
+  if (usable.length === 0) {
+    return ''
+  }
+
+  const perFile = Math.floor(maxChars / usable.length)
+  const blocks = usable.map((file) => {
+    const truncated = file.text.length > perFile
+    const text = truncated ? `${file.text.slice(0, perFile)}…` : file.text
+    return `--- Datei: ${file.name} ---\n${text}`
+  })
+
+  return ['Inhalt der hochgeladenen Dateien:', ...blocks].join('\n\n')
+}
@@ -0,0 +1,141 @@
+/**
+ * feeds.js - RSS/Atom- und JSON-Feeds als Job-Quelle
+ *
+ * Pro Chat registrierte Feed-URLs liegen in job_feeds. parseFeed() liest
+ * RSS 2.0, Atom und JSON Feed ohne zusätzliche Abhängigkeit; die Einträge
+ * werden vom Adapter "feeds" in jobsources.js zu JobSearchItems.
+ */
+
+import { findXmlElements, getXmlText } from './xml.js'
+
+export const MAX_FEEDS_PER_CHAT = 50
+
+// Kanal- bzw. Feed-Kopf ohne die Einträge, damit deren <title> nicht gewinnt
+const getFeedHead = (xml, entryTag) => {
+  const index = xml.search(new RegExp(`<${entryTag}[\\s>]`, 'i'))
+  return index === -1 ? xml : xml.slice(0, index)
+}
+
+const parseRss = (xml) => ({
+  title: getXmlText(getFeedHead(xml, 'item'), 'title'),
+  items: findXmlElements(xml, 'item').map(({ text }) => ({
+    id: getXmlText(text, 'guid') || getXmlText(text, 'link'),
+    title: getXmlText(text, 'title'),
+    url: getXmlText(text, 'link'),
+    description: getXmlText(text, 'content:encoded', 'description'),
+    published: getXmlText(text, 'pubDate', 'dc:date'),
+    company: getXmlText(text, 'company', 'job:company', 'dc:creator', 'author'),
+    location: getXmlText(text, 'location', 'job:location'),
+    categories: findXmlElements(text, 'category').map(entry => entry.text).filter(Boolean)
+  }))
+})
+
+const parseAtom = (xml) => ({
+  title: getXmlText(getFeedHead(xml, 'entry'), 'title'),
+  items: findXmlElements(xml, 'entry').map(({ text }) => {
+    const links = findXmlElements(text, 'link')
+    const author = findXmlElements(text, 'author')[0]
+    const link = links.find(entry => !entry.attributes.rel || entry.attributes.rel === 'alternate') || links[0]
+    return {
+      id: getXmlText(text, 'id') || link?.attributes.href || '',
+      title: getXmlText(text, 'title'),
+      url: link?.attributes.href || '',
+      description: getXmlText(text, 'content', 'summary'),
+      published: getXmlText(text, 'published', 'updated'),
+      company: author ? getXmlText(author.text, 'name') : '',
+      location: getXmlText(text, 'location'),
+      categories: findXmlElements(text, 'category')
+        .map(entry => entry.attributes.term || entry.text)
+        .filter(Boolean)
+    }
+  })
+})
+
+// Einträge, die keine Objekte sind (null, Strings), werden übersprungen
+const parseJsonFeed = (payload) => ({
+  title: String(payload.title || ''),
+  items: payload.items.filter(item => item && typeof item === 'object').map((item) => ({
+    id: String(item.id ?? item.url ?? ''),
+    title: String(item.title || ''),
+    url: String(item.url || item.external_url || ''),
+    description: String(item.content_html || item.content_text || item.summary || ''),
+    published: item.date_published || item.date_modified || '',
+    company: item.authors?.[0]?.name || item.author?.name || '',
+    location: item._job?.location || '',
+    categories: Array.isArray(item.tags) ? item.tags.map(String) : []
+  }))
+})
+
+/**
+ * Erkennt das Format und liest Titel und Einträge eines Feeds
+ * Einträge ohne Titel oder Link fallen weg
+ *
+ * @param text - Antwort der Feed-URL
+ * @returns { format: 'rss' | 'atom' | 'json', title, items: [{ id, title, url, description, published, company, location, categories }] }
+ * @throws Error, wenn der Text kein RSS, Atom oder JSON Feed ist
+ */
+export const parseFeed = (text) => {
+  const source = String(text || '').replace(/^\uFEFF/, '').trim()
+  let feed = null
+  let format = null
+
+  if (source.startsWith('{')) {
+    let payload = null
+    try {
+      payload = JSON.parse(source)
+    } catch {
+      payload = null
+    }
+    if (payload && Array.isArray(payload.items)) {
+      feed = parseJsonFeed(payload)
+      format = 'json'
+    }
+  } else if (/<rss[\s>]|<rdf:RDF[\s>]/i.test(source)) {
+    feed = parseRss(source)
+    format = 'rss'
+  } else if (/<feed[\s>]/i.test(source)) {
+    feed = parseAtom(source)
+    format = 'atom'
+  }
+
+  if (!feed) {
+    throw new Error('Not an RSS, Atom or JSON feed')
+  }
+  return {
+    format,
+    title: feed.title,
+    items: feed.items.filter(item => item.title && item.url)
+  }
+}
+
+const mapFeedRow = (row) => ({
+  id: row.id,
+  url: row.url,
+  title: row.title,
+  format: row.format,
+  createdAt: row.created_at
+})
+
+export const listFeeds = async (db) => {
+  const rows = await db.all('SELECT * FROM job_feeds ORDER BY created_at, id')
+  return rows.map(mapFeedRow)
+}
+
+/**
+ * Registriert einen Feed; eine bereits vorhandene URL wird nur aktualisiert
+ * @returns Gespeicherter Feed
+ */
+export const addFeed = async (db, { url, title, format }) => {
+  await db.run(
+    `INSERT INTO job_feeds (url, title, format) VALUES (?, ?, ?)
+     ON CONFLICT(url) DO UPDATE SET title = excluded.title, format = excluded.format`,
+    [url, title || null, format]
+  )
+  const row = await db.get('SELECT * FROM job_feeds WHERE url = ?', [url])
+  return mapFeedRow(row)
+}
+
+export const deleteFeed = async (db, id) => {
+  const result = await db.run('DELETE FROM job_feeds WHERE id = ?', [id])
+  return result.changes > 0
+}
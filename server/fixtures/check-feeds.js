@@ -0,0 +1,72 @@
+/**
+ * check-feeds.js - Prüft parseFeed() gegen die Beispiel-Feeds in fixtures/feeds
+ *
+ * Aufruf: npm run check:feeds (bricht beim ersten Fehler mit AssertionError ab)
+ * Jeder Feed enthält zwei gültige Einträge und Einträge, die wegfallen müssen.
+ */
+
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { parseFeed } from '../feeds.js'
+
+const readFixture = (name) => readFileSync(new URL(`./feeds/${name}`, import.meta.url), 'utf8')
+
+const FIXTURES = [
+  {
+    file: 'rss.xml',
+    format: 'rss',
+    title: 'ACME Karriere',
+    items: [
+      { id: 'acme-101', title: 'Frontend Developer React (m/w/d)', url: 'https://careers.acme.example/jobs/101' },
+      { id: 'https://careers.acme.example/jobs/102', title: 'Werkstudent Marketing & Content', url: 'https://careers.acme.example/jobs/102' }
+    ],
+    // Eintrag ohne <link>
+    dropped: ['Initiativbewerbung']
+  },
+  {
+    file: 'atom.xml',
+    format: 'atom',
+    title: 'Nischen-Jobbörse',
+    items: [
+      { id: 'tag:jobs.niche.example,2026:201', title: 'Backend Engineer Node.js', url: 'https://jobs.niche.example/201' },
+      { id: 'tag:jobs.niche.example,2026:202', title: 'Data Analyst (Teilzeit)', url: 'https://jobs.niche.example/202' }
+    ],
+    // Eintrag ohne <title>
+    dropped: ['tag:jobs.niche.example,2026:203']
+  },
+  {
+    file: 'feed.json',
+    format: 'json',
+    title: 'Startup Jobs',
+    items: [
+      { id: '301', title: 'Fullstack Developer TypeScript', url: 'https://startup.example/jobs/301' },
+      { id: '302', title: 'Praktikum UX Design', url: 'https://startup.example/jobs/302' }
+    ],
+    // null-Eintrag und Eintrag ohne url
+    dropped: ['303']
+  }
+]
+
+for (const fixture of FIXTURES) {
+  const feed = parseFeed(readFixture(fixture.file))
+
+  assert.equal(feed.format, fixture.format, `${fixture.file}: format`)
+  assert.equal(feed.title, fixture.title, `${fixture.file}: title`)
+  assert.deepEqual(
+    feed.items.map(({ id, title, url }) => ({ id, title, url })),
+    fixture.items,
+    `${fixture.file}: items`
+  )
+  fixture.dropped.forEach((key) => {
+    assert.ok(
+      !feed.items.some(item => item.id === key || item.title === key),
+      `${fixture.file}: "${key}" should have been dropped`
+    )
+  })
+
+  console.log(`ok ${fixture.file} (${feed.format}, ${feed.items.length} items)`)
+}
+
+assert.throws(() => parseFeed('<html><body>Keine Jobs</body></html>'), /Not an RSS, Atom or JSON feed/)
+assert.throws(() => parseFeed('{"items": "none"}'), /Not an RSS, Atom or JSON feed/)
+console.log('ok invalid feeds are rejected')
@@ -0,0 +1,44 @@
+/**
+ * check-urlpolicy.js - Prüft checkUrl() gegen gesperrte und erlaubte Adressen
+ *
+ * Aufruf: npm run check:urlpolicy (bricht beim ersten Fehler mit AssertionError ab)
+ * Nur IP-Literale, es wird nichts aufgelöst und nichts abgerufen.
+ */
+
+import assert from 'node:assert/strict'
+import { createUrlPolicy } from '../urlpolicy.js'
+
+const { checkUrl } = createUrlPolicy({
+  lookup: () => {
+    throw new Error('lookup must not be called for IP literals')
+  }
+})
+
+const BLOCKED = [
+  ['http://127.0.0.1/', 'loopback'],
+  ['http://[::1]/', 'IPv6 loopback'],
+  ['http://[::ffff:127.0.0.1]/', 'IPv4-mapped loopback'],
+  ['http://[64:ff9b::7f00:1]/', 'NAT64 with loopback'],
+  ['http://[2002:7f00:1::]/', '6to4 with loopback'],
+  ['http://[2002:a00:1::1]/', '6to4 with 10.0.0.1'],
+  ['http://[2002:a9fe:a9fe::]/', '6to4 with 169.254.169.254'],
+  ['http://[fec0::1]/', 'site-local'],
+  ['http://[feff:ffff::1]/', 'end of site-local']
+]
+
+const ALLOWED = [
+  ['http://93.184.216.34/', 'public IPv4'],
+  ['http://[2606:4700::1111]/', 'public IPv6'],
+  ['http://[2002:5db8:d822::1]/', '6to4 with 93.184.216.34'],
+  ['http://[64:ff9b::5db8:d822]/', 'NAT64 with 93.184.216.34']
+]
+
+for (const [url, label] of BLOCKED) {
+  await assert.rejects(checkUrl(url), { code: 'blocked' }, `${label}: ${url} should be blocked`)
+  console.log(`ok blocked ${label} (${url})`)
+}
+
+for (const [url, label] of ALLOWED) {
+  await assert.doesNotReject(checkUrl(url), `${label}: ${url} should be allowed`)
+  console.log(`ok allowed ${label} (${url})`)
+}
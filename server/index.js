@@ -1,22 +1,203 @@
 import express from 'express'
 import cors from 'cors'
 import crypto from 'crypto'
-import { getDb } from './db.js'
+import process from 'process'
+import { getDb, getAppDb, listChatIds, deleteDb } from './db.js'
+import { retrievePages, buildRetrievalContext, injectSystemContext } from './retrieval.js'
+import { extractFileText, buildFileContext } from './extract.js'
+import {
+  searchJobSources,
+  listJobSources,
+  isKnownJobSource,
+  normalizeJobFilters,
+  fetchCompanyJobs
+} from './jobsources.js'
+import {
+  buildAiRequest,
+  callProvider,
+  streamProvider,
+  listProviderModels,
+  isSupportedProvider,
+  normalizeHeaders
+} from './providers.js'
+import {
+  isVaultConfigured,
+  listCredentials,
+  addCredential,
+  deleteCredential,
+  resolveCredential,
+  recordCredentialTest
+} from './vault.js'
+import {
+  validateSavedSearch,
+  listSavedSearches,
+  getSavedSearch,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  listDueSavedSearches,
+  runSavedSearch,
+  listSavedSearchResults,
+  markSavedSearchSeen
+} from './savedsearches.js'
+import {
+  recordUsage,
+  getModelPricing,
+  getUsageSummary,
+  getBudget,
+  setBudget,
+  getBudgetStatus,
+  getCompatiblePricing,
+  setCompatiblePricing
+} from './usage.js'
+import {
+  getCacheState,
+  getCachedJobSearch,
+  storeJobSearch,
+  listJobSearchCache,
+  clearJobSearchCache
+} from './jobcache.js'
+import { MAX_FEEDS_PER_CHAT, parseFeed, listFeeds, addFeed, deleteFeed } from './feeds.js'
+import {
+  MAX_WATCHED_COMPANIES,
+  validateWatchedCompany,
+  listWatchedCompanies,
+  addWatchedCompany,
+  deleteWatchedCompany
+} from './watchlist.js'
+import { extractJobPosting } from './jobposting.js'
+import { extractMainContent } from './readability.js'
+import { createCrawlPolicy } from './crawlpolicy.js'
+import { createUrlPolicy } from './urlpolicy.js'
+import { extractLinks, isSameSite, isLikelyHtml, createUrlMatcher, validateSeedCrawl } from './seedcrawl.js'
+import {
+  getCrawlJob,
+  listCrawlJobs,
+  listCrawlJobUrls,
+  createCrawlJob,
+  updateCrawlJobUrl,
+  setCrawlJobStatus,
+  completeCrawlJob,
+  resetCrawlJobUrls,
+  cancelPendingCrawlJobUrls,
+  recoverCrawlJobs,
+  deleteCrawlJob
+} from './crawljobs.js'
 
 const app = express()
 const port = process.env.PORT || 5174
 
 const MAX_URLS = 1000
 const FETCH_CONCURRENCY = 8
+// 'markdown' = Hauptinhalt mit Struktur (readability.js), 'text' = gesamter Seitentext
+const PAGE_EXTRACT_MODES = ['markdown', 'text']
+const PAGE_EXTRACT_MODE = PAGE_EXTRACT_MODES.includes(process.env.PAGE_EXTRACT_MODE) ? process.env.PAGE_EXTRACT_MODE : 'markdown'
+const PAGE_RAW_HTML_MAX_CHARS = Number(process.env.PAGE_RAW_HTML_MAX_CHARS || 1000000)
+const CRAWLER_USER_AGENT = process.env.CRAWLER_USER_AGENT || 'JobAssistant/1.0 (+crawler)'
+const CRAWL_HOST_CONCURRENCY = Number(process.env.CRAWL_HOST_CONCURRENCY || 2)
+const CRAWL_MIN_DELAY_MS = Number(process.env.CRAWL_MIN_DELAY_MS ?? 1000)
+const CRAWL_MAX_DELAY_MS = Number(process.env.CRAWL_MAX_DELAY_MS || 30000)
+// Obergrenzen für den Link-Crawl ab einer Karriereseite (/api/crawl/seed)
+const SEED_CRAWL_MAX_DEPTH = Number(process.env.SEED_CRAWL_MAX_DEPTH || 5)
+const SEED_CRAWL_MAX_PAGES = Number(process.env.SEED_CRAWL_MAX_PAGES || 200)
+const ROBOTS_CACHE_TTL_MS = Number(process.env.ROBOTS_CACHE_TTL_MS || 24 * 60 * 60 * 1000)
+// SSRF-Schutz: private Adressen nur mit URL_ALLOW_PRIVATE=true oder über URL_ALLOWLIST
+const URL_ALLOW_PRIVATE = process.env.URL_ALLOW_PRIVATE === 'true'
+const URL_ALLOWLIST = process.env.URL_ALLOWLIST || ''
+const URL_DENYLIST = process.env.URL_DENYLIST || ''
 const JOB_CACHE_TTL_MS = Number(process.env.JOB_CACHE_TTL_MS || 5 * 60 * 1000)
+const JOB_CACHE_STALE_MS = Number(process.env.JOB_CACHE_STALE_MS || 24 * 60 * 60 * 1000)
+const JOB_CACHE_MAX_ENTRIES = Number(process.env.JOB_CACHE_MAX_ENTRIES || 500)
+const JOB_PAYLOAD_CACHE_MAX_ENTRIES = Number(process.env.JOB_PAYLOAD_CACHE_MAX_ENTRIES || 2000)
 const JOB_SEARCH_TIMEOUT_MS = Number(process.env.JOB_SEARCH_TIMEOUT_MS || 8000)
 const JOB_SEARCH_MAX_ITEMS = Number(process.env.JOB_SEARCH_MAX_ITEMS || 200)
+const JOB_SNIPPET_MAX_CHARS = Number(process.env.JOB_SNIPPET_MAX_CHARS || 500)
+const JOB_ENRICH_MAX_ITEMS = Number(process.env.JOB_ENRICH_MAX_ITEMS || 20)
+const JOB_ENRICH_TIMEOUT_MS = Number(process.env.JOB_ENRICH_TIMEOUT_MS || 8000)
+const JOB_ENRICH_DEADLINE_MS = Number(process.env.JOB_ENRICH_DEADLINE_MS || 15000)
+const JOB_DESCRIPTION_MAX_CHARS = 20000
+const RETRIEVAL_TOKEN_BUDGET = Number(process.env.RETRIEVAL_TOKEN_BUDGET || 1500)
+const RETRIEVAL_MAX_PAGES = Number(process.env.RETRIEVAL_MAX_PAGES || 5)
+const FILE_CONTEXT_MAX_CHARS = Number(process.env.FILE_CONTEXT_MAX_CHARS || 20000)
+const MODEL_CACHE_TTL_MS = Number(process.env.MODEL_CACHE_TTL_MS || 10 * 60 * 1000)
+const MODEL_DISCOVERY_TIMEOUT_MS = Number(process.env.MODEL_DISCOVERY_TIMEOUT_MS || 5000)
+const MAX_FALLBACKS = 5
+const SAVED_SEARCH_TICK_MS = Number(process.env.SAVED_SEARCH_TICK_MS ?? 60 * 1000)
+const SAVED_SEARCH_INTERVAL_MINUTES = Number(process.env.SAVED_SEARCH_INTERVAL_MINUTES || 24 * 60)
+const AI_RETRY_OPTIONS = {
+  timeoutMs: Number(process.env.AI_TIMEOUT_MS || 60000),
+  maxRetries: Number(process.env.AI_MAX_RETRIES ?? 2),
+  retryBaseDelayMs: Number(process.env.AI_RETRY_BASE_DELAY_MS || 1000),
+  retryMaxDelayMs: Number(process.env.AI_RETRY_MAX_DELAY_MS || 30000)
+}
 
-const jobCache = new Map()
+// Prüft jede ausgehende URL von Crawler, Vorschau, Feeds und Job-Quellen (auch nach Redirects)
+const urlPolicy = createUrlPolicy({
+  allowPrivate: URL_ALLOW_PRIVATE,
+  allowList: URL_ALLOWLIST,
+  denyList: URL_DENYLIST
+})
+// robots.txt-Cache und Drosselung pro Host für alle Seitenabrufe
+const crawlPolicy = createCrawlPolicy({
+  userAgent: CRAWLER_USER_AGENT,
+  fetchImpl: urlPolicy.guardedFetch,
+  robotsCacheTtlMs: ROBOTS_CACHE_TTL_MS,
+  hostConcurrency: CRAWL_HOST_CONCURRENCY,
+  minDelayMs: CRAWL_MIN_DELAY_MS,
+  maxDelayMs: CRAWL_MAX_DELAY_MS
+})
+// Volltexte von Job-Landingpages (url -> { timestamp, content }), gleiche TTL und Obergrenze wie der Job-Cache
+const jobDescriptionCache = new Map()
+// Originalobjekte der Quellen ("source:id" -> { timestamp, content }), bleiben auf dem Server
+const jobPayloadCache = new Map()
+// Cache-Keys, deren Jobsuche gerade im Hintergrund erneuert wird
+const refreshingJobSearches = new Set()
+const modelCache = new Map()
+// Laufende gespeicherte Suchen ("chatId:searchId"), damit Scheduler und manueller Lauf nicht parallel laufen
+const runningSavedSearches = new Set()
+// Laufende Crawl-Jobs ("chatId:jobId" -> { stop: null | 'paused' | 'cancelled' })
+const activeCrawlJobs = new Map()
+// SSE-Verbindungen pro Crawl-Job ("chatId:jobId" -> Set<res>)
+const crawlJobListeners = new Map()
+// Chats, deren Crawl-Jobs seit dem Start schon wiederhergestellt wurden
+const recoveredCrawlJobChats = new Set()
 
 app.use(cors())
 app.use(express.json({ limit: '2mb' }))
 
+const parseConversationId = (value) => {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+// getDb() würde für eine unbekannte ID eine neue Datenbank anlegen
+const conversationExists = async (id) => (await listChatIds()).includes(id)
+
+/**
+ * Middleware für Routen mit chatId in Query oder Body
+ * Ohne chatId bleibt es bei der Standard-Datenbank, eine unbekannte chatId gibt 404
+ */
+const rejectUnknownChatId = async (req, res, next) => {
+  const chatId = req.body?.chatId ?? req.query.chatId
+  if (chatId === undefined || chatId === null || chatId === '') {
+    return next()
+  }
+  try {
+    const id = parseConversationId(chatId)
+    if (!id || !await conversationExists(id)) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+    return next()
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+}
+
+app.use(
+  ['/api/pages', '/api/crawl', '/api/upload', '/api/files', '/api/jobs/search', '/api/jobs/saved', '/api/ai/chat'],
+  rejectUnknownChatId
+)
+
 const sanitizeText = (text) => text.replace(/\s+/g, ' ').trim()
 const parseKeywordList = (input) => {
   if (!input) return []
@@ -42,60 +223,67 @@ const extractText = (html) => {
   return sanitizeText(noTags)
 }
 
-const stripHtml = (text) => {
-  if (!text) return ''
-  return sanitizeText(String(text).replace(/<[^>]+>/g, ' '))
-}
-
-const fetchJson = async (url, options = {}) => {
-  const controller = new AbortController()
-  const timeout = setTimeout(() => controller.abort(), JOB_SEARCH_TIMEOUT_MS)
-
-  try {
-    const response = await fetch(url, { ...options, signal: controller.signal })
-    if (!response.ok) {
-      throw new Error(`Request failed (${response.status})`)
+/**
+ * Seiteninhalt je nach Modus; findet die Markdown-Extraktion nichts, bleibt der volle Text
+ */
+const extractContent = (html, mode = PAGE_EXTRACT_MODE) => {
+  if (mode === 'markdown') {
+    const markdown = extractMainContent(html)
+    if (markdown) {
+      return { content: markdown, contentFormat: 'markdown' }
     }
-    return await response.json()
-  } finally {
-    clearTimeout(timeout)
   }
+  return { content: extractText(html), contentFormat: 'text' }
 }
 
-const normalizeJobItem = (source, job) => {
-  const title = job.title || job.position || job.name || 'Job'
-  const company = job.company || job.company_name || job.employerName || job.company_name_display || 'Unbekannt'
-  const location = job.location || job.locationName || job.candidate_required_location || null
-  const url = job.url || job.jobUrl || job.redirect_url || job.apply_url || job.refs?.landing_page || job.link || ''
-  const description = stripHtml(job.description || job.jobDescription || job.snippet || job.body || '')
-  const createdAt = job.created_at || job.publication_date || job.date || job.created || null
-
+/**
+ * Lädt eine Seite und extrahiert Titel und Text (gemeinsam für Crawl, Vorschau und Job-Volltexte)
+ *
+ * @param url - Seiten-URL (geprüft durch urlPolicy, Redirects ebenso)
+ * @param timeoutMs - Optional: Abbruch nach dieser Zeit
+ * @param mode - 'markdown' oder 'text' (Standard: PAGE_EXTRACT_MODE)
+ * @returns { url (nach Redirects), statusCode, title, content, contentFormat, html, jobPosting (JSON-LD oder null) }
+ */
+const fetchPage = async (url, timeoutMs, mode = PAGE_EXTRACT_MODE) => {
+  const response = await urlPolicy.guardedFetch(url, {
+    headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined
+  })
+  const html = await response.text()
   return {
-    id: `${source}:${job.id || job.jobId || job.slug || url || title}`,
-    title,
-    company,
-    location,
-    url,
-    source,
-    description,
-    createdAt
+    url: response.url || url,
+    statusCode: response.status,
+    title: extractTitle(html),
+    ...extractContent(html, mode),
+    html,
+    jobPosting: extractJobPosting(html)
   }
 }
 
-const dedupeJobs = (items) => {
-  const seen = new Set()
-  const result = []
-
-  for (const item of items) {
-    const key = item.url || item.id
-    if (!key || seen.has(key)) {
-      continue
-    }
-    seen.add(key)
-    result.push(item)
+/**
+ * fetchPage mit robots.txt-Prüfung und Drosselung pro Host (CRAWL_HOST_CONCURRENCY,
+ * Abstand CRAWL_MIN_DELAY_MS bzw. Crawl-delay bis CRAWL_MAX_DELAY_MS)
+ *
+ * @param shouldStop - Optional: wird vor dem Abruf geprüft, wenn der Host frei wird (Crawl-Jobs)
+ * @throws Error mit code = 'robots_disallowed', wenn robots.txt die URL sperrt,
+ *   code = 'blocked', wenn urlPolicy die URL oder ein Redirect-Ziel sperrt,
+ *   bzw. code = 'stopped', wenn shouldStop() vor dem Abruf true liefert
+ */
+const fetchPagePolitely = async (url, timeoutMs, mode, shouldStop = () => false) => {
+  const { allowed, crawlDelayMs } = await crawlPolicy.checkRobots(url)
+  if (!allowed) {
+    const error = new Error('Disallowed by robots.txt')
+    error.code = 'robots_disallowed'
+    throw error
   }
-
-  return result
+  return crawlPolicy.runForHost(url, crawlDelayMs, () => {
+    if (shouldStop()) {
+      const error = new Error('Crawl job stopped')
+      error.code = 'stopped'
+      throw error
+    }
+    return fetchPage(url, timeoutMs, mode)
+  })
 }
 
 const hashContent = (content) => {
@@ -121,19 +309,48 @@ const runWithConcurrency = async (items, limit, iterator) => {
   return results.filter(Boolean)
 }
 
-const upsertPage = async (db, { url, title, content, statusCode }) => {
+const PAGE_COLUMNS = `id, url, title, content, content_format, status_code, content_hash, fetched_at, created_at, updated_at,
+  job_company, job_location, job_date_posted, job_valid_through, job_employment_type,
+  job_salary_min, job_salary_max, job_salary_currency, job_salary_unit`
+
+/**
+ * Speichert eine Seite; JobPosting-Felder aus extractJobPosting() landen in den job_*-Spalten
+ * Ein erneuter Crawl ohne JSON-LD leert sie wieder. Das rohe HTML (gekürzt auf
+ * PAGE_RAW_HTML_MAX_CHARS) erlaubt später /api/pages/reextract ohne neuen Abruf.
+ */
+const upsertPage = async (db, { url, title, content, contentFormat = 'text', rawHtml = null, statusCode, jobPosting = null }) => {
   const contentHash = hashContent(content)
+  const job = jobPosting || {}
   await db.run(
-    `INSERT INTO pages (url, title, content, status_code, content_hash, fetched_at)
-     VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `INSERT INTO pages (url, title, content, content_format, raw_html, status_code, content_hash, fetched_at,
+       job_company, job_location, job_date_posted, job_valid_through, job_employment_type,
+       job_salary_min, job_salary_max, job_salary_currency, job_salary_unit)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), ?, ?, ?, ?, ?, ?, ?, ?, ?)
      ON CONFLICT(url) DO UPDATE SET
        title = excluded.title,
        content = excluded.content,
+       content_format = excluded.content_format,
+       raw_html = excluded.raw_html,
        status_code = excluded.status_code,
        content_hash = excluded.content_hash,
+       job_company = excluded.job_company,
+       job_location = excluded.job_location,
+       job_date_posted = excluded.job_date_posted,
+       job_valid_through = excluded.job_valid_through,
+       job_employment_type = excluded.job_employment_type,
+       job_salary_min = excluded.job_salary_min,
+       job_salary_max = excluded.job_salary_max,
+       job_salary_currency = excluded.job_salary_currency,
+       job_salary_unit = excluded.job_salary_unit,
        fetched_at = datetime('now'),
        updated_at = datetime('now')`,
-    [url, title, content, statusCode, contentHash]
+    [
+      url, title, content, contentFormat, rawHtml ? rawHtml.slice(0, PAGE_RAW_HTML_MAX_CHARS) : null,
+      statusCode, contentHash,
+      job.company ?? null, job.location ?? null, job.datePosted ?? null, job.validThrough ?? null,
+      job.employmentType ?? null, job.salaryMin ?? null, job.salaryMax ?? null,
+      job.salaryCurrency ?? null, job.salaryUnit ?? null
+    ]
   )
 
   const row = await db.get('SELECT id FROM pages WHERE url = ?', [url])
@@ -151,7 +368,7 @@ app.get('/api/pages', async (req, res) => {
   const offset = Math.max(parseInt(req.query.offset || '0', 10), 0)
 
   const rows = await db.all(
-    'SELECT id, url, title, content, status_code, content_hash, fetched_at, created_at, updated_at FROM pages ORDER BY id DESC LIMIT ? OFFSET ?',
+    `SELECT ${PAGE_COLUMNS} FROM pages ORDER BY id DESC LIMIT ? OFFSET ?`,
     [limit, offset]
   )
 
@@ -167,7 +384,7 @@ app.get('/api/pages/:id', async (req, res) => {
   }
 
   const row = await db.get(
-    'SELECT id, url, title, content, status_code, content_hash, fetched_at, created_at, updated_at FROM pages WHERE id = ?',
+    `SELECT ${PAGE_COLUMNS} FROM pages WHERE id = ?`,
     [id]
   )
 
@@ -191,7 +408,7 @@ app.get('/api/pages/search', async (req, res) => {
 
   const like = `%${query}%`
   const rows = await db.all(
-    'SELECT id, url, title, content, status_code, content_hash, fetched_at, created_at, updated_at FROM pages WHERE content LIKE ? OR title LIKE ? ORDER BY id DESC LIMIT ? OFFSET ?',
+    `SELECT ${PAGE_COLUMNS} FROM pages WHERE content LIKE ? OR title LIKE ? ORDER BY id DESC LIMIT ? OFFSET ?`,
     [like, like, limit, offset]
   )
 
@@ -199,18 +416,139 @@ app.get('/api/pages/search', async (req, res) => {
 })
 
 app.post('/api/pages', async (req, res) => {
-  const { url, content, title, statusCode, chatId } = req.body || {}
+  const { url, content, title, contentFormat, statusCode, jobPosting, chatId } = req.body || {}
   const db = await getDb(chatId)
 
   if (!url || !content) {
     return res.status(400).json({ error: 'url and content are required' })
   }
 
-  const result = await upsertPage(db, { url, title: title || null, content, statusCode: statusCode ?? null })
+  const result = await upsertPage(db, {
+    url,
+    title: title || null,
+    content,
+    contentFormat: PAGE_EXTRACT_MODES.includes(contentFormat) ? contentFormat : 'text',
+    statusCode: statusCode ?? null,
+    jobPosting: jobPosting && typeof jobPosting === 'object' ? jobPosting : null
+  })
 
   return res.status(201).json({ id: result.id, contentHash: result.contentHash })
 })
 
+/**
+ * Extrahiert gespeicherte Seiten neu, z.B. nach einem Wechsel von PAGE_EXTRACT_MODE
+ * Seiten mit raw_html werden lokal verarbeitet; ältere Seiten ohne HTML nur mit refetch = true neu geladen
+ */
+app.post('/api/pages/reextract', async (req, res) => {
+  const { chatId, ids, mode, refetch } = req.body || {}
+  const extractMode = mode ?? PAGE_EXTRACT_MODE
+
+  if (!PAGE_EXTRACT_MODES.includes(extractMode)) {
+    return res.status(400).json({ error: `mode must be one of ${PAGE_EXTRACT_MODES.join(', ')}` })
+  }
+  if (ids !== undefined && (!Array.isArray(ids) || ids.length > MAX_URLS)) {
+    return res.status(400).json({ error: `ids must be an array with at most ${MAX_URLS} entries` })
+  }
+
+  const db = await getDb(chatId)
+  const pageIds = Array.isArray(ids) ? ids.map(Number).filter(Number.isInteger) : null
+  const rows = pageIds
+    ? (pageIds.length > 0
+        ? await db.all(`SELECT id, url, raw_html FROM pages WHERE id IN (${pageIds.map(() => '?').join(', ')})`, pageIds)
+        : [])
+    : await db.all('SELECT id, url, raw_html FROM pages ORDER BY id')
+
+  const results = await runWithConcurrency(rows, FETCH_CONCURRENCY, async (row) => {
+    const base = { id: row.id, url: row.url }
+    try {
+      if (row.raw_html) {
+        const { content, contentFormat } = extractContent(row.raw_html, extractMode)
+        if (!content) {
+          return { ...base, status: 'skipped', reason: 'no_content' }
+        }
+        await db.run(
+          `UPDATE pages SET content = ?, content_format = ?, content_hash = ?, updated_at = datetime('now')
+           WHERE id = ?`,
+          [content, contentFormat, hashContent(content), row.id]
+        )
+        return { ...base, status: 'ok', source: 'html', contentFormat }
+      }
+
+      if (!refetch) {
+        return { ...base, status: 'skipped', reason: 'no_raw_html' }
+      }
+      const page = await fetchPagePolitely(row.url, undefined, extractMode)
+      if (!page.content) {
+        return { ...base, status: 'skipped', reason: 'no_content' }
+      }
+      // Gespeicherte URL behalten (Redirects würden sonst eine zweite Zeile anlegen)
+      await upsertPage(db, {
+        url: row.url,
+        title: page.title,
+        content: page.content,
+        contentFormat: page.contentFormat,
+        rawHtml: page.html,
+        statusCode: page.statusCode,
+        jobPosting: page.jobPosting
+      })
+      return { ...base, status: 'ok', source: 'fetch', contentFormat: page.contentFormat }
+    } catch (error) {
+      if (error.code === 'robots_disallowed') {
+        return { ...base, status: 'skipped', reason: 'robots_disallowed' }
+      }
+      if (error.code === 'blocked') {
+        return { ...base, status: 'skipped', reason: 'blocked', detail: error.message }
+      }
+      return { ...base, status: 'failed', reason: error.message }
+    }
+  })
+
+  return res.json({
+    items: results,
+    mode: extractMode,
+    updated: results.filter(result => result.status === 'ok').length
+  })
+})
+
+/**
+ * Lädt eine URL und speichert sie (gemeinsam für /api/crawl und Crawl-Jobs)
+ * @returns { url, status: 'ok' | 'skipped' | 'failed', id, statusCode, contentHash, contentFormat, jobPosting, reason, detail }
+ *   bzw. status 'stopped', wenn shouldStop() vor dem Abruf true war
+ */
+const crawlUrl = async (db, url, shouldStop) => {
+  try {
+    const page = await fetchPagePolitely(url, undefined, undefined, shouldStop)
+    const { statusCode, title, content, contentFormat, jobPosting } = page
+
+    if (!content) {
+      return { url, status: 'skipped', reason: 'no_content' }
+    }
+
+    const { id, contentHash } = await upsertPage(db, {
+      url: page.url,
+      title,
+      content,
+      contentFormat,
+      rawHtml: page.html,
+      statusCode,
+      jobPosting
+    })
+
+    return { url, status: 'ok', id, statusCode, contentHash, contentFormat, jobPosting }
+  } catch (error) {
+    if (error.code === 'robots_disallowed') {
+      return { url, status: 'skipped', reason: 'robots_disallowed' }
+    }
+    if (error.code === 'blocked') {
+      return { url, status: 'skipped', reason: 'blocked', detail: error.message }
+    }
+    if (error.code === 'stopped') {
+      return { url, status: 'stopped' }
+    }
+    return { url, status: 'failed', reason: error.message }
+  }
+}
+
 app.post('/api/crawl', async (req, res) => {
   const { urls, chatId } = req.body || {}
   const db = await getDb(chatId)
@@ -222,32 +560,126 @@ app.post('/api/crawl', async (req, res) => {
     return res.status(400).json({ error: `urls must not exceed ${MAX_URLS}` })
   }
 
-  const results = await runWithConcurrency(urls, FETCH_CONCURRENCY, async (url) => {
-    try {
-      const response = await fetch(url, { redirect: 'follow' })
-      const statusCode = response.status
-      const html = await response.text()
-      const title = extractTitle(html)
-      const content = extractText(html)
-
-      if (!content) {
-        return { url, status: 'skipped', reason: 'no_content' }
+  const results = await runWithConcurrency(urls, FETCH_CONCURRENCY, (url) => crawlUrl(db, url))
+
+  return res.json({ items: results })
+})
+
+/**
+ * Folgt ab der Seed-URL den Links derselben Website (Breitensuche, Ebene für Ebene)
+ * Geladen wird bis maxDepth und maxPages; gespeichert werden nur Seiten, die
+ * zu include passen. exclude-Treffer werden weder geladen noch gespeichert.
+ *
+ * @param db - Chat-Datenbank
+ * @param options - Ergebnis von validateSeedCrawl()
+ * @returns { seedUrl, items, graph: [{ url, depth, links }], skipped: [{ url, reason, detail? }], fetched }
+ */
+const crawlFromSeed = async (db, { seedUrl, maxDepth, maxPages, include, exclude }) => {
+  const matcher = createUrlMatcher(include, exclude)
+  const visited = new Set([seedUrl])
+  const items = []
+  const graph = []
+  const skipped = []
+  let level = [seedUrl]
+  let fetched = 0
+
+  for (let depth = 0; level.length > 0; depth += 1) {
+    const batch = level.slice(0, maxPages - fetched)
+    level.slice(batch.length).forEach(url => skipped.push({ url, reason: 'max_pages' }))
+    fetched += batch.length
+    const next = []
+
+    await runWithConcurrency(batch, FETCH_CONCURRENCY, async (url) => {
+      let page = null
+      try {
+        page = await fetchPagePolitely(url)
+      } catch (error) {
+        if (error.code === 'robots_disallowed' || error.code === 'blocked') {
+          skipped.push({ url, reason: error.code, detail: error.message })
+        } else {
+          skipped.push({ url, reason: 'failed', detail: error.message })
+        }
+        return
+      }
+      visited.add(page.url)
+      // Redirects auf fremde Websites werden nicht weiterverfolgt
+      if (!isSameSite(page.url, seedUrl)) {
+        skipped.push({ url, reason: 'external', detail: page.url })
+        return
       }
 
-      const { id, contentHash } = await upsertPage(db, {
-        url: response.url || url,
-        title,
-        content,
-        statusCode
-      })
+      const links = extractLinks(page.html, page.url).filter(link => isSameSite(link, seedUrl))
+      graph.push({ url, depth, links })
+      for (const link of links) {
+        if (visited.has(link)) {
+          continue
+        }
+        visited.add(link)
+        if (matcher.isExcluded(link)) {
+          skipped.push({ url: link, reason: 'excluded' })
+        } else if (!isLikelyHtml(link)) {
+          skipped.push({ url: link, reason: 'not_html' })
+        } else if (depth >= maxDepth) {
+          skipped.push({ url: link, reason: 'max_depth' })
+        } else {
+          next.push(link)
+        }
+      }
 
-      return { url, status: 'ok', id, statusCode, contentHash }
-    } catch (error) {
-      return { url, status: 'failed', reason: error.message }
-    }
+      if (!matcher.isIncluded(url)) {
+        skipped.push({ url, reason: 'not_matched' })
+        return
+      }
+      if (page.statusCode >= 400) {
+        skipped.push({ url, reason: 'http_error', detail: String(page.statusCode) })
+        return
+      }
+      if (!page.content) {
+        skipped.push({ url, reason: 'no_content' })
+        return
+      }
+      try {
+        const { id, contentHash } = await upsertPage(db, {
+          url: page.url,
+          title: page.title,
+          content: page.content,
+          contentFormat: page.contentFormat,
+          rawHtml: page.html,
+          statusCode: page.statusCode,
+          jobPosting: page.jobPosting
+        })
+        items.push({
+          url,
+          status: 'ok',
+          id,
+          statusCode: page.statusCode,
+          contentHash,
+          contentFormat: page.contentFormat,
+          jobPosting: page.jobPosting,
+          depth
+        })
+      } catch (error) {
+        skipped.push({ url, reason: 'failed', detail: error.message })
+      }
+    })
+    level = next
+  }
+
+  return { seedUrl, items, graph, skipped, fetched }
+}
+
+app.post('/api/crawl/seed', async (req, res) => {
+  const { chatId, ...options } = req.body || {}
+  const { value, error } = validateSeedCrawl(options, {
+    maxDepthLimit: SEED_CRAWL_MAX_DEPTH,
+    maxPagesLimit: SEED_CRAWL_MAX_PAGES
   })
+  if (error) {
+    return res.status(400).json({ error })
+  }
 
-  return res.json({ items: results })
+  const db = await getDb(chatId)
+  return res.json(await crawlFromSeed(db, value))
 })
 
 app.post('/api/preview', async (req, res) => {
@@ -263,250 +695,608 @@ app.post('/api/preview', async (req, res) => {
 
   const results = await runWithConcurrency(urls, FETCH_CONCURRENCY, async (url) => {
     try {
-      const response = await fetch(url, { redirect: 'follow' })
-      const statusCode = response.status
-      const html = await response.text()
-      const title = extractTitle(html)
-      const content = extractText(html)
+      const page = await fetchPagePolitely(url)
 
-      if (!content) {
+      if (!page.content) {
         return null
       }
 
-      if (normalizedQuery && !content.toLowerCase().includes(normalizedQuery)) {
+      if (normalizedQuery && !page.content.toLowerCase().includes(normalizedQuery)) {
         return null
       }
 
+      // Rohes HTML bleibt auf dem Server
       return {
-        url: response.url || url,
-        title,
-        content,
-        statusCode
+        url: page.url,
+        statusCode: page.statusCode,
+        title: page.title,
+        content: page.content,
+        contentFormat: page.contentFormat,
+        jobPosting: page.jobPosting
       }
     } catch (error) {
+      // Gesperrte URLs mit Grund melden, andere Fehler fallen wie bisher still weg
+      if (error.code === 'blocked' || error.code === 'robots_disallowed') {
+        return { url, status: 'skipped', reason: error.code, detail: error.message }
+      }
       return null
     }
   })
 
-  return res.json({ items: results })
+  return res.json({
+    items: results.filter(result => result.status !== 'skipped'),
+    skipped: results.filter(result => result.status === 'skipped')
+  })
 })
 
 // ===== JOB SEARCH ENDPOINTS =====
 
-const searchJobSources = async (query, limit) => {
-  const tasks = []
-  const perSourceLimit = Math.max(1, Math.min(limit, 50))
+/**
+ * Liest aus einem In-Memory-Cache (key -> { timestamp, content }); Treffer rücken ans Ende (LRU)
+ * @param cache - jobDescriptionCache oder jobPayloadCache
+ * @param key - Schlüssel des Eintrags
+ * @param ttlMs - Maximales Alter
+ * @returns Inhalt oder null, wenn nicht vorhanden oder abgelaufen
+ */
+const getCachedEntry = (cache, key, ttlMs) => {
+  const cached = cache.get(key)
+  if (!cached) {
+    return null
+  }
+  cache.delete(key)
+  if (Date.now() - cached.timestamp >= ttlMs) {
+    return null
+  }
+  cache.set(key, cached)
+  return cached.content
+}
 
-  const arbeitnowUrl = `https://www.arbeitnow.com/api/job-board-api?search=${encodeURIComponent(query)}`
-  tasks.push(
-    fetchJson(arbeitnowUrl)
-      .then((payload) => {
-        const data = Array.isArray(payload?.data) ? payload.data : []
-        return data.slice(0, perSourceLimit).map((job) => normalizeJobItem('Arbeitnow', job))
-      })
-      .catch(() => [])
-  )
+/**
+ * Legt einen Eintrag ab; räumt abgelaufene Einträge weg und
+ * verdrängt die am längsten ungenutzten, sobald maxEntries erreicht ist
+ * @param cache - jobDescriptionCache oder jobPayloadCache
+ * @param key - Schlüssel des Eintrags
+ * @param content - Abzulegender Inhalt
+ * @param options - { ttlMs, maxEntries }
+ */
+const setCachedEntry = (cache, key, content, { ttlMs, maxEntries }) => {
+  const now = Date.now()
+  cache.delete(key)
+  if (cache.size >= maxEntries) {
+    for (const [entryKey, entry] of cache) {
+      if (now - entry.timestamp >= ttlMs) {
+        cache.delete(entryKey)
+      }
+    }
+  }
+  while (cache.size > 0 && cache.size >= maxEntries) {
+    cache.delete(cache.keys().next().value)
+  }
+  cache.set(key, { timestamp: now, content })
+}
 
-  const remotiveUrl = `https://remotive.com/api/remote-jobs?search=${encodeURIComponent(query)}`
-  tasks.push(
-    fetchJson(remotiveUrl)
-      .then((payload) => {
-        const jobs = Array.isArray(payload?.jobs) ? payload.jobs : []
-        return jobs.slice(0, perSourceLimit).map((job) => normalizeJobItem('Remotive', job))
-      })
-      .catch(() => [])
-  )
+const jobDescriptionCacheOptions = { ttlMs: JOB_CACHE_TTL_MS, maxEntries: JOB_CACHE_MAX_ENTRIES }
+const jobPayloadCacheOptions = { ttlMs: JOB_CACHE_STALE_MS, maxEntries: JOB_PAYLOAD_CACHE_MAX_ENTRIES }
 
-  const theMuseKey = process.env.THEMUSE_API_KEY
-  const theMuseParams = new URLSearchParams({
-    page: '1',
-    descending: 'true',
-    query
-  })
-  if (theMuseKey) {
-    theMuseParams.set('api_key', theMuseKey)
-  }
-  const theMuseUrl = `https://www.themuse.com/api/public/jobs?${theMuseParams.toString()}`
-  tasks.push(
-    fetchJson(theMuseUrl)
-      .then((payload) => {
-        const jobs = Array.isArray(payload?.results) ? payload.results : []
-        return jobs.slice(0, perSourceLimit).map((job) => {
-          const mapped = normalizeJobItem('The Muse', {
-            ...job,
-            company: job.company?.name,
-            location: job.locations?.[0]?.name,
-            url: job.refs?.landing_page
-          })
-          return mapped
-        })
-      })
-      .catch(() => [])
-  )
+/**
+ * Merkt sich die Originalobjekte aus searchJobSources() für das Speichern von Jobs
+ * @param result - Ergebnis von searchJobSources()
+ * @returns { items, sources } ohne payloads
+ */
+const rememberJobPayloads = ({ items, payloads, sources }) => {
+  payloads.forEach((raw, key) => setCachedEntry(jobPayloadCache, key, raw, jobPayloadCacheOptions))
+  return { items, sources }
+}
 
-  const adzunaId = process.env.ADZUNA_APP_ID
-  const adzunaKey = process.env.ADZUNA_APP_KEY
-  if (adzunaId && adzunaKey) {
-    const adzunaParams = new URLSearchParams({
-      app_id: adzunaId,
-      app_key: adzunaKey,
-      what: query,
-      results_per_page: String(perSourceLimit),
-      'content-type': 'application/json'
-    })
-    const adzunaUrl = `https://api.adzuna.com/v1/api/jobs/de/search/1?${adzunaParams.toString()}`
-    tasks.push(
-      fetchJson(adzunaUrl)
-        .then((payload) => {
-          const jobs = Array.isArray(payload?.results) ? payload.results : []
-          return jobs.slice(0, perSourceLimit).map((job) => normalizeJobItem('Adzuna', {
-            ...job,
-            company: job.company?.display_name,
-            location: job.location?.display_name,
-            url: job.redirect_url
-          }))
-        })
-        .catch(() => [])
-    )
+/**
+ * Ersetzt zu kurze API-Beschreibungen durch den Text der Job-Landingpage
+ * Nutzt fetchPagePolitely wie der Crawler (robots.txt, Drosselung); Fehler lassen den Ausschnitt stehen
+ * Nach JOB_ENRICH_DEADLINE_MS wird nicht länger gewartet: Seiten, die noch in der
+ * Host-Warteschlange stehen, werden nicht mehr geladen und behalten den Ausschnitt
+ *
+ * @param items - Treffer aus searchJobSources() oder vom Client
+ * @param maxItems - Maximal so viele Seiten laden (Rest bleibt 'snippet')
+ * @returns Neue Liste; angereicherte Treffer haben descriptionType = 'full' und descriptionSource = 'page'
+ */
+const enrichJobDescriptions = async (items, maxItems = JOB_ENRICH_MAX_ITEMS) => {
+  const candidates = items
+    .filter(item => item.url && (item.description || '').length < JOB_SNIPPET_MAX_CHARS)
+    .slice(0, maxItems)
+  if (candidates.length === 0) {
+    return items
   }
 
-  const reedKey = process.env.REED_API_KEY
-  if (reedKey) {
-    const reedParams = new URLSearchParams({
-      keywords: query,
-      resultsToTake: String(perSourceLimit)
-    })
-    const reedUrl = `https://www.reed.co.uk/api/1.0/search?${reedParams.toString()}`
-    const authHeader = `Basic ${Buffer.from(`${reedKey}:`).toString('base64')}`
-
-    tasks.push(
-      fetchJson(reedUrl, { headers: { Authorization: authHeader } })
-        .then((payload) => {
-          const jobs = Array.isArray(payload?.results) ? payload.results : []
-          return jobs.slice(0, perSourceLimit).map((job) => normalizeJobItem('Reed', {
-            ...job,
-            company: job.employerName,
-            location: job.locationName,
-            url: job.jobUrl,
-            description: job.jobDescription
-          }))
-        })
-        .catch(() => [])
-    )
-  }
+  // IDs sind nur pro Quelle eindeutig
+  const getItemKey = (item) => `${item.source}:${item.id}`
+  const contents = new Map()
+  const deadline = Date.now() + JOB_ENRICH_DEADLINE_MS
+  const isPastDeadline = () => Date.now() >= deadline
+  const work = runWithConcurrency(candidates, FETCH_CONCURRENCY, async (item) => {
+    const cached = getCachedEntry(jobDescriptionCache, item.url, JOB_CACHE_TTL_MS)
+    if (cached !== null) {
+      contents.set(getItemKey(item), cached)
+      return
+    }
+    if (isPastDeadline()) {
+      return
+    }
+    try {
+      const page = await fetchPagePolitely(item.url, JOB_ENRICH_TIMEOUT_MS, undefined, isPastDeadline)
+      if (page.statusCode >= 400 || !page.content) {
+        return
+      }
+      const content = page.content.slice(0, JOB_DESCRIPTION_MAX_CHARS)
+      setCachedEntry(jobDescriptionCache, item.url, content, jobDescriptionCacheOptions)
+      contents.set(getItemKey(item), content)
+    } catch {
+      // Landingpage nicht erreichbar oder Frist abgelaufen, Ausschnitt bleibt
+    }
+  })
 
-  const remoteOkUrl = 'https://remoteok.com/api'
-  tasks.push(
-    fetchJson(remoteOkUrl, { headers: { 'User-Agent': 'JobAssistant/1.0' } })
-      .then((payload) => {
-        const jobs = Array.isArray(payload) ? payload.filter((item) => item && item.id && item.position) : []
-        const normalizedQuery = query.toLowerCase()
-        const filtered = jobs.filter((job) => {
-          const haystack = `${job.position} ${job.company} ${job.description || ''}`.toLowerCase()
-          return haystack.includes(normalizedQuery)
-        })
-        return filtered.slice(0, perSourceLimit).map((job) => normalizeJobItem('RemoteOK', {
-          ...job,
-          title: job.position,
-          company: job.company,
-          url: job.url || job.apply_url,
-          description: job.description
-        }))
-      })
-      .catch(() => [])
-  )
+  let timer
+  await Promise.race([work, new Promise((resolve) => {
+    timer = setTimeout(resolve, JOB_ENRICH_DEADLINE_MS)
+  })])
+  clearTimeout(timer)
+
+  return items.map((item) => {
+    const content = contents.get(getItemKey(item))
+    // Die Seite muss mehr hergeben als der Ausschnitt, sonst lohnt sich der Tausch nicht
+    if (!content || content.length <= (item.description || '').length) {
+      return item
+    }
+    return { ...item, description: content, descriptionType: 'full', descriptionSource: 'page' }
+  })
+}
+
+/**
+ * GET /api/jobs/sources
+ * Alle Job-Quellen; configured = false, wenn benötigte Env-Keys fehlen
+ */
+app.get('/api/jobs/sources', (req, res) => {
+  return res.json({ sources: listJobSources() })
+})
+
+const jobCacheOptions = { ttlMs: JOB_CACHE_TTL_MS, staleMs: JOB_CACHE_STALE_MS, maxEntries: JOB_CACHE_MAX_ENTRIES }
 
-  const results = await Promise.all(tasks)
-  return dedupeJobs(results.flat()).slice(0, JOB_SEARCH_MAX_ITEMS)
+/**
+ * Fragt die Quellen ab und legt das Ergebnis im Cache ab
+ * Nur cachen, wenn keine Quelle fehlgeschlagen ist, sonst beim nächsten Mal neu versuchen
+ *
+ * @returns { items, sources }
+ */
+const runCachedJobSearch = async (cacheKey, query, limit, { enabled, filters, feeds, companies, enrich }) => {
+  const result = rememberJobPayloads(await searchJobSources(query, limit, {
+    enabled,
+    filters,
+    feeds,
+    companies,
+    timeoutMs: JOB_SEARCH_TIMEOUT_MS,
+    maxItems: JOB_SEARCH_MAX_ITEMS,
+    snippetMaxChars: JOB_SNIPPET_MAX_CHARS,
+    fetchImpl: urlPolicy.guardedFetch
+  }))
+  const { sources } = result
+  const items = enrich ? await enrichJobDescriptions(result.items) : result.items
+
+  if (!sources.some(source => source.status === 'failed')) {
+    try {
+      await storeJobSearch(await getAppDb(), cacheKey, { query, items, sources }, jobCacheOptions)
+    } catch (error) {
+      console.error('Could not store job search cache:', error.message)
+    }
+  }
+  return { items, sources }
 }
 
+/**
+ * GET /api/jobs/search
+ * Query: q, limit?, sources? (kommagetrennte IDs, Standard: alle),
+ *   location?, radiusKm?, country?, remoteOnly?, employmentType?, postedWithinDays?, salaryMin?,
+ *   enrich? (true = kurze Beschreibungen von der Landingpage nachladen, max. JOB_ENRICH_MAX_ITEMS),
+ *   chatId? (registrierte Feeds und beobachtete Firmen dieses Chats)
+ * Antwort: { items, sources: [{ id, name, status, reason?, latencyMs, itemCount }], cached, stale, fetchedAt, ageMs }
+ * Veraltete Cache-Einträge (älter als JOB_CACHE_TTL_MS) kommen sofort mit stale: true
+ * und werden im Hintergrund erneuert
+ */
 app.get('/api/jobs/search', async (req, res) => {
   const query = (req.query.q || '').toString().trim()
   const limit = Math.max(1, Math.min(parseInt(req.query.limit || '50', 10), JOB_SEARCH_MAX_ITEMS))
+  const enabled = req.query.sources !== undefined
+    ? parseKeywordList(req.query.sources).filter(isKnownJobSource)
+    : null
+  const filters = normalizeJobFilters(req.query)
+  const enrich = req.query.enrich === 'true' || req.query.enrich === '1'
+  const chatId = parseConversationId(req.query.chatId)
 
   if (!query) {
-    return res.json({ items: [] })
+    return res.json({ items: [], sources: [], cached: false, stale: false, fetchedAt: null, ageMs: 0 })
   }
 
-  const cacheKey = `${query.toLowerCase()}::${limit}`
-  const cached = jobCache.get(cacheKey)
-  if (cached && Date.now() - cached.timestamp < JOB_CACHE_TTL_MS) {
-    return res.json({ items: cached.items })
+  // Feeds und Watchlist des Chats für die Quelle "feeds" und die ATS-Adapter
+  let feeds = []
+  let companies = []
+  if (chatId) {
+    try {
+      const db = await getDb(chatId)
+      feeds = await listFeeds(db)
+      companies = await listWatchedCompanies(db)
+    } catch (error) {
+      console.error('Could not load job feeds and watched companies:', error.message)
+    }
   }
+  // Neue oder gelöschte Feeds und Firmen ergeben einen neuen Cache-Key
+  const chatSources = [
+    ...feeds.map(feed => feed.url),
+    ...companies.map(company => `${company.ats}:${company.slug}:${company.name}`)
+  ]
+  const chatSourceKey = chatSources.length > 0
+    ? crypto.createHash('sha1').update(chatSources.sort().join('\n')).digest('hex').slice(0, 12)
+    : ''
 
+  const filterKey = Object.keys(filters).sort().map(key => `${key}=${String(filters[key]).toLowerCase()}`).join('&')
+  const cacheKey = `${query.toLowerCase()}::${limit}::${enabled ? [...enabled].sort().join(',') : '*'}::${filterKey}::${enrich ? 'full' : 'api'}${chatSourceKey ? `::chat=${chatSourceKey}` : ''}`
+  const searchOptions = { enabled, filters, feeds, companies, enrich }
+
+  let cached = null
   try {
-    const items = await searchJobSources(query, limit)
-    jobCache.set(cacheKey, { timestamp: Date.now(), items })
-    return res.json({ items })
+    cached = await getCachedJobSearch(await getAppDb(), cacheKey)
   } catch (error) {
+    console.error('Could not read job search cache:', error.message)
+  }
+  const cacheState = cached ? getCacheState(cached.ageMs, jobCacheOptions) : 'expired'
+
+  if (cached && cacheState !== 'expired') {
+    if (cacheState === 'stale' && !refreshingJobSearches.has(cacheKey)) {
+      refreshingJobSearches.add(cacheKey)
+      runCachedJobSearch(cacheKey, query, limit, searchOptions)
+        .catch(error => console.error('Job search refresh failed:', error.message))
+        .finally(() => refreshingJobSearches.delete(cacheKey))
+    }
+    return res.json({
+      items: cached.items,
+      sources: cached.sources,
+      cached: true,
+      stale: cacheState === 'stale',
+      fetchedAt: cached.fetchedAt,
+      ageMs: cached.ageMs
+    })
+  }
+
+  try {
+    const { items, sources } = await runCachedJobSearch(cacheKey, query, limit, searchOptions)
+    return res.json({ items, sources, cached: false, stale: false, fetchedAt: new Date().toISOString(), ageMs: 0 })
+  } catch {
     return res.status(500).json({ error: 'Job search failed' })
   }
 })
 
-// ===== FILE UPLOAD ENDPOINTS =====
-
 /**
- * POST /api/upload
- * Speichert hochgeladene Dateien für die AI
- * Body: { fileName, fileContent (base64), chatId }
+ * GET /api/jobs/cache
+ * Admin: Einträge des Job-Caches (ohne Treffer) und die Cache-Einstellungen
+ * Antwort: { entries: [{ key, query, itemCount, sizeBytes, fetchedAt, ageMs, state, hitCount, lastHitAt }], settings }
  */
-app.post('/api/upload', async (req, res) => {
-  const { fileName, fileContent, fileType, fileSize, chatId } = req.body || {}
-  const db = await getDb(chatId)
-
-  if (!fileName || !fileContent) {
-    return res.status(400).json({
-      success: false,
-      error: 'fileName and fileContent are required'
-    })
+app.get('/api/jobs/cache', async (req, res) => {
+  try {
+    const entries = await listJobSearchCache(await getAppDb(), jobCacheOptions)
+    return res.json({ entries, settings: jobCacheOptions })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
   }
+})
 
+/**
+ * DELETE /api/jobs/cache?key=...
+ * Admin: Leert den Job-Cache, mit key nur diesen Eintrag
+ * Antwort: { deleted }
+ */
+app.delete('/api/jobs/cache', async (req, res) => {
+  const key = req.query.key ? String(req.query.key) : null
   try {
-    // Validate file size (max 10MB base64 ≈ 7.5MB binary)
-    if (fileContent.length > 10 * 1024 * 1024) {
-      return res.status(400).json({
-        success: false,
-        error: 'Datei zu groß (Max. 10MB)'
-      })
-    }
+    const deleted = await clearJobSearchCache(await getAppDb(), key)
+    return res.json({ deleted })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
 
-    // Generate file ID
-    const fileId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+// ===== SAVED JOB ENDPOINTS =====
+
+const JOB_COLUMNS = `id, source, external_id, title, company, location, url, description, description_type, remote,
+  employment_type, salary_min, salary_max, created_at, saved_at, updated_at`
+
+const MAX_SAVED_JOBS_PER_REQUEST = 200
+
+const mapJobRow = (row) => ({
+  id: row.id,
+  source: row.source,
+  externalId: row.external_id,
+  title: row.title,
+  company: row.company,
+  location: row.location,
+  url: row.url,
+  description: row.description || '',
+  descriptionType: row.description_type || 'snippet',
+  remote: row.remote === null ? null : Boolean(row.remote),
+  employmentType: row.employment_type,
+  salaryMin: row.salary_min,
+  salaryMax: row.salary_max,
+  createdAt: row.created_at,
+  savedAt: row.saved_at,
+  updatedAt: row.updated_at
+})
 
-    const contentHash = crypto.createHash('sha256').update(fileContent).digest('hex')
+// Felder eines Treffers, die als raw abgelegt werden, wenn das Originalobjekt nicht mehr im Speicher liegt
+const JOB_ITEM_FIELDS = ['id', 'source', 'title', 'company', 'location', 'url', 'createdAt', 'remote',
+  'employmentType', 'salaryMin', 'salaryMax', 'foundOn']
 
-    await db.run(
-      `INSERT INTO files (id, name, mime, size, content_base64, content_hash, uploaded_at)
-       VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
-      [fileId, fileName, fileType || null, fileSize || null, fileContent, contentHash]
-    )
+/**
+ * raw für die Tabelle jobs: das Originalobjekt aus jobPayloadCache,
+ * sonst nur die bekannten Felder des Treffers (nichts Beliebiges vom Client)
+ */
+const resolveJobPayload = (item) => (
+  getCachedEntry(jobPayloadCache, `${item.source}:${item.id}`, JOB_CACHE_STALE_MS) ??
+    Object.fromEntries(JOB_ITEM_FIELDS.filter(field => item[field] !== undefined).map(field => [field, item[field]]))
+)
 
-    return res.status(201).json({
-      success: true,
-      fileId,
-      fileName,
-      fileType: fileType || null,
-      fileSize: fileSize || null,
-      message: 'Datei erfolgreich hochgeladen'
-    })
+const toNumberOrNull = (value) => (Number.isFinite(Number(value)) && value !== null && value !== '' ? Number(value) : null)
+
+/**
+ * GET /api/jobs/saved?chatId=1
+ * Alle gespeicherten Jobs des Chats, zuletzt gespeicherte zuerst
+ */
+app.get('/api/jobs/saved', async (req, res) => {
+  const { chatId } = req.query
+  try {
+    const db = await getDb(chatId)
+    const rows = await db.all(`SELECT ${JOB_COLUMNS} FROM jobs ORDER BY saved_at DESC, id DESC`)
+    return res.json({ items: rows.map(mapJobRow) })
   } catch (error) {
-    console.error('File upload error:', error)
-    return res.status(500).json({
-      success: false,
-      error: error.message
-    })
+    return res.status(500).json({ error: error.message })
   }
 })
 
 /**
- * GET /api/files
- * Ruft hochgeladene Dateien für einen Chat ab
+ * POST /api/jobs/saved
+ * Speichert Treffer aus /api/jobs/search in der Chat-Datenbank
+ * Bereits gespeicherte Jobs (gleiche Quelle + ID) werden aktualisiert
+ * Kurze Beschreibungen werden vorher von der Landingpage nachgeladen (siehe enrichJobDescriptions),
+ * wie bei der Suche für höchstens JOB_ENRICH_MAX_ITEMS Treffer, der Rest bleibt ein Ausschnitt
+ * Body: { chatId, items: JobSearchItem[] }
+ * Antwort: { saved, updated, items }
  */
-app.get('/api/files', (req, res) => {
-  const { chatId } = req.query
-  getDb(chatId).then(async (db) => {
-    const rows = await db.all(
-      'SELECT id, name, mime, size, uploaded_at FROM files ORDER BY uploaded_at DESC'
+app.post('/api/jobs/saved', async (req, res) => {
+  const { chatId, items } = req.body || {}
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: 'items must be a non-empty array' })
+  }
+  if (items.length > MAX_SAVED_JOBS_PER_REQUEST) {
+    return res.status(400).json({ error: `At most ${MAX_SAVED_JOBS_PER_REQUEST} jobs per request` })
+  }
+  const invalid = items.find(item => !item || typeof item.id !== 'string' || !item.id || !item.source || !item.title)
+  if (invalid) {
+    return res.status(400).json({ error: 'Each item needs id, source and title' })
+  }
+
+  try {
+    const db = await getDb(chatId)
+    let saved = 0
+    let updated = 0
+    const ids = []
+    const enrichedItems = await enrichJobDescriptions(items)
+
+    for (const item of enrichedItems) {
+      const existing = await db.get(
+        'SELECT id, description, description_type FROM jobs WHERE source = ? AND external_id = ?',
+        [String(item.source), item.id]
+      )
+      const isFull = item.descriptionType === 'full' || (item.description || '').length >= JOB_SNIPPET_MAX_CHARS
+      // Ein bereits gespeicherter Volltext wird nicht durch einen neuen Ausschnitt ersetzt
+      const keepStored = !isFull && existing?.description_type === 'full'
+      const values = [
+        String(item.title),
+        item.company ? String(item.company) : null,
+        item.location ? String(item.location) : null,
+        item.url ? String(item.url) : null,
+        keepStored ? existing.description : (item.description ? String(item.description) : null),
+        keepStored || isFull ? 'full' : 'snippet',
+        typeof item.remote === 'boolean' ? Number(item.remote) : null,
+        item.employmentType ? String(item.employmentType) : null,
+        toNumberOrNull(item.salaryMin),
+        toNumberOrNull(item.salaryMax),
+        item.createdAt ? String(item.createdAt) : null,
+        JSON.stringify(resolveJobPayload(item))
+      ]
+
+      if (existing) {
+        await db.run(
+          `UPDATE jobs SET title = ?, company = ?, location = ?, url = ?, description = ?, description_type = ?, remote = ?,
+             employment_type = ?, salary_min = ?, salary_max = ?, created_at = ?, raw = ?, updated_at = datetime('now')
+           WHERE id = ?`,
+          [...values, existing.id]
+        )
+        updated += 1
+        ids.push(existing.id)
+      } else {
+        const result = await db.run(
+          `INSERT INTO jobs (title, company, location, url, description, description_type, remote, employment_type,
+             salary_min, salary_max, created_at, raw, source, external_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [...values, String(item.source), item.id]
+        )
+        saved += 1
+        ids.push(result.lastID)
+      }
+    }
+
+    const rows = await db.all(
+      `SELECT ${JOB_COLUMNS} FROM jobs WHERE id IN (${ids.map(() => '?').join(', ')}) ORDER BY id DESC`,
+      ids
+    )
+    return res.status(201).json({ saved, updated, items: rows.map(mapJobRow) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * GET /api/jobs/saved/:id?chatId=1
+ * Ein gespeicherter Job inklusive raw (Originalantwort der Quelle oder die Felder des Treffers)
+ */
+app.get('/api/jobs/saved/:id', async (req, res) => {
+  const { chatId } = req.query
+  try {
+    const db = await getDb(chatId)
+    const row = await db.get(`SELECT ${JOB_COLUMNS}, raw FROM jobs WHERE id = ?`, [req.params.id])
+    if (!row) {
+      return res.status(404).json({ error: 'Job not found' })
+    }
+    let raw = null
+    try {
+      raw = row.raw ? JSON.parse(row.raw) : null
+    } catch {
+      raw = row.raw
+    }
+    return res.json({ ...mapJobRow(row), raw })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * DELETE /api/jobs/saved/:id?chatId=1
+ */
+app.delete('/api/jobs/saved/:id', async (req, res) => {
+  const { chatId } = req.query
+  try {
+    const db = await getDb(chatId)
+    const result = await db.run('DELETE FROM jobs WHERE id = ?', [req.params.id])
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Job not found' })
+    }
+    return res.json({ deleted: true, id: Number(req.params.id) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+// ===== FILE UPLOAD ENDPOINTS =====
+
+/**
+ * Extrahiert den Text einer gespeicherten Datei und cached ihn in der files-Zeile
+ */
+const extractAndCacheFileText = async (db, row) => {
+  const result = await extractFileText({
+    name: row.name,
+    mime: row.mime,
+    buffer: Buffer.from(row.content_base64, 'base64')
+  })
+
+  if (result.error) {
+    console.error(`Text extraction failed (${row.name}):`, result.error)
+  }
+
+  await db.run(
+    `UPDATE files SET text_content = ?, text_format = ?, text_status = ?, text_extracted_at = datetime('now')
+     WHERE id = ?`,
+    [result.text, result.format, result.status, row.id]
+  )
+
+  return result
+}
+
+/**
+ * Liefert den extrahierten Text einer Datei
+ * Dateien ohne Cache-Eintrag (z.B. vor der Extraktion hochgeladen) werden nachträglich extrahiert
+ */
+const getFileText = async (db, fileId) => {
+  const row = await db.get(
+    'SELECT id, name, mime, content_base64, text_content, text_format, text_status FROM files WHERE id = ?',
+    [fileId]
+  )
+  if (!row) {
+    return null
+  }
+
+  if (row.text_status) {
+    return { id: row.id, name: row.name, format: row.text_format, status: row.text_status, text: row.text_content }
+  }
+
+  const result = await extractAndCacheFileText(db, row)
+  return { id: row.id, name: row.name, format: result.format, status: result.status, text: result.text }
+}
+
+/**
+ * POST /api/upload
+ * Speichert hochgeladene Dateien für die AI
+ * Body: { fileName, fileContent (base64), chatId }
+ */
+app.post('/api/upload', async (req, res) => {
+  const { fileName, fileContent, fileType, fileSize, chatId } = req.body || {}
+  const db = await getDb(chatId)
+
+  if (!fileName || !fileContent) {
+    return res.status(400).json({
+      success: false,
+      error: 'fileName and fileContent are required'
+    })
+  }
+
+  try {
+    // Validate file size (max 10MB base64 ≈ 7.5MB binary)
+    if (fileContent.length > 10 * 1024 * 1024) {
+      return res.status(400).json({
+        success: false,
+        error: 'Datei zu groß (Max. 10MB)'
+      })
+    }
+
+    // Generate file ID
+    const fileId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    const contentHash = crypto.createHash('sha256').update(fileContent).digest('hex')
+
+    await db.run(
+      `INSERT INTO files (id, name, mime, size, content_base64, content_hash, uploaded_at)
+       VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
+      [fileId, fileName, fileType || null, fileSize || null, fileContent, contentHash]
+    )
+
+    const extraction = await extractAndCacheFileText(db, {
+      id: fileId,
+      name: fileName,
+      mime: fileType || null,
+      content_base64: fileContent
+    })
+
+    return res.status(201).json({
+      success: true,
+      fileId,
+      fileName,
+      fileType: fileType || null,
+      fileSize: fileSize || null,
+      textStatus: extraction.status,
+      message: 'Datei erfolgreich hochgeladen'
+    })
+  } catch (error) {
+    console.error('File upload error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error.message
+    })
+  }
+})
+
+/**
+ * GET /api/files
+ * Ruft hochgeladene Dateien für einen Chat ab
+ */
+app.get('/api/files', (req, res) => {
+  const { chatId } = req.query
+  getDb(chatId).then(async (db) => {
+    const rows = await db.all(
+      `SELECT id, name, mime, size, text_status, length(text_content) AS text_length, uploaded_at
+       FROM files ORDER BY uploaded_at DESC`
     )
 
     const files = rows.map((row) => ({
@@ -514,6 +1304,8 @@ app.get('/api/files', (req, res) => {
       name: row.name,
       mime: row.mime,
       size: row.size,
+      textStatus: row.text_status,
+      textLength: row.text_length,
       uploadedAt: row.uploaded_at
     }))
 
@@ -547,31 +1339,56 @@ app.get('/api/files/:id', async (req, res) => {
   })
 })
 
+/**
+ * GET /api/files/:id/text
+ * Liefert den extrahierten Klartext einer Datei (PDF, DOCX, ODT, RTF, Markdown, HTML, Text)
+ */
+app.get('/api/files/:id/text', async (req, res) => {
+  const { chatId } = req.query
+  const db = await getDb(chatId)
+
+  try {
+    const file = await getFileText(db, req.params.id)
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' })
+    }
+    return res.json(file)
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
 // ===== DATABASE FILTER ENDPOINTS =====
 
-const buildKeepClause = (includeTerms, excludeTerms) => {
+// Durchsuchte Spalten je Tabelle (pages = gecrawlte Seiten, jobs = gespeicherte Job-Treffer)
+const FILTER_COLUMNS = {
+  pages: ['content', 'coalesce(title, \'\')', 'url'],
+  jobs: ['title', 'coalesce(company, \'\')', 'coalesce(location, \'\')', 'coalesce(description, \'\')', 'coalesce(url, \'\')']
+}
+
+const buildKeepClause = (includeTerms, excludeTerms, columns = FILTER_COLUMNS.pages) => {
   const clauses = []
   const params = []
 
   if (includeTerms.length > 0) {
     const includeClause = includeTerms.map(() => (
-      '(lower(content) LIKE ? OR lower(coalesce(title, \'\')) LIKE ? OR lower(url) LIKE ?)'
+      `(${columns.map(column => `lower(${column}) LIKE ?`).join(' OR ')})`
     )).join(' AND ')
     clauses.push(includeClause)
     includeTerms.forEach((term) => {
       const pattern = `%${term.toLowerCase()}%`
-      params.push(pattern, pattern, pattern)
+      columns.forEach(() => params.push(pattern))
     })
   }
 
   if (excludeTerms.length > 0) {
     const excludeClause = excludeTerms.map(() => (
-      '(lower(content) NOT LIKE ? AND lower(coalesce(title, \'\')) NOT LIKE ? AND lower(url) NOT LIKE ?)'
+      `(${columns.map(column => `lower(${column}) NOT LIKE ?`).join(' AND ')})`
     )).join(' AND ')
     clauses.push(excludeClause)
     excludeTerms.forEach((term) => {
       const pattern = `%${term.toLowerCase()}%`
-      params.push(pattern, pattern, pattern)
+      columns.forEach(() => params.push(pattern))
     })
   }
 
@@ -596,205 +1413,1593 @@ app.post('/api/pages/filter-preview', async (req, res) => {
     params
   )
   const items = await db.all(
-    `SELECT id, url, title, content, status_code, content_hash, fetched_at, created_at, updated_at
+    `SELECT ${PAGE_COLUMNS}
      FROM pages WHERE ${deleteClause} ORDER BY id DESC LIMIT ?`,
     [...params, previewLimit]
   )
 
-  return res.json({ items, total: totalRow?.total || 0 })
-})
+  const jobFilter = buildKeepClause(includeTerms, excludeTerms, FILTER_COLUMNS.jobs)
+  const jobTotalRow = await db.get(
+    `SELECT COUNT(*) as total FROM jobs WHERE NOT (${jobFilter.clause})`,
+    jobFilter.params
+  )
+  const jobRows = await db.all(
+    `SELECT ${JOB_COLUMNS} FROM jobs WHERE NOT (${jobFilter.clause}) ORDER BY id DESC LIMIT ?`,
+    [...jobFilter.params, previewLimit]
+  )
+
+  return res.json({
+    items,
+    total: totalRow?.total || 0,
+    jobs: jobRows.map(mapJobRow),
+    jobTotal: jobTotalRow?.total || 0
+  })
+})
+
+app.post('/api/pages/filter-delete', async (req, res) => {
+  const { include, exclude, chatId } = req.body || {}
+  const db = await getDb(chatId)
+  const includeTerms = Array.isArray(include) ? include : parseKeywordList(include)
+  const excludeTerms = Array.isArray(exclude) ? exclude : parseKeywordList(exclude)
+
+  const { clause, params } = buildKeepClause(includeTerms, excludeTerms)
+  const deleteClause = `NOT (${clause})`
+
+  const rows = await db.all(
+    `SELECT id FROM pages WHERE ${deleteClause}`,
+    params
+  )
+  const ids = rows.map((row) => row.id)
+
+  await db.run(
+    `DELETE FROM pages WHERE ${deleteClause}`,
+    params
+  )
+
+  const jobFilter = buildKeepClause(includeTerms, excludeTerms, FILTER_COLUMNS.jobs)
+  const jobRows = await db.all(`SELECT id FROM jobs WHERE NOT (${jobFilter.clause})`, jobFilter.params)
+  const jobIds = jobRows.map((row) => row.id)
+  await db.run(`DELETE FROM jobs WHERE NOT (${jobFilter.clause})`, jobFilter.params)
+
+  return res.json({
+    deletedCount: ids.length,
+    deletedIds: ids,
+    deletedJobCount: jobIds.length,
+    deletedJobIds: jobIds
+  })
+})
+
+app.get('/api/pages/all', async (req, res) => {
+  const { chatId } = req.query
+  const db = await getDb(chatId)
+  const rows = await db.all(
+    `SELECT ${PAGE_COLUMNS} FROM pages ORDER BY id DESC`
+  )
+
+  return res.json({ items: rows })
+})
+
+// ===== CONVERSATION ENDPOINTS =====
+
+const defaultConversationTitle = (id) => `Neue Konversation ${id}`
+
+const mapConversationRow = (id, row) => ({
+  id,
+  title: row?.title ?? defaultConversationTitle(id),
+  createdAt: row?.created_at ?? null,
+  updatedAt: row?.updated_at ?? null
+})
+
+const parseJsonColumn = (value, fallback) => {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
+  }
+}
+
+const MESSAGE_COLUMNS = `id, sender, text, sources, provider, model, prompt_tokens, completion_tokens,
+  total_tokens, finish_reason, generated_at, created_at`
+
+/**
+ * Wandelt eine messages-Zeile in eine ChatMessage
+ * KI-Metadaten (Provider, Modell, Tokens, finishReason) nur, wenn vorhanden
+ */
+const mapMessageRow = (row) => ({
+  id: row.id,
+  text: row.text,
+  sender: row.sender,
+  sources: parseJsonColumn(row.sources, undefined),
+  aiProvider: row.provider || undefined,
+  aiModel: row.model || undefined,
+  tokens: row.total_tokens === null || row.total_tokens === undefined
+    ? undefined
+    : { prompt: row.prompt_tokens, completion: row.completion_tokens, total: row.total_tokens },
+  finishReason: row.finish_reason || undefined,
+  generatedAt: row.generated_at || undefined,
+  createdAt: row.created_at
+})
+
+const toTokenCount = (value) => (Number.isFinite(Number(value)) && value !== null ? Number(value) : null)
+
+/**
+ * GET /api/conversations
+ * Listet alle Konversationen (eine SQLite-Datei pro Chat)
+ */
+app.get('/api/conversations', async (req, res) => {
+  try {
+    const chatIds = await listChatIds()
+    const conversations = []
+
+    for (const chatId of chatIds) {
+      const db = await getDb(chatId)
+      const row = await db.get(
+        'SELECT title, created_at, updated_at FROM conversations WHERE id = ?',
+        [chatId]
+      )
+      conversations.push(mapConversationRow(chatId, row))
+    }
+
+    return res.json({ conversations })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations
+ * Legt eine neue Konversation samt eigener Datenbank an
+ * Body: { title }
+ */
+app.post('/api/conversations', async (req, res) => {
+  const { title } = req.body || {}
+
+  try {
+    const chatIds = await listChatIds()
+    const nextId = chatIds.length > 0 ? Math.max(...chatIds) + 1 : 1
+    const db = await getDb(nextId)
+    const nextTitle = (title || '').toString().trim() || defaultConversationTitle(nextId)
+
+    await db.run(
+      'INSERT INTO conversations (id, title) VALUES (?, ?)',
+      [nextId, nextTitle]
+    )
+    const row = await db.get(
+      'SELECT title, created_at, updated_at FROM conversations WHERE id = ?',
+      [nextId]
+    )
+
+    return res.status(201).json(mapConversationRow(nextId, row))
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * Middleware für /api/conversations/:id und alle Unterrouten
+ * 400 bei ungültiger, 404 bei unbekannter ID; danach steht res.locals.conversationId bereit
+ */
+const requireConversation = async (req, res, next) => {
+  const id = parseConversationId(req.params.id)
+  if (!id) {
+    return res.status(400).json({ error: 'Invalid id' })
+  }
+  try {
+    if (!await conversationExists(id)) {
+      return res.status(404).json({ error: 'Conversation not found' })
+    }
+    res.locals.conversationId = id
+    return next()
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+}
+
+app.use('/api/conversations/:id', requireConversation)
+
+/**
+ * PATCH /api/conversations/:id
+ * Benennt eine Konversation um
+ * Body: { title }
+ */
+app.patch('/api/conversations/:id', async (req, res) => {
+  const id = res.locals.conversationId
+  const title = (req.body?.title || '').toString().trim()
+
+  if (!title) {
+    return res.status(400).json({ error: 'title is required' })
+  }
+
+  try {
+    const db = await getDb(id)
+    await db.run(
+      `INSERT INTO conversations (id, title) VALUES (?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         title = excluded.title,
+         updated_at = datetime('now')`,
+      [id, title]
+    )
+    const row = await db.get(
+      'SELECT title, created_at, updated_at FROM conversations WHERE id = ?',
+      [id]
+    )
+
+    return res.json(mapConversationRow(id, row))
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * DELETE /api/conversations/:id
+ * Löscht die Konversation inklusive ihrer Chat-Datenbank
+ */
+app.delete('/api/conversations/:id', async (req, res) => {
+  const id = res.locals.conversationId
+
+  try {
+    // Laufende Crawl-Jobs des Chats anhalten, bevor die Datenbank verschwindet
+    for (const [key, control] of activeCrawlJobs) {
+      if (key.startsWith(`${id}:`)) {
+        control.stop = 'cancelled'
+      }
+    }
+    recoveredCrawlJobChats.delete(id)
+    await deleteDb(id)
+    return res.json({ deleted: true, id })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * GET /api/conversations/:id/messages
+ * Lädt den gespeicherten Nachrichtenverlauf einer Konversation
+ */
+app.get('/api/conversations/:id/messages', async (req, res) => {
+  const id = res.locals.conversationId
+
+  try {
+    const db = await getDb(id)
+    const rows = await db.all(
+      `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE conversation_id = ? ORDER BY id ASC`,
+      [id]
+    )
+
+    return res.json({ messages: rows.map(mapMessageRow) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/messages
+ * Hängt eine Nachricht an den Verlauf an
+ * Body: { sender: 'user' | 'ai', text, sources?, aiProvider?, aiModel?, tokens?, finishReason?, generatedAt? }
+ */
+app.post('/api/conversations/:id/messages', async (req, res) => {
+  const id = res.locals.conversationId
+  const { sender, text, sources, aiProvider, aiModel, tokens, finishReason, generatedAt } = req.body || {}
+
+  if (sender !== 'user' && sender !== 'ai') {
+    return res.status(400).json({ error: "sender must be 'user' or 'ai'" })
+  }
+  if (typeof text !== 'string' || text.length === 0) {
+    return res.status(400).json({ error: 'text is required' })
+  }
+
+  try {
+    const db = await getDb(id)
+    const result = await db.run(
+      `INSERT INTO messages (
+        conversation_id, sender, text, sources, provider, model,
+        prompt_tokens, completion_tokens, total_tokens, finish_reason, generated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        sender,
+        text,
+        Array.isArray(sources) && sources.length > 0 ? JSON.stringify(sources) : null,
+        aiProvider || null,
+        aiModel || null,
+        toTokenCount(tokens?.prompt),
+        toTokenCount(tokens?.completion),
+        toTokenCount(tokens?.total),
+        finishReason || null,
+        generatedAt || null
+      ]
+    )
+    await db.run(
+      "UPDATE conversations SET updated_at = datetime('now') WHERE id = ?",
+      [id]
+    )
+    const row = await db.get(
+      `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ?`,
+      [result.lastID]
+    )
+
+    return res.status(201).json(mapMessageRow(row))
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+// ===== SAVED SEARCH ENDPOINTS =====
+
+/**
+ * Sucht für eine gespeicherte Suche ohne Job-Cache (immer frische Ergebnisse)
+ */
+const searchForSavedSearch = async (query, { enabled, filters, feeds, companies }) => rememberJobPayloads(
+  await searchJobSources(query, 50, {
+    enabled,
+    filters,
+    feeds,
+    companies,
+    timeoutMs: JOB_SEARCH_TIMEOUT_MS,
+    maxItems: JOB_SEARCH_MAX_ITEMS,
+    snippetMaxChars: JOB_SNIPPET_MAX_CHARS,
+    fetchImpl: urlPolicy.guardedFetch
+  })
+)
+
+/**
+ * Führt eine gespeicherte Suche aus, außer sie läuft gerade schon
+ * @returns Ergebnis von runSavedSearch() oder null, wenn bereits aktiv
+ */
+const executeSavedSearch = async (chatId, db, savedSearch) => {
+  const runKey = `${chatId}:${savedSearch.id}`
+  if (runningSavedSearches.has(runKey)) {
+    return null
+  }
+  runningSavedSearches.add(runKey)
+  try {
+    const feeds = await listFeeds(db)
+    const companies = await listWatchedCompanies(db)
+    return await runSavedSearch(db, savedSearch, (query, options) => (
+      searchForSavedSearch(query, { ...options, feeds, companies })
+    ))
+  } finally {
+    runningSavedSearches.delete(runKey)
+  }
+}
+
+/**
+ * Lädt Chat-DB und gespeicherte Suche aus :searchId (den Chat prüft requireConversation)
+ * Antwortet selbst mit 400/404 und liefert dann null
+ */
+const loadSavedSearchFromRequest = async (req, res) => {
+  const chatId = res.locals.conversationId
+  const searchId = parseConversationId(req.params.searchId)
+  if (!searchId) {
+    res.status(400).json({ error: 'Invalid id' })
+    return null
+  }
+  const db = await getDb(chatId)
+  const savedSearch = await getSavedSearch(db, searchId)
+  if (!savedSearch) {
+    res.status(404).json({ error: 'Saved search not found' })
+    return null
+  }
+  return { chatId, db, savedSearch }
+}
+
+/**
+ * GET /api/conversations/:id/saved-searches
+ * Gespeicherte Suchen eines Chats mit Anzahl neuer und aller Treffer
+ */
+app.get('/api/conversations/:id/saved-searches', async (req, res) => {
+  try {
+    const db = await getDb(res.locals.conversationId)
+    return res.json({ savedSearches: await listSavedSearches(db) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/saved-searches
+ * Body: { name?, queries, filters?, sources?, intervalMinutes? }
+ * Der erste Lauf übernimmt der Scheduler beim nächsten Tick (oder POST .../run)
+ */
+app.post('/api/conversations/:id/saved-searches', async (req, res) => {
+  const { value, error } = validateSavedSearch(req.body || {}, { defaultIntervalMinutes: SAVED_SEARCH_INTERVAL_MINUTES })
+  if (error) {
+    return res.status(400).json({ error })
+  }
+
+  try {
+    const db = await getDb(res.locals.conversationId)
+    return res.status(201).json(await createSavedSearch(db, value))
+  } catch (err) {
+    return res.status(500).json({ error: err.message })
+  }
+})
+
+/**
+ * PATCH /api/conversations/:id/saved-searches/:searchId
+ * Body: beliebige Felder aus POST plus enabled
+ */
+app.patch('/api/conversations/:id/saved-searches/:searchId', async (req, res) => {
+  try {
+    const loaded = await loadSavedSearchFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const { value, error } = validateSavedSearch(req.body || {}, { partial: true })
+    if (error) {
+      return res.status(400).json({ error })
+    }
+    return res.json(await updateSavedSearch(loaded.db, loaded.savedSearch.id, value))
+  } catch (err) {
+    return res.status(500).json({ error: err.message })
+  }
+})
+
+/**
+ * DELETE /api/conversations/:id/saved-searches/:searchId
+ * Löscht die Suche samt gemerkter Treffer
+ */
+app.delete('/api/conversations/:id/saved-searches/:searchId', async (req, res) => {
+  try {
+    const loaded = await loadSavedSearchFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    await deleteSavedSearch(loaded.db, loaded.savedSearch.id)
+    return res.json({ deleted: true, id: loaded.savedSearch.id })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/saved-searches/:searchId/run
+ * Führt die Suche sofort aus
+ * Antwort: { savedSearch, newItems }, 409 wenn sie gerade schon läuft
+ */
+app.post('/api/conversations/:id/saved-searches/:searchId/run', async (req, res) => {
+  try {
+    const loaded = await loadSavedSearchFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const result = await executeSavedSearch(loaded.chatId, loaded.db, loaded.savedSearch)
+    if (!result) {
+      return res.status(409).json({ error: 'Saved search is already running' })
+    }
+    return res.json(result)
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * GET /api/conversations/:id/saved-searches/:searchId/results?onlyNew=true
+ * Gemerkte Treffer, neueste zuerst, mit isNew und firstSeenAt
+ */
+app.get('/api/conversations/:id/saved-searches/:searchId/results', async (req, res) => {
+  try {
+    const loaded = await loadSavedSearchFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const items = await listSavedSearchResults(loaded.db, loaded.savedSearch.id, {
+      onlyNew: req.query.onlyNew === 'true'
+    })
+    return res.json({ items })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/saved-searches/:searchId/seen
+ * Setzt das "neu"-Badge zurück
+ */
+app.post('/api/conversations/:id/saved-searches/:searchId/seen', async (req, res) => {
+  try {
+    const loaded = await loadSavedSearchFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const updated = await markSavedSearchSeen(loaded.db, loaded.savedSearch.id)
+    return res.json({ updated })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * Scheduler: prüft jede SAVED_SEARCH_TICK_MS alle Chats auf fällige Suchen
+ * und führt sie nacheinander aus. SAVED_SEARCH_TICK_MS=0 schaltet ihn ab.
+ */
+let savedSearchTickBusy = false
+
+const runDueSavedSearches = async () => {
+  if (savedSearchTickBusy) {
+    return
+  }
+  savedSearchTickBusy = true
+  try {
+    for (const chatId of await listChatIds()) {
+      const db = await getDb(chatId)
+      for (const savedSearch of await listDueSavedSearches(db)) {
+        try {
+          // Neue Treffer landen in saved_search_results und erscheinen als newCount
+          await executeSavedSearch(chatId, db, savedSearch)
+        } catch (error) {
+          console.error(`Saved search "${savedSearch.name}" (chat ${chatId}) failed:`, error.message)
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Saved search scheduler failed:', error.message)
+  } finally {
+    savedSearchTickBusy = false
+  }
+}
+
+if (SAVED_SEARCH_TICK_MS > 0) {
+  // unref: der Timer soll den Prozess (z.B. vite build) nicht am Beenden hindern
+  setInterval(runDueSavedSearches, SAVED_SEARCH_TICK_MS).unref()
+}
+
+// ===== JOB FEED ENDPOINTS =====
+
+/**
+ * GET /api/conversations/:id/feeds
+ * Registrierte RSS/Atom/JSON-Feeds des Chats
+ */
+app.get('/api/conversations/:id/feeds', async (req, res) => {
+  try {
+    return res.json({ feeds: await listFeeds(await getDb(res.locals.conversationId)) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/feeds
+ * Registriert einen Feed; die URL wird einmal abgerufen und muss RSS, Atom oder JSON Feed liefern
+ * Body: { url, title? } (ohne title wird der Titel des Feeds übernommen)
+ * Antwort: { feed, itemCount }
+ */
+app.post('/api/conversations/:id/feeds', async (req, res) => {
+  const url = String(req.body?.url || '').trim()
+  if (!/^https?:\/\//i.test(url)) {
+    return res.status(400).json({ error: 'url must be an http(s) URL' })
+  }
+
+  try {
+    const db = await getDb(res.locals.conversationId)
+    const feeds = await listFeeds(db)
+    if (feeds.length >= MAX_FEEDS_PER_CHAT && !feeds.some(feed => feed.url === url)) {
+      return res.status(400).json({ error: `At most ${MAX_FEEDS_PER_CHAT} feeds per chat` })
+    }
+
+    let parsed = null
+    try {
+      const response = await urlPolicy.guardedFetch(url, { signal: AbortSignal.timeout(JOB_SEARCH_TIMEOUT_MS) })
+      if (!response.ok) {
+        return res.status(400).json({ error: `Feed request failed (${response.status})` })
+      }
+      parsed = parseFeed(await response.text())
+    } catch (error) {
+      return res.status(400).json({ error: error.cause?.code ? `${error.message} (${error.cause.code})` : error.message })
+    }
+
+    const feed = await addFeed(db, {
+      url,
+      title: String(req.body?.title || '').trim() || parsed.title,
+      format: parsed.format
+    })
+    return res.status(201).json({ feed, itemCount: parsed.items.length })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * DELETE /api/conversations/:id/feeds/:feedId
+ */
+app.delete('/api/conversations/:id/feeds/:feedId', async (req, res) => {
+  const feedId = parseConversationId(req.params.feedId)
+  if (!feedId) {
+    return res.status(400).json({ error: 'Invalid id' })
+  }
+
+  try {
+    const deleted = await deleteFeed(await getDb(res.locals.conversationId), feedId)
+    if (!deleted) {
+      return res.status(404).json({ error: 'Feed not found' })
+    }
+    return res.json({ deleted: true, id: feedId })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+// ===== COMPANY WATCHLIST ENDPOINTS =====
+
+/**
+ * GET /api/conversations/:id/companies
+ * Beobachtete Firmen des Chats (ATS-Typ + Board-Slug)
+ */
+app.get('/api/conversations/:id/companies', async (req, res) => {
+  try {
+    return res.json({ companies: await listWatchedCompanies(await getDb(res.locals.conversationId)) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/companies
+ * Nimmt eine Firma in die Watchlist auf; das Job-Board wird einmal abgerufen, um ATS und Slug zu prüfen
+ * Body: { name?, ats: 'greenhouse' | 'lever' | 'workable' | 'personio', slug }
+ * Antwort: { company, jobCount }
+ */
+app.post('/api/conversations/:id/companies', async (req, res) => {
+  const { value, error } = validateWatchedCompany(req.body || {})
+  if (error) {
+    return res.status(400).json({ error })
+  }
+
+  try {
+    const db = await getDb(res.locals.conversationId)
+    const companies = await listWatchedCompanies(db)
+    const exists = companies.some(company => company.ats === value.ats && company.slug === value.slug)
+    if (companies.length >= MAX_WATCHED_COMPANIES && !exists) {
+      return res.status(400).json({ error: `At most ${MAX_WATCHED_COMPANIES} companies per chat` })
+    }
+
+    let jobs = null
+    try {
+      jobs = await fetchCompanyJobs(value, { timeoutMs: JOB_SEARCH_TIMEOUT_MS, fetchImpl: urlPolicy.guardedFetch })
+    } catch (fetchError) {
+      const reason = fetchError.cause?.code ? `${fetchError.message} (${fetchError.cause.code})` : fetchError.message
+      return res.status(400).json({ error: `Job board not reachable: ${reason}` })
+    }
+
+    const company = await addWatchedCompany(db, value)
+    return res.status(201).json({ company, jobCount: jobs.length })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * DELETE /api/conversations/:id/companies/:companyId
+ */
+app.delete('/api/conversations/:id/companies/:companyId', async (req, res) => {
+  const companyId = parseConversationId(req.params.companyId)
+  if (!companyId) {
+    return res.status(400).json({ error: 'Invalid id' })
+  }
+
+  try {
+    const deleted = await deleteWatchedCompany(await getDb(res.locals.conversationId), companyId)
+    if (!deleted) {
+      return res.status(404).json({ error: 'Company not found' })
+    }
+    return res.json({ deleted: true, id: companyId })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+// ===== CRAWL JOB ENDPOINTS =====
+
+const getCrawlJobKey = (chatId, jobId) => `${chatId}:${jobId}`
+
+/**
+ * Chat-Datenbank für Crawl-Jobs; beim ersten Zugriff nach dem Start werden
+ * unterbrochene Jobs pausiert (siehe recoverCrawlJobs)
+ */
+const getCrawlJobDb = async (chatId) => {
+  const db = await getDb(chatId)
+  if (!recoveredCrawlJobChats.has(chatId)) {
+    recoveredCrawlJobChats.add(chatId)
+    await recoverCrawlJobs(db)
+  }
+  return db
+}
+
+/**
+ * Sendet den aktuellen Stand (Zähler + geänderte URL) an alle SSE-Verbindungen des Jobs
+ */
+const publishCrawlJob = async (chatId, db, jobId, item = null) => {
+  const listeners = crawlJobListeners.get(getCrawlJobKey(chatId, jobId))
+  if (!listeners || listeners.size === 0) {
+    return
+  }
+  const job = await getCrawlJob(db, jobId)
+  listeners.forEach(res => writeSseEvent(res, { type: 'progress', job, item }))
+}
+
+/**
+ * Arbeitet alle offenen URLs eines Jobs ab (FETCH_CONCURRENCY gleichzeitig)
+ * Pause und Abbruch setzen control.stop; URLs, die noch auf ihren Host warten,
+ * gehen zurück auf pending bzw. cancelled, laufende Abrufe werden noch fertig.
+ * Wird ein pausierter Job fortgesetzt, bevor der Lauf endet, liest die
+ * Schleife die übrigen offenen URLs erneut.
+ */
+const runCrawlJob = async (chatId, db, jobId) => {
+  const key = getCrawlJobKey(chatId, jobId)
+  const control = { stop: null }
+  activeCrawlJobs.set(key, control)
+
+  try {
+    let pending = await listCrawlJobUrls(db, jobId, { onlyPending: true })
+    while (!control.stop && pending.length > 0) {
+      await runWithConcurrency(pending, FETCH_CONCURRENCY, async (entry) => {
+        if (control.stop) {
+          return
+        }
+        const running = await updateCrawlJobUrl(db, jobId, entry.position, { status: 'running' })
+        await publishCrawlJob(chatId, db, jobId, running)
+
+        const result = await crawlUrl(db, entry.url, () => Boolean(control.stop))
+        const stoppedStatus = control.stop === 'cancelled' ? 'cancelled' : 'pending'
+        const item = await updateCrawlJobUrl(db, jobId, entry.position, {
+          status: result.status === 'stopped' ? stoppedStatus : result.status,
+          reason: result.reason,
+          detail: result.detail,
+          pageId: result.id,
+          statusCode: result.statusCode
+        })
+        await publishCrawlJob(chatId, db, jobId, item)
+      })
+      pending = control.stop ? [] : await listCrawlJobUrls(db, jobId, { onlyPending: true })
+    }
+    activeCrawlJobs.delete(key)
+    await completeCrawlJob(db, jobId)
+  } catch (error) {
+    activeCrawlJobs.delete(key)
+    console.error(`Crawl job ${jobId} (chat ${chatId}) failed:`, error.message)
+    await setCrawlJobStatus(db, jobId, 'paused', ['running']).catch(() => false)
+  }
+  await publishCrawlJob(chatId, db, jobId).catch(() => undefined)
+}
+
+// Startet den Lauf bzw. setzt einen noch nicht beendeten Lauf fort
+const startCrawlJob = (chatId, db, jobId) => {
+  const control = activeCrawlJobs.get(getCrawlJobKey(chatId, jobId))
+  if (control) {
+    control.stop = null
+    return
+  }
+  runCrawlJob(chatId, db, jobId)
+}
+
+// Den Chat aus :id prüft requireConversation, hier nur noch :jobId
+const loadCrawlJobFromRequest = async (req, res) => {
+  const chatId = res.locals.conversationId
+  const jobId = parseConversationId(req.params.jobId)
+  if (!jobId) {
+    res.status(400).json({ error: 'Invalid id' })
+    return null
+  }
+  const db = await getCrawlJobDb(chatId)
+  const job = await getCrawlJob(db, jobId)
+  if (!job) {
+    res.status(404).json({ error: 'Crawl job not found' })
+    return null
+  }
+  return { chatId, db, job }
+}
+
+/**
+ * GET /api/conversations/:id/crawl-jobs
+ * Crawl-Jobs des Chats (neueste zuerst) mit Zählern pro URL-Status
+ */
+app.get('/api/conversations/:id/crawl-jobs', async (req, res) => {
+  try {
+    return res.json({ items: await listCrawlJobs(await getCrawlJobDb(res.locals.conversationId)) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/crawl-jobs
+ * Legt einen Job für bis zu MAX_URLS URLs an und startet ihn sofort
+ */
+app.post('/api/conversations/:id/crawl-jobs', async (req, res) => {
+  const id = res.locals.conversationId
+  const { urls } = req.body || {}
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return res.status(400).json({ error: 'urls must be a non-empty array' })
+  }
+  if (urls.length > MAX_URLS) {
+    return res.status(400).json({ error: `urls must not exceed ${MAX_URLS}` })
+  }
+
+  try {
+    const db = await getCrawlJobDb(id)
+    const job = await createCrawlJob(db, urls)
+    startCrawlJob(id, db, job.id)
+    return res.status(201).json({ job, items: await listCrawlJobUrls(db, job.id) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * GET /api/conversations/:id/crawl-jobs/:jobId
+ * Job mit Status und Ergebnis jeder URL
+ */
+app.get('/api/conversations/:id/crawl-jobs/:jobId', async (req, res) => {
+  try {
+    const loaded = await loadCrawlJobFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    return res.json({ job: loaded.job, items: await listCrawlJobUrls(loaded.db, loaded.job.id) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * GET /api/conversations/:id/crawl-jobs/:jobId/events
+ * Server-Sent Events: { type: 'progress', job, item } nach jeder URL
+ * (item = geänderte URL, beim Verbinden null)
+ */
+app.get('/api/conversations/:id/crawl-jobs/:jobId/events', async (req, res) => {
+  let loaded = null
+  try {
+    loaded = await loadCrawlJobFromRequest(req, res)
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+  if (!loaded) {
+    return undefined
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  })
+
+  const key = getCrawlJobKey(loaded.chatId, loaded.job.id)
+  if (!crawlJobListeners.has(key)) {
+    crawlJobListeners.set(key, new Set())
+  }
+  crawlJobListeners.get(key).add(res)
+  res.on('close', () => {
+    const listeners = crawlJobListeners.get(key)
+    listeners?.delete(res)
+    if (listeners?.size === 0) {
+      crawlJobListeners.delete(key)
+    }
+  })
+
+  writeSseEvent(res, { type: 'progress', job: loaded.job, item: null })
+  return undefined
+})
+
+/**
+ * POST /api/conversations/:id/crawl-jobs/:jobId/pause
+ * Startet keine weiteren URLs; laufende Abrufe werden noch gespeichert
+ */
+app.post('/api/conversations/:id/crawl-jobs/:jobId/pause', async (req, res) => {
+  try {
+    const loaded = await loadCrawlJobFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const { chatId, db, job } = loaded
+    if (!await setCrawlJobStatus(db, job.id, 'paused', ['running'])) {
+      return res.status(409).json({ error: `Crawl job is ${job.status}` })
+    }
+    const control = activeCrawlJobs.get(getCrawlJobKey(chatId, job.id))
+    if (control) {
+      control.stop = 'paused'
+    }
+    await publishCrawlJob(chatId, db, job.id)
+    return res.json({ job: await getCrawlJob(db, job.id) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/crawl-jobs/:jobId/resume
+ */
+app.post('/api/conversations/:id/crawl-jobs/:jobId/resume', async (req, res) => {
+  try {
+    const loaded = await loadCrawlJobFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const { chatId, db, job } = loaded
+    if (!await setCrawlJobStatus(db, job.id, 'running', ['paused'])) {
+      return res.status(409).json({ error: `Crawl job is ${job.status}` })
+    }
+    startCrawlJob(chatId, db, job.id)
+    await publishCrawlJob(chatId, db, job.id)
+    return res.json({ job: await getCrawlJob(db, job.id) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/crawl-jobs/:jobId/cancel
+ * Offene URLs werden als cancelled markiert und nicht mehr geladen
+ */
+app.post('/api/conversations/:id/crawl-jobs/:jobId/cancel', async (req, res) => {
+  try {
+    const loaded = await loadCrawlJobFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const { chatId, db, job } = loaded
+    if (!await setCrawlJobStatus(db, job.id, 'cancelled', ['running', 'paused'])) {
+      return res.status(409).json({ error: `Crawl job is ${job.status}` })
+    }
+    const control = activeCrawlJobs.get(getCrawlJobKey(chatId, job.id))
+    if (control) {
+      control.stop = 'cancelled'
+    }
+    await cancelPendingCrawlJobUrls(db, job.id)
+    await publishCrawlJob(chatId, db, job.id)
+    return res.json({ job: await getCrawlJob(db, job.id) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * POST /api/conversations/:id/crawl-jobs/:jobId/retry-failed
+ * Setzt nur fehlgeschlagene URLs zurück und startet den Job erneut
+ */
+app.post('/api/conversations/:id/crawl-jobs/:jobId/retry-failed', async (req, res) => {
+  try {
+    const loaded = await loadCrawlJobFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const { chatId, db, job } = loaded
+    if (job.status === 'running') {
+      return res.status(409).json({ error: 'Crawl job is running' })
+    }
+    const retried = await resetCrawlJobUrls(db, job.id, ['failed'])
+    if (retried > 0) {
+      await setCrawlJobStatus(db, job.id, 'running', ['paused', 'completed', 'cancelled'])
+      startCrawlJob(chatId, db, job.id)
+    }
+    return res.json({ job: await getCrawlJob(db, job.id), items: await listCrawlJobUrls(db, job.id), retried })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * DELETE /api/conversations/:id/crawl-jobs/:jobId
+ * Löscht den Job (nicht die gespeicherten Seiten); laufende Jobs vorher abbrechen
+ */
+app.delete('/api/conversations/:id/crawl-jobs/:jobId', async (req, res) => {
+  try {
+    const loaded = await loadCrawlJobFromRequest(req, res)
+    if (!loaded) {
+      return undefined
+    }
+    const { chatId, db, job } = loaded
+    if (activeCrawlJobs.has(getCrawlJobKey(chatId, job.id))) {
+      return res.status(409).json({ error: 'Crawl job is still running' })
+    }
+    await deleteCrawlJob(db, job.id)
+    return res.json({ deleted: true, id: job.id })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
+
+// ===== DOCUMENTATION ENDPOINTS =====
+
+app.get('/docs/:filename', (req, res) => {
+  const filename = req.params.filename
+  const allowedFiles = ['AI_SERVICES.md', 'README.md', 'PROJECT_DOCUMENTATION.md']
+  
+  if (!allowedFiles.includes(filename)) {
+    return res.status(404).json({ error: 'Documentation file not found' })
+  }
+
+  // Import fs dynamically for file reading
+  import('fs/promises').then(fs => {
+    fs.readFile(`./docs/${filename}`, 'utf8')
+      .then(content => {
+        res.type('text/markdown')
+        res.send(content)
+      })
+      .catch(() => {
+        res.status(404).json({ error: `File ${filename} not found` })
+      })
+  })
+})
+
+// Export the app for use in both standalone and middleware mode
+export default app
+
+// If running standalone, start the server
+if (import.meta.url === `file://${process.argv[1]}`) {
+  app.listen(port, () => {
+    console.log(`API server running on http://localhost:${port}`)
+  })
+}
+
+// ===== AI SERVICE ENDPOINTS =====
+
+const AI_SERVICES = [
+  {
+    provider: 'openai',
+    name: 'OpenAI',
+    fallbackModels: ['gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'],
+    requiresKey: true,
+    description: 'Professional AI models from OpenAI'
+  },
+  {
+    provider: 'claude',
+    name: 'Anthropic Claude',
+    fallbackModels: ['claude-3-opus-20240229', 'claude-3-sonnet-20240229'],
+    requiresKey: true,
+    description: 'Advanced AI models from Anthropic'
+  },
+  {
+    provider: 'gemini',
+    name: 'Google Gemini',
+    fallbackModels: ['gemini-pro'],
+    requiresKey: true,
+    description: 'Multimodal AI models from Google'
+  },
+  {
+    provider: 'ollama',
+    name: 'Ollama (Local)',
+    fallbackModels: ['llama2', 'mistral', 'neural-chat'],
+    requiresKey: false,
+    description: 'Local open-source models via Ollama'
+  },
+  {
+    provider: 'openai-compatible',
+    name: 'OpenAI-compatible (LM Studio, vLLM, llama.cpp)',
+    fallbackModels: [],
+    requiresKey: false,
+    acceptsKey: true,
+    requiresUrl: true,
+    description: 'Any server implementing the OpenAI Chat Completions API'
+  },
+  {
+    provider: 'local',
+    name: 'Local Echo',
+    fallbackModels: ['echo'],
+    requiresKey: false,
+    description: 'Simple local echo service for testing'
+  }
+]
+
+const findService = (provider) => AI_SERVICES.find(service => service.provider === provider)
+const requiresApiKey = (provider) => Boolean(findService(provider)?.requiresKey)
+const requiresApiUrl = (provider) => Boolean(findService(provider)?.requiresUrl)
+
+const toFallbackModels = (service) => service.fallbackModels.map(modelId => ({
+  provider: service.provider,
+  modelId,
+  name: modelId
+}))
+
+/**
+ * Fragt die Modelle eines Services live ab, mit Cache pro Provider/URL/Zugang
+ * Ohne Zugangsdaten, ohne URL oder bei Fehlern gibt es die statische Liste
+ * Gespeicherte Zugangsdaten gehen nur an ihre eigene URL, nie an apiUrl aus dem Request
+ *
+ * @param service - Eintrag aus AI_SERVICES
+ * @param options - { credential, apiUrl, refresh }
+ * @returns { models, modelSource: 'live' | 'fallback', modelError? }
+ */
+const discoverModels = async (service, { credential, apiUrl, refresh }) => {
+  const config = {
+    provider: service.provider,
+    apiKey: credential?.apiKey,
+    apiUrl: credential ? credential.apiUrl : apiUrl
+  }
+
+  if (requiresApiKey(service.provider) && !config.apiKey) {
+    return { models: toFallbackModels(service), modelSource: 'fallback' }
+  }
+  if (requiresApiUrl(service.provider) && !config.apiUrl) {
+    return { models: toFallbackModels(service), modelSource: 'fallback' }
+  }
+
+  const cacheKey = `${service.provider}:${config.apiUrl || ''}:${credential?.id || ''}`
+  const cached = modelCache.get(cacheKey)
+  if (!refresh && cached && Date.now() - cached.timestamp < MODEL_CACHE_TTL_MS) {
+    return { models: cached.models, modelSource: 'live' }
+  }
+
+  try {
+    const models = await listProviderModels(config, AbortSignal.timeout(MODEL_DISCOVERY_TIMEOUT_MS))
+    modelCache.set(cacheKey, { timestamp: Date.now(), models })
+    return { models, modelSource: 'live' }
+  } catch (error) {
+    return {
+      models: toFallbackModels(service),
+      modelSource: 'fallback',
+      modelError: error.name === 'TimeoutError' ? 'Model listing timed out' : error.message
+    }
+  }
+}
+
+/**
+ * Wählt die Zugangsdaten für die Modellabfrage eines Providers:
+ * die angefragte serviceId, sonst die erste gespeicherte für den Provider
+ * Gibt der Aufrufer eine eigene apiUrl an, wird ohne serviceId kein Key gewählt
+ */
+const pickCredentialForDiscovery = async (appDb, credentials, provider, serviceId, hasApiUrl) => {
+  const candidates = credentials.filter(credential => credential.provider === provider)
+  const chosen = candidates.find(credential => credential.id === serviceId) || (hasApiUrl ? null : candidates[0])
+  if (!chosen) {
+    return null
+  }
+  try {
+    return await resolveCredential(appDb, chosen.id)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Retrieval-Schritt vor einem Chat-Turn
+ * Sucht zur letzten User-Frage passende Seiten aus der Chat-Datenbank
+ * und hängt gekürzte Ausschnitte an den System-Prompt an
+ */
+const applyRetrieval = async (chatId, messages, enabled) => {
+  if (!enabled || chatId === undefined || chatId === null) {
+    return { messages, sources: [] }
+  }
+
+  const question = [...messages].reverse().find(m => m.role === 'user')?.content || ''
+  const db = await getDb(chatId)
+  const sources = await retrievePages(db, question, {
+    maxPages: RETRIEVAL_MAX_PAGES,
+    tokenBudget: RETRIEVAL_TOKEN_BUDGET
+  })
+
+  return {
+    messages: injectSystemContext(messages, buildRetrievalContext(sources)),
+    sources: sources.map(({ index, id, url, title }) => ({ index, id, url, title }))
+  }
+}
+
+/**
+ * Hängt den extrahierten Text der angegebenen Dateien an den System-Prompt an
+ */
+const applyFileContext = async (chatId, messages, fileIds) => {
+  if (!Array.isArray(fileIds) || fileIds.length === 0 || chatId === undefined || chatId === null) {
+    return messages
+  }
+
+  const db = await getDb(chatId)
+  const files = []
+  for (const fileId of fileIds) {
+    const file = await getFileText(db, fileId)
+    if (file) {
+      files.push(file)
+    }
+  }
+
+  return injectSystemContext(messages, buildFileContext(files, FILE_CONTEXT_MAX_CHARS))
+}
+
+/**
+ * Baut die Prompt-Nachrichten inklusive Datei- und Retrieval-Kontext
+ */
+const preparePromptMessages = async ({ chatId, messages, retrieval, fileIds }) => {
+  const withFiles = await applyFileContext(chatId, messages, fileIds)
+  return applyRetrieval(chatId, withFiles, retrieval)
+}
 
-app.post('/api/pages/filter-delete', async (req, res) => {
-  const { include, exclude, chatId } = req.body || {}
-  const db = await getDb(chatId)
-  const includeTerms = Array.isArray(include) ? include : parseKeywordList(include)
-  const excludeTerms = Array.isArray(exclude) ? exclude : parseKeywordList(exclude)
+/**
+ * Prüft die Pflichtfelder eines Chat-Requests
+ * Gibt eine Fehlermeldung zurück oder null, wenn alles passt
+ */
+const validateChatBody = ({ provider, serviceId, model, messages, fallbacks } = {}) => {
+  if (!(provider || serviceId) || !model || !Array.isArray(messages) || messages.length === 0) {
+    return 'provider or serviceId, model, and messages are required'
+  }
+  if (fallbacks !== undefined) {
+    if (!Array.isArray(fallbacks) || fallbacks.length > MAX_FALLBACKS) {
+      return `fallbacks must be an array with at most ${MAX_FALLBACKS} entries`
+    }
+    if (fallbacks.some(entry => !entry || !(entry.provider || entry.serviceId) || !entry.model)) {
+      return 'each fallback needs provider or serviceId and model'
+    }
+  }
+  return null
+}
 
-  const { clause, params } = buildKeepClause(includeTerms, excludeTerms)
-  const deleteClause = `NOT (${clause})`
+/**
+ * Ermittelt Provider, API-Key, URL und Header für einen Chat-Request
+ * Mit serviceId kommen Key und URL aus dem Vault, der Client schickt keine Keys;
+ * apiUrl aus dem Request wird dann ignoriert, damit der Key nur an seine eigene URL geht
+ * Ohne serviceId sind nur Provider ohne Pflicht-Key möglich (local, ollama, openai-compatible)
+ *
+ * @returns { config } oder { error }
+ */
+const resolveProviderConfig = async ({ serviceId, provider, apiUrl, headers, model }) => {
+  let config
 
-  const rows = await db.all(
-    `SELECT id FROM pages WHERE ${deleteClause}`,
-    params
-  )
-  const ids = rows.map((row) => row.id)
+  if (serviceId) {
+    const credential = await resolveCredential(await getAppDb(), serviceId)
+    if (!credential) {
+      return { error: `Unknown serviceId: ${serviceId}` }
+    }
+    config = {
+      provider: credential.provider,
+      apiKey: credential.apiKey,
+      apiUrl: credential.apiUrl || undefined,
+      model
+    }
+  } else {
+    if (!isSupportedProvider(provider)) {
+      return { error: `Unknown provider: ${provider}` }
+    }
+    if (requiresApiKey(provider)) {
+      return { error: `serviceId is required for provider ${provider}` }
+    }
+    config = { provider, apiUrl, model }
+  }
 
-  await db.run(
-    `DELETE FROM pages WHERE ${deleteClause}`,
-    params
-  )
+  if (requiresApiUrl(config.provider) && !config.apiUrl) {
+    return { error: `apiUrl is required for provider ${config.provider}` }
+  }
+  // Eigene Header nur für OpenAI-kompatible Server
+  if (config.provider === 'openai-compatible') {
+    config.headers = normalizeHeaders(headers)
+  }
+  return { config }
+}
 
-  return res.json({ deletedCount: ids.length, deletedIds: ids })
-})
+/**
+ * Löst die Fallback-Einträge eines Chat-Requests auf
+ * Ohne serviceId wird für Provider mit Pflicht-Key der erste gespeicherte Key genommen,
+ * aber nie, wenn der Eintrag eine eigene apiUrl mitbringt
+ *
+ * @returns [{ config } | { provider, model, error }] in der Reihenfolge des Requests
+ */
+const resolveFallbackChain = async (fallbacks = []) => Promise.all(fallbacks.map(async (entry) => {
+  try {
+    let serviceId = entry.serviceId
+    if (!serviceId && !entry.apiUrl && requiresApiKey(entry.provider) && isVaultConfigured()) {
+      const credentials = await listCredentials(await getAppDb())
+      serviceId = credentials.find(credential => credential.provider === entry.provider)?.id
+    }
+    const { config, error } = await resolveProviderConfig({ ...entry, serviceId })
+    return config ? { config } : { provider: entry.provider, model: entry.model, error }
+  } catch (error) {
+    return { provider: entry.provider, model: entry.model, error: error.message }
+  }
+}))
 
-app.get('/api/pages/all', async (req, res) => {
-  const { chatId } = req.query
-  const db = await getDb(chatId)
-  const rows = await db.all(
-    'SELECT id, url, title, content, status_code, content_hash, fetched_at, created_at, updated_at FROM pages ORDER BY id DESC'
-  )
+// Timeout -> 504, Fehlerantwort des Providers -> 502, sonst 500
+const getProviderErrorStatus = (error) => {
+  if (error.code === 'TIMEOUT') {
+    return 504
+  }
+  return error.status ? 502 : 500
+}
 
-  return res.json({ items: rows })
-})
+/**
+ * Probiert die Provider der Reihe nach, bis einer antwortet
+ * Nicht auflösbare Fallbacks werden übersprungen und als fehlgeschlagen gemeldet
+ * Abbruch durch den Client beendet die Kette sofort, ebenso canFallback() === false
+ *
+ * @param chain - [{ config } | { provider, model, error }], erster Eintrag = gewählter Provider
+ * @param run - (config) => Promise<AiServiceResponse>
+ * @returns { response, attempts } - attempts: [{ provider, model, ok, error? }]
+ */
+const runWithFallback = async (chain, run, { signal, canFallback = () => true } = {}) => {
+  const attempts = []
+  let lastError = null
 
-// ===== DOCUMENTATION ENDPOINTS =====
+  for (const entry of chain) {
+    if (!entry.config) {
+      attempts.push({ provider: entry.provider, model: entry.model, ok: false, error: entry.error })
+      continue
+    }
 
-app.get('/docs/:filename', (req, res) => {
-  const filename = req.params.filename
-  const allowedFiles = ['AI_SERVICES.md', 'README.md', 'PROJECT_DOCUMENTATION.md']
-  
-  if (!allowedFiles.includes(filename)) {
-    return res.status(404).json({ error: 'Documentation file not found' })
+    const { provider, model } = entry.config
+    try {
+      const response = await run(entry.config)
+      attempts.push({ provider, model, ok: true })
+      return { response, attempts }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error
+      }
+      lastError = error
+      attempts.push({ provider, model, ok: false, error: error.message })
+      if (!canFallback()) {
+        break
+      }
+    }
   }
 
-  // Import fs dynamically for file reading
-  import('fs/promises').then(fs => {
-    fs.readFile(`./docs/${filename}`, 'utf8')
-      .then(content => {
-        res.type('text/markdown')
-        res.send(content)
-      })
-      .catch(() => {
-        res.status(404).json({ error: `File ${filename} not found` })
-      })
-  })
-})
+  lastError.attempts = attempts
+  throw lastError
+}
 
-// Export the app for use in both standalone and middleware mode
-export default app
+const USAGE_SOURCES = ['chat', 'application']
+const getUsageSource = (body) => (USAGE_SOURCES.includes(body?.usageSource) ? body.usageSource : 'chat')
 
-// If running standalone, start the server
-if (import.meta.url === `file://${process.argv[1]}`) {
-  app.listen(port, () => {
-    console.log(`API server running on http://localhost:${port}`)
-  })
+/**
+ * Prüft das Budget-Limit vor einem Batch-Aufruf
+ * Gilt nur für die Bewerbungs-Generierung, normale Chat-Nachrichten laufen weiter
+ *
+ * @returns Budget-Status, wenn das Limit erreicht ist, sonst null
+ */
+const checkBudgetForRequest = async (body) => {
+  if (getUsageSource(body) !== 'application') {
+    return null
+  }
+  const status = await getBudgetStatus(await getAppDb())
+  return status.exceeded ? status : null
 }
 
-// ===== AI SERVICE ENDPOINTS =====
+/**
+ * Protokolliert einen abgeschlossenen Aufruf im Usage-Ledger
+ * Ein Fehler beim Schreiben darf die Antwort nicht verhindern
+ *
+ * @returns { costUsd, budget? } - budget nur bei Batch-Aufrufen
+ */
+const trackUsage = async (body, response) => {
+  const source = getUsageSource(body)
+  try {
+    const appDb = await getAppDb()
+    const costUsd = await recordUsage(appDb, {
+      chatId: body.chatId ? String(body.chatId) : null,
+      source,
+      provider: response.provider,
+      model: response.model,
+      tokens: response.tokens
+    })
+    if (source === 'application') {
+      return { costUsd, budget: await getBudgetStatus(appDb) }
+    }
+    return { costUsd }
+  } catch (error) {
+    console.error('Could not record AI usage:', error.message)
+    return { costUsd: null }
+  }
+}
 
 /**
  * POST /api/ai/chat
  * Sendet eine Nachricht an den ausgewählten AI Service
- * Body: { provider, apiKey, model, temperature, messages, chatId }
+ * Body: { serviceId | provider, apiUrl, headers, model, temperature, maxTokens, topP, frequencyPenalty, presencePenalty,
+ *         messages, chatId, retrieval, fileIds, usageSource, fallbacks }
+ * API-Keys werden über serviceId aus dem Vault geladen
+ * fallbacks: [{ serviceId | provider, model, apiUrl? }] werden der Reihe nach probiert, wenn der Provider ausfällt
+ * Antwort: AiServiceResponse (content, provider, model, tokens, finishReason, generatedAt) + sources + costUsd
+ *          + attempts (welcher Provider geantwortet hat bzw. warum andere scheiterten)
+ * Jeder Aufruf landet im Usage-Ledger; mit usageSource: 'application' gilt das Budget-Limit
+ * (402, sobald es erreicht ist) und die Antwort enthält den Budget-Status
+ * Mit retrieval: true werden passende Seiten aus der Chat-Datenbank als Kontext mitgegeben
+ * Mit fileIds wird der extrahierte Text hochgeladener Dateien mitgegeben
  */
 app.post('/api/ai/chat', async (req, res) => {
-  const { provider, apiKey, model, temperature, messages, chatId } = req.body || {}
+  const provider = req.body?.provider || req.body?.serviceId
 
-  if (!provider || !model || !Array.isArray(messages) || messages.length === 0) {
+  const validationError = validateChatBody(req.body)
+  if (validationError) {
     return res.status(400).json({
-      error: 'provider, model, and messages are required',
+      error: validationError,
       success: false
     })
   }
 
   try {
-    // Dispatch zum richtigen Service
-    let response
+    const { config, error } = await resolveProviderConfig(req.body)
+    if (error) {
+      return res.status(400).json({ error, success: false })
+    }
 
-    if (provider === 'openai') {
-      response = await callOpenAI(apiKey, model, messages, temperature)
-    } else if (provider === 'claude') {
-      response = await callClaude(apiKey, model, messages, temperature)
-    } else if (provider === 'gemini') {
-      response = await callGemini(apiKey, model, messages, temperature)
-    } else if (provider === 'ollama') {
-      response = await callOllama(req.body.apiUrl || 'http://localhost:11434', model, messages, temperature)
-    } else if (provider === 'local') {
-      response = await callLocal(messages)
-    } else {
-      return res.status(400).json({
-        error: `Unknown provider: ${provider}`,
-        success: false
+    const exceededBudget = await checkBudgetForRequest(req.body)
+    if (exceededBudget) {
+      return res.status(402).json({
+        success: false,
+        error: 'Budget limit reached',
+        budget: exceededBudget
       })
     }
 
+    const { messages, sources } = await preparePromptMessages(req.body)
+    const chain = [{ config }, ...await resolveFallbackChain(req.body.fallbacks)]
+    const { response, attempts } = await runWithFallback(
+      chain,
+      (providerConfig) => callProvider(providerConfig, buildAiRequest(req.body, messages), undefined, AI_RETRY_OPTIONS)
+    )
+    const usage = await trackUsage(req.body, response)
+
     return res.json({
       success: true,
-      content: response,
-      provider,
-      model
+      ...response,
+      ...usage,
+      sources,
+      attempts
     })
   } catch (error) {
     console.error(`AI Service Error (${provider}):`, error)
+    return res.status(getProviderErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      attempts: error.attempts
+    })
+  }
+})
+
+/**
+ * POST /api/ai/chat/stream
+ * Wie /api/ai/chat, liefert die Antwort aber inkrementell als Server-Sent Events
+ * Events: { type: 'sources', sources } | { type: 'token', content }
+ *       | { type: 'done', ...AiServiceResponse, sources, costUsd, attempts } | { type: 'error', error, attempts }
+ * Bricht der Client die Verbindung ab, wird auch der Upstream-Request abgebrochen
+ * Auch abgebrochene Streams landen mit den bis dahin verbrauchten Tokens im Usage-Ledger
+ * Fallbacks greifen nur, solange noch kein Token gesendet wurde
+ */
+app.post('/api/ai/chat/stream', async (req, res) => {
+  const provider = req.body?.provider || req.body?.serviceId
+
+  const validationError = validateChatBody(req.body)
+  if (validationError) {
+    return res.status(400).json({
+      error: validationError,
+      success: false
+    })
+  }
+
+  let config
+  let messages
+  let sources
+  let fallbackChain
+  try {
+    const resolved = await resolveProviderConfig(req.body)
+    if (resolved.error) {
+      return res.status(400).json({ error: resolved.error, success: false })
+    }
+    const exceededBudget = await checkBudgetForRequest(req.body)
+    if (exceededBudget) {
+      return res.status(402).json({ success: false, error: 'Budget limit reached', budget: exceededBudget })
+    }
+    config = resolved.config
+    fallbackChain = await resolveFallbackChain(req.body.fallbacks);
+    ({ messages, sources } = await preparePromptMessages(req.body))
+  } catch (error) {
     return res.status(500).json({
       success: false,
       error: error.message
     })
   }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  })
+
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort()
+    }
+  })
+
+  writeSseEvent(res, { type: 'sources', sources })
+
+  let streamStarted = false
+  try {
+    const { response, attempts } = await runWithFallback(
+      [{ config }, ...fallbackChain],
+      (providerConfig) => streamProvider(
+        providerConfig,
+        buildAiRequest(req.body, messages),
+        (token) => {
+          streamStarted = true
+          writeSseEvent(res, { type: 'token', content: token })
+        },
+        controller.signal,
+        AI_RETRY_OPTIONS
+      ).catch(async (error) => {
+        // Abgebrochene oder fehlgeschlagene Streams kosten trotzdem Tokens
+        if (error.partialResponse) {
+          await trackUsage(req.body, error.partialResponse)
+        }
+        throw error
+      }),
+      { signal: controller.signal, canFallback: () => !streamStarted }
+    )
+
+    const usage = await trackUsage(req.body, response)
+    writeSseEvent(res, { type: 'done', ...response, ...usage, sources, attempts })
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error(`AI Stream Error (${provider}):`, error)
+      writeSseEvent(res, { type: 'error', error: error.message, attempts: error.attempts })
+    }
+  } finally {
+    res.end()
+  }
 })
 
 /**
  * GET /api/ai/services
- * Gibt eine Liste aller verfügbaren AI Services zurück
- */
-app.get('/api/ai/services', (req, res) => {
-  const services = [
-    {
-      provider: 'openai',
-      name: 'OpenAI',
-      models: ['gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'],
-      requiresKey: true,
-      description: 'Professional AI models from OpenAI'
-    },
-    {
-      provider: 'claude',
-      name: 'Anthropic Claude',
-      models: ['claude-3-opus-20240229', 'claude-3-sonnet-20240229'],
-      requiresKey: true,
-      description: 'Advanced AI models from Anthropic'
-    },
-    {
-      provider: 'gemini',
-      name: 'Google Gemini',
-      models: ['gemini-pro'],
-      requiresKey: true,
-      description: 'Multimodal AI models from Google'
-    },
-    {
-      provider: 'ollama',
-      name: 'Ollama (Local)',
-      models: ['llama2', 'mistral', 'neural-chat'],
-      requiresKey: false,
-      description: 'Local open-source models via Ollama'
-    },
-    {
-      provider: 'local',
-      name: 'Local Echo',
-      models: ['echo'],
-      requiresKey: false,
-      description: 'Simple local echo service for testing'
+ * Gibt eine Liste aller verfügbaren AI Services mit ihren Modellen zurück
+ * Query: provider?, apiUrl?, serviceId?, refresh?
+ * Die Modelle werden beim Provider abgefragt (gecacht), apiUrl gilt nur für provider
+ * Antwort: { services: [...service, models, modelSource, modelError?], models: AiModelInfo[] }
+ */
+app.get('/api/ai/services', async (req, res) => {
+  const { provider, apiUrl, serviceId } = req.query
+  const refresh = req.query.refresh === '1' || req.query.refresh === 'true'
+
+  let appDb = null
+  let credentials = []
+  if (isVaultConfigured()) {
+    try {
+      appDb = await getAppDb()
+      credentials = await listCredentials(appDb)
+    } catch (error) {
+      console.error('Could not load credentials for model discovery:', error.message)
     }
-  ]
+  }
+
+  let compatiblePricing = null
+  try {
+    compatiblePricing = await getCompatiblePricing(await getAppDb())
+  } catch (error) {
+    console.error('Could not load compatible pricing:', error.message)
+  }
+
+  const services = await Promise.all(AI_SERVICES.map(async (service) => {
+    const credential = appDb
+      ? await pickCredentialForDiscovery(appDb, credentials, service.provider, serviceId, Boolean(service.provider === provider && apiUrl))
+      : null
+    const discovery = await discoverModels(service, {
+      credential,
+      apiUrl: service.provider === provider ? apiUrl : undefined,
+      refresh
+    })
+    const { provider: serviceProvider, name, requiresKey, acceptsKey, requiresUrl, description } = service
+    const models = discovery.models.map(model => ({
+      ...model,
+      ...getModelPricing(service.provider, model.modelId, compatiblePricing)
+    }))
+    return { provider: serviceProvider, name, requiresKey, acceptsKey, requiresUrl, description, ...discovery, models }
+  }))
 
-  return res.json({ services })
+  return res.json({
+    services,
+    models: services.flatMap(service => service.models)
+  })
 })
 
 /**
  * POST /api/ai/validate-key
  * Validiert einen API-Key für einen Service
- * Body: { provider, apiKey }
+ * Body: { provider, apiKey, apiUrl?, headers? }
  */
 app.post('/api/ai/validate-key', async (req, res) => {
-  const { provider, apiKey } = req.body || {}
+  const { provider, apiKey, headers } = req.body || {}
 
   if (!provider) {
     return res.status(400).json({ valid: false, error: 'provider is required' })
   }
 
   try {
-    let valid = false
-
-    if (provider === 'openai') {
-      valid = await validateOpenAIKey(apiKey)
-    } else if (provider === 'claude') {
-      valid = await validateClaudeKey(apiKey)
-    } else if (provider === 'gemini') {
-      valid = await validateGeminiKey(apiKey)
-    } else if (provider === 'ollama') {
-      valid = await validateOllamaConnection(req.body.apiUrl || 'http://localhost:11434')
-    } else if (provider === 'local') {
-      valid = true
-    }
+    const valid = await validateProviderAccess(provider, apiKey, req.body.apiUrl, normalizeHeaders(headers))
 
     return res.json({
       valid,
@@ -810,143 +3015,211 @@ app.post('/api/ai/validate-key', async (req, res) => {
   }
 })
 
-// ===== AI SERVICE IMPLEMENTATIONS =====
+// ===== API KEY VAULT ENDPOINTS =====
 
 /**
- * OpenAI API Call
+ * GET /api/ai/credentials
+ * Listet gespeicherte Zugangsdaten, Keys nur maskiert
  */
-async function callOpenAI(apiKey, model, messages, temperature = 0.7) {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature,
-      max_tokens: 1000
-    })
-  })
+app.get('/api/ai/credentials', async (req, res) => {
+  try {
+    const credentials = await listCredentials(await getAppDb())
+    return res.json({ credentials, vaultConfigured: isVaultConfigured() })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
 
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
+/**
+ * POST /api/ai/credentials
+ * Speichert einen API-Key verschlüsselt im Vault
+ * Body: { provider, apiKey, label?, apiUrl? }
+ */
+app.post('/api/ai/credentials', async (req, res) => {
+  const { provider, apiKey, label, apiUrl } = req.body || {}
+
+  if (!isSupportedProvider(provider) || provider === 'local') {
+    return res.status(400).json({ error: `Unsupported provider: ${provider}` })
+  }
+  if (requiresApiKey(provider) && !apiKey) {
+    return res.status(400).json({ error: 'apiKey is required' })
+  }
+  // Der Key wird später nur an diese URL geschickt, deshalb muss sie mitgespeichert werden
+  if (requiresApiUrl(provider) && !apiUrl) {
+    return res.status(400).json({ error: `apiUrl is required for provider ${provider}` })
+  }
+  if (apiKey && !isVaultConfigured()) {
+    return res.status(503).json({ error: 'VAULT_MASTER_KEY is not configured' })
   }
 
-  const data = await response.json()
-  return data.choices[0]?.message?.content || 'No response'
-}
+  try {
+    const credential = await addCredential(await getAppDb(), {
+      provider,
+      apiKey: apiKey ? String(apiKey).trim() : undefined,
+      label: label ? String(label).trim() : undefined,
+      apiUrl
+    })
+    return res.status(201).json(credential)
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
 
 /**
- * Claude API Call
+ * POST /api/ai/credentials/:id/test
+ * Prüft gespeicherte Zugangsdaten gegen den Provider und merkt sich das Ergebnis
  */
-async function callClaude(apiKey, model, messages, temperature = 0.7) {
-  // Filter system message
-  const systemMessage = messages.find(m => m.role === 'system')?.content || ''
-  const userMessages = messages.filter(m => m.role !== 'system')
+app.post('/api/ai/credentials/:id/test', async (req, res) => {
+  try {
+    const db = await getAppDb()
+    const credential = await resolveCredential(db, req.params.id)
+    if (!credential) {
+      return res.status(404).json({ error: 'Credential not found' })
+    }
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 1000,
-      system: systemMessage,
-      messages: userMessages.map(m => ({
-        role: m.role === 'assistant' ? 'assistant' : 'user',
-        content: m.content
-      })),
-      temperature
+    const valid = await validateProviderAccess(credential.provider, credential.apiKey, credential.apiUrl)
+    const updated = await recordCredentialTest(db, credential.id, valid)
+
+    return res.json({
+      valid,
+      provider: credential.provider,
+      message: valid ? 'Key is valid' : 'Key is invalid',
+      credential: updated
     })
-  })
+  } catch (error) {
+    return res.status(500).json({ valid: false, error: error.message })
+  }
+})
 
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Claude API error')
+/**
+ * DELETE /api/ai/credentials/:id
+ * Entfernt Zugangsdaten aus dem Vault
+ */
+app.delete('/api/ai/credentials/:id', async (req, res) => {
+  try {
+    const deleted = await deleteCredential(await getAppDb(), req.params.id)
+    if (!deleted) {
+      return res.status(404).json({ error: 'Credential not found' })
+    }
+    return res.json({ success: true })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
   }
+})
 
-  const data = await response.json()
-  return data.content[0]?.text || 'No response'
-}
+// ===== USAGE ENDPOINTS =====
 
 /**
- * Gemini API Call
+ * GET /api/usage
+ * Verbrauch und geschätzte Kosten aller KI-Aufrufe
+ * Query: chatId?, days? (Standard 30, max. 365)
+ * Antwort: { days, totals, byDay, byChat, byProvider, budget, compatiblePricing }
  */
-async function callGemini(apiKey, model, messages, temperature = 0.7) {
-  const contents = messages
-    .filter(m => m.role !== 'system')
-    .map(m => ({
-      role: m.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: m.content }]
-    }))
+app.get('/api/usage', async (req, res) => {
+  const days = Math.min(Math.max(parseInt(req.query.days, 10) || 30, 1), 365)
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents,
-        generationConfig: {
-          temperature,
-          maxOutputTokens: 1000
-        }
-      })
-    }
-  )
+  try {
+    const appDb = await getAppDb()
+    const summary = await getUsageSummary(appDb, { chatId: req.query.chatId, days })
+    return res.json({
+      ...summary,
+      budget: await getBudgetStatus(appDb),
+      compatiblePricing: await getCompatiblePricing(appDb)
+    })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
 
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Gemini API error')
+/**
+ * GET /api/usage/budget
+ * Budget-Limit mit Verbrauch im aktuellen Zeitraum
+ */
+app.get('/api/usage/budget', async (req, res) => {
+  try {
+    return res.json({ budget: await getBudgetStatus(await getAppDb()) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
   }
+})
 
-  const data = await response.json()
-  return data.candidates[0]?.content?.parts[0]?.text || 'No response'
-}
+/**
+ * PUT /api/usage/budget
+ * Body: { limitUsd: number | null, period: 'day' | 'month' }
+ * limitUsd: null entfernt das Limit
+ */
+app.put('/api/usage/budget', async (req, res) => {
+  try {
+    const appDb = await getAppDb()
+    const current = await getBudget(appDb)
+    const limitUsd = req.body?.limitUsd ?? null
+    if (limitUsd !== null && (!Number.isFinite(Number(limitUsd)) || Number(limitUsd) < 0)) {
+      return res.status(400).json({ error: 'limitUsd must be a non-negative number or null' })
+    }
+
+    await setBudget(appDb, { limitUsd, period: req.body?.period || current.period })
+    return res.json({ budget: await getBudgetStatus(appDb) })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
+  }
+})
 
 /**
- * Ollama API Call (Local)
+ * PUT /api/usage/pricing
+ * Preis für openai-compatible Endpunkte (z.B. eigenes Gateway oder lokaler Server mit 0)
+ * Body: { costPer1kPromptTokens: number | null, costPer1kCompletionTokens: number | null }
+ * Beide null: Preis wieder unbekannt (Budget rechnet dann mit dem Ersatzpreis)
  */
-async function callOllama(baseUrl, model, messages, temperature = 0.7) {
-  const response = await fetch(`${baseUrl}/api/chat`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature,
-      stream: false
-    })
-  })
+app.put('/api/usage/pricing', async (req, res) => {
+  const { costPer1kPromptTokens = null, costPer1kCompletionTokens = null } = req.body || {}
+  const prices = [costPer1kPromptTokens, costPer1kCompletionTokens]
+  const cleared = prices.every(price => price === null)
+  if (!cleared && !prices.every(price => price !== null && price !== '' && Number.isFinite(Number(price)) && Number(price) >= 0)) {
+    return res.status(400).json({ error: 'Prices must both be non-negative numbers or both null' })
+  }
 
-  if (!response.ok) {
-    throw new Error(`Ollama error: ${response.status}`)
+  try {
+    const compatiblePricing = await setCompatiblePricing(
+      await getAppDb(),
+      cleared ? null : { costPer1kPromptTokens, costPer1kCompletionTokens }
+    )
+    return res.json({ compatiblePricing })
+  } catch (error) {
+    return res.status(500).json({ error: error.message })
   }
+})
 
-  const data = await response.json()
-  return data.message?.content || 'No response'
-}
+// ===== AI STREAMING HELPERS =====
 
 /**
- * Local Echo Service (für Demo/Testing)
+ * Schreibt ein einzelnes Server-Sent Event
  */
-async function callLocal(messages) {
-  const lastMessage = messages[messages.length - 1]?.content || ''
-  return `[LOCAL RESPONSE] You said: ${lastMessage}`
+function writeSseEvent(res, payload) {
+  if (!res.writableEnded) {
+    res.write(`data: ${JSON.stringify(payload)}\n\n`)
+  }
 }
 
 // ===== API KEY VALIDATION FUNCTIONS =====
 
+/**
+ * Prüft Key bzw. Erreichbarkeit für einen Provider
+ */
+async function validateProviderAccess(provider, apiKey, apiUrl, headers = {}) {
+  if (provider === 'openai') {
+    return validateOpenAIKey(apiKey)
+  } else if (provider === 'claude') {
+    return validateClaudeKey(apiKey)
+  } else if (provider === 'gemini') {
+    return validateGeminiKey(apiKey)
+  } else if (provider === 'ollama') {
+    return validateOllamaConnection(apiUrl || 'http://localhost:11434')
+  } else if (provider === 'openai-compatible') {
+    return validateOpenAICompatibleConnection(apiUrl, apiKey, headers)
+  }
+  return provider === 'local'
+}
+
 /**
  * Validiert OpenAI API Key
  */
@@ -1005,3 +3278,24 @@ async function validateOllamaConnection(baseUrl) {
     return false
   }
 }
+
+/**
+ * Validiert einen OpenAI-kompatiblen Server (LM Studio, vLLM, llama.cpp)
+ * Key ist optional, eigene Header werden mitgeschickt
+ */
+async function validateOpenAICompatibleConnection(baseUrl, apiKey, headers) {
+  if (!baseUrl) {
+    return false
+  }
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, {
+      headers: {
+        ...headers,
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      }
+    })
+    return response.ok
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * jobcache.js - Persistenter Cache für Jobsuchen
+ *
+ * Ergebnisse von /api/jobs/search liegen in app.db und überleben Neustarts.
+ * Innerhalb von ttlMs gilt ein Eintrag als frisch, danach bis staleMs als
+ * veraltet: er wird sofort ausgeliefert und im Hintergrund erneuert.
+ * Ältere Einträge und alles über maxEntries (zuletzt benutzte bleiben) fliegen raus.
+ */
+
+const parseJson = (value, fallback) => {
+  try {
+    return value ? JSON.parse(value) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Zustand eines Eintrags anhand seines Alters
+ * @returns 'fresh' | 'stale' | 'expired'
+ */
+export const getCacheState = (ageMs, { ttlMs, staleMs }) => {
+  if (ageMs < ttlMs) {
+    return 'fresh'
+  }
+  return ageMs < staleMs ? 'stale' : 'expired'
+}
+
+/**
+ * Lädt einen Eintrag und zählt den Zugriff
+ *
+ * @param db - App-Datenbank aus getAppDb()
+ * @param key - Cache-Key (Suchbegriff, Limit, Quellen, Filter)
+ * @returns { items, sources, fetchedAt, ageMs } oder null
+ */
+export const getCachedJobSearch = async (db, key) => {
+  const row = await db.get('SELECT * FROM job_search_cache WHERE cache_key = ?', [key])
+  if (!row) {
+    return null
+  }
+
+  await db.run(
+    'UPDATE job_search_cache SET hit_count = hit_count + 1, last_hit_at = ? WHERE cache_key = ?',
+    [Date.now(), key]
+  )
+  return {
+    items: parseJson(row.items, []),
+    sources: parseJson(row.sources, []),
+    fetchedAt: new Date(row.fetched_at).toISOString(),
+    ageMs: Math.max(0, Date.now() - row.fetched_at)
+  }
+}
+
+/**
+ * Speichert ein Suchergebnis und räumt danach auf
+ *
+ * @param options - { staleMs, maxEntries }
+ */
+export const storeJobSearch = async (db, key, { query, items, sources }, { staleMs, maxEntries }) => {
+  const now = Date.now()
+  await db.run(
+    `INSERT INTO job_search_cache (cache_key, query, items, sources, item_count, fetched_at, last_hit_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(cache_key) DO UPDATE SET
+       items = excluded.items,
+       sources = excluded.sources,
+       item_count = excluded.item_count,
+       fetched_at = excluded.fetched_at`,
+    [key, query, JSON.stringify(items), JSON.stringify(sources), items.length, now, now]
+  )
+  await pruneJobSearchCache(db, { staleMs, maxEntries })
+}
+
+/**
+ * Löscht abgelaufene Einträge und alles über maxEntries (am längsten ungenutzte zuerst)
+ * @returns Anzahl gelöschter Einträge
+ */
+export const pruneJobSearchCache = async (db, { staleMs, maxEntries }) => {
+  const expired = await db.run('DELETE FROM job_search_cache WHERE fetched_at < ?', [Date.now() - staleMs])
+  const overflow = await db.run(
+    `DELETE FROM job_search_cache WHERE cache_key NOT IN (
+       SELECT cache_key FROM job_search_cache ORDER BY last_hit_at DESC, fetched_at DESC LIMIT ?
+     )`,
+    [maxEntries]
+  )
+  return expired.changes + overflow.changes
+}
+
+/**
+ * Übersicht für den Admin-Endpoint (ohne die gespeicherten Treffer)
+ *
+ * @param options - { ttlMs, staleMs }
+ */
+export const listJobSearchCache = async (db, { ttlMs, staleMs }) => {
+  const rows = await db.all(
+    `SELECT cache_key, query, item_count, fetched_at, last_hit_at, hit_count, length(items) AS size
+     FROM job_search_cache ORDER BY fetched_at DESC`
+  )
+  const now = Date.now()
+  return rows.map((row) => {
+    const ageMs = Math.max(0, now - row.fetched_at)
+    return {
+      key: row.cache_key,
+      query: row.query,
+      itemCount: row.item_count,
+      sizeBytes: row.size,
+      fetchedAt: new Date(row.fetched_at).toISOString(),
+      ageMs,
+      state: getCacheState(ageMs, { ttlMs, staleMs }),
+      hitCount: row.hit_count,
+      lastHitAt: row.last_hit_at ? new Date(row.last_hit_at).toISOString() : null
+    }
+  })
+}
+
+/**
+ * Leert den Cache komplett oder nur einen Eintrag
+ * @returns Anzahl gelöschter Einträge
+ */
+export const clearJobSearchCache = async (db, key = null) => {
+  const result = key
+    ? await db.run('DELETE FROM job_search_cache WHERE cache_key = ?', [key])
+    : await db.run('DELETE FROM job_search_cache')
+  return result.changes
+}
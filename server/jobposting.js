@@ -0,0 +1,124 @@
+/**
+ * jobposting.js - Strukturierte Stellendaten aus gecrawlten Seiten
+ *
+ * Viele Job-Seiten betten ein schema.org "JobPosting" als JSON-LD ein
+ * (<script type="application/ld+json">). extractJobPosting() liest Firma,
+ * Ort, Datum, Bewerbungsfrist, Anstellungsart und Gehalt daraus, bevor
+ * extractText() die Skripte aus dem Seitentext entfernt.
+ */
+
+import { decodeEntities } from './xml.js'
+
+const JSON_LD_PATTERN = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi
+
+const parseJsonLd = (source) => {
+  const cleaned = source
+    .replace(/^\s*<!--/, '')
+    .replace(/-->\s*$/, '')
+    .replace(/^\s*\/\/\s*<!\[CDATA\[/, '')
+    .replace(/\/\/\s*\]\]>\s*$/, '')
+    .trim()
+  try {
+    return JSON.parse(cleaned)
+  } catch {
+    return null
+  }
+}
+
+// Alle Knoten eines JSON-LD-Blocks (Arrays und @graph werden aufgelöst)
+const collectNodes = (value, nodes = []) => {
+  if (Array.isArray(value)) {
+    value.forEach(entry => collectNodes(entry, nodes))
+  } else if (value && typeof value === 'object') {
+    nodes.push(value)
+    if (value['@graph']) {
+      collectNodes(value['@graph'], nodes)
+    }
+  }
+  return nodes
+}
+
+const hasType = (node, type) => {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']]
+  return types.some(entry => String(entry || '').replace(/^.*[/:]/, '') === type)
+}
+
+const toText = (value) => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  if (typeof value === 'object') {
+    return toText(value.name ?? value['@value'] ?? '')
+  }
+  return decodeEntities(String(value)).replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+const toList = (value) => (Array.isArray(value) ? value : value ? [value] : [])
+
+const toNumber = (value) => {
+  const number = Number.parseFloat(String(value ?? '').replace(/[^\d.-]/g, ''))
+  return Number.isFinite(number) ? number : null
+}
+
+const formatAddress = (address) => {
+  if (!address || typeof address !== 'object') {
+    return toText(address)
+  }
+  const parts = [address.addressLocality, address.addressRegion, address.addressCountry]
+    .map(toText)
+    .filter(Boolean)
+  return Array.from(new Set(parts)).join(', ')
+}
+
+const formatLocation = (posting) => {
+  const locations = toList(posting.jobLocation)
+    .map(place => (place && typeof place === 'object' ? formatAddress(place.address) || toText(place) : toText(place)))
+    .filter(Boolean)
+  const remote = toList(posting.jobLocationType).some(type => /telecommute/i.test(String(type)))
+  if (remote) {
+    locations.push('Remote')
+  }
+  return Array.from(new Set(locations)).join('; ')
+}
+
+const parseSalary = (baseSalary) => {
+  const salary = toList(baseSalary)[0]
+  if (!salary || typeof salary !== 'object') {
+    const amount = toNumber(salary)
+    return { salaryMin: amount, salaryMax: amount, salaryCurrency: null, salaryUnit: null }
+  }
+  const value = salary.value && typeof salary.value === 'object' ? salary.value : { value: salary.value }
+  const amount = toNumber(value.value)
+  return {
+    salaryMin: toNumber(value.minValue) ?? amount,
+    salaryMax: toNumber(value.maxValue) ?? amount,
+    salaryCurrency: toText(salary.currency || value.currency) || null,
+    salaryUnit: toText(value.unitText || salary.unitText) || null
+  }
+}
+
+/**
+ * Liest das erste schema.org-JobPosting aus dem HTML einer Seite
+ *
+ * @param html - Rohes HTML (vor extractText)
+ * @returns { company, location, datePosted, validThrough, employmentType,
+ *   salaryMin, salaryMax, salaryCurrency, salaryUnit } oder null ohne JobPosting
+ */
+export const extractJobPosting = (html) => {
+  const source = String(html || '')
+  for (const match of source.matchAll(JSON_LD_PATTERN)) {
+    const posting = collectNodes(parseJsonLd(match[1])).find(node => hasType(node, 'JobPosting'))
+    if (!posting) {
+      continue
+    }
+    return {
+      company: toText(posting.hiringOrganization) || null,
+      location: formatLocation(posting) || null,
+      datePosted: toText(posting.datePosted) || null,
+      validThrough: toText(posting.validThrough) || null,
+      employmentType: toList(posting.employmentType).map(toText).filter(Boolean).join(', ') || null,
+      ...parseSalary(posting.baseSalary)
+    }
+  }
+  return null
+}
@@ -0,0 +1,818 @@
+/**
+ * jobsources.js - Registry der Job-Quellen
+ *
+ * Jede Quelle ist ein Adapter mit id, name, benötigten Env-Keys,
+ * search() für den Abruf und normalize() nach JobSearchItem.
+ * searchJobSources() fragt alle aktiven Quellen parallel ab und
+ * meldet pro Quelle Status, Grund, Latenz und Trefferzahl.
+ *
+ * Filter (Ort, Umkreis, Land, Remote, Anstellungsart, Alter, Mindestgehalt)
+ * werden auf die nativen Parameter der Quelle gemappt, soweit die API sie kennt,
+ * und danach für alle Quellen als Nachfilter angewendet.
+ */
+
+import { Buffer } from 'buffer'
+import process from 'process'
+import { parseFeed } from './feeds.js'
+import { decodeEntities, findXmlElements, getXmlText } from './xml.js'
+
+const sanitizeText = (text) => text.replace(/\s+/g, ' ').trim()
+
+const stripHtml = (text) => {
+  if (!text) return ''
+  return sanitizeText(String(text).replace(/<[^>]+>/g, ' '))
+}
+
+// read(response) liest den Body, der Timeout gilt bis der Body vollständig da ist
+const fetchWithTimeout = async (url, options = {}, timeoutMs, read, fetchImpl = fetch) => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetchImpl(url, { ...options, signal: controller.signal })
+    if (!response.ok) {
+      throw new Error(`Request failed (${response.status})`)
+    }
+    return await read(response)
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timeout after ${timeoutMs} ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+const fetchJson = (url, options, timeoutMs, fetchImpl) => (
+  fetchWithTimeout(url, options, timeoutMs, response => response.json(), fetchImpl)
+)
+
+const fetchText = (url, options, timeoutMs, fetchImpl) => (
+  fetchWithTimeout(url, options, timeoutMs, response => response.text(), fetchImpl)
+)
+
+// Jeder Suchbegriff muss irgendwo im Text vorkommen (Reihenfolge egal)
+const matchesQueryTerms = (query, text) => {
+  const haystack = text.toLowerCase()
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term))
+}
+
+export const EMPLOYMENT_TYPES = ['full_time', 'part_time', 'contract', 'internship']
+
+/**
+ * Vereinheitlicht Anstellungsarten der Quellen ("Full Time", "full-time", "freelance", ...)
+ * @returns 'full_time' | 'part_time' | 'contract' | 'internship' | null
+ */
+const normalizeEmploymentType = (value) => {
+  const text = String(Array.isArray(value) ? value.join(' ') : value || '').toLowerCase()
+  if (!text) return null
+  if (/intern|praktik|werkstudent|working student/.test(text)) return 'internship'
+  if (/part|teilzeit/.test(text)) return 'part_time'
+  if (/contract|freelance|temporary|befristet/.test(text)) return 'contract'
+  if (/full|vollzeit|permanent/.test(text)) return 'full_time'
+  return null
+}
+
+// Unix-Sekunden, ISO-String oder "dd/mm/yyyy" (Reed) -> ISO Timestamp
+const toIsoDate = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return null
+  }
+  if (typeof value === 'number') {
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString()
+  }
+  const ukDate = String(value).match(/^(\d{2})\/(\d{2})\/(\d{4})$/)
+  const date = ukDate ? new Date(`${ukDate[3]}-${ukDate[2]}-${ukDate[1]}T00:00:00Z`) : new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+const toSalary = (value) => {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : null
+}
+
+const normalizeJobItem = (source, job) => {
+  const title = job.title || job.position || job.name || 'Job'
+  const company = job.company || job.company_name || job.employerName || job.company_name_display || 'Unbekannt'
+  const location = job.location || job.locationName || job.candidate_required_location || null
+  const url = job.url || job.jobUrl || job.redirect_url || job.apply_url || job.refs?.landing_page || job.link || ''
+  const description = stripHtml(job.description || job.jobDescription || job.snippet || job.body || '')
+  const createdAt = toIsoDate(job.created_at || job.publication_date || job.date || job.created || null)
+
+  return {
+    id: `${source}:${job.id || job.jobId || job.slug || url || title}`,
+    title,
+    company,
+    location,
+    url,
+    source,
+    description,
+    createdAt,
+    remote: typeof job.remote === 'boolean' ? job.remote : null,
+    employmentType: normalizeEmploymentType(job.employmentType ?? job.job_type ?? job.job_types),
+    salaryMin: toSalary(job.salaryMin ?? job.salary_min),
+    salaryMax: toSalary(job.salaryMax ?? job.salary_max)
+  }
+}
+
+// Rechtsformen, die beim Firmenvergleich wegfallen ("ACME GmbH" = "Acme")
+const LEGAL_SUFFIXES = new Set([
+  'gmbh', 'mbh', 'ag', 'se', 'kg', 'kgaa', 'ug', 'ohg', 'gbr', 'ev', 'co', 'inc', 'incorporated', 'llc', 'llp',
+  'ltd', 'limited', 'plc', 'corp', 'corporation', 'company', 'sa', 'sas', 'sarl', 'srl', 'spa', 'bv', 'nv',
+  'oy', 'ab', 'as', 'aps', 'pty', 'kft', 'sp', 'zoo'
+])
+
+// Genderzusätze und Füllwörter in Jobtiteln, z.B. "(m/w/d)", "(all genders)"
+const TITLE_NOISE = /\((?:[mwfdx]\s*\/\s*)+[mwfdx]\)|\b(?:all genders?|m\/w\/d|w\/m\/d|f\/m\/x|m\/f\/d)\b/gi
+
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.5
+// Erst ab so vielen Wörtern ist ein Beschreibungsvergleich aussagekräftig
+const MIN_DESCRIPTION_TOKENS = 20
+
+const toWords = (text) => String(text || '')
+  .toLowerCase()
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean)
+
+const normalizeTitle = (title) => toWords(String(title || '').replace(TITLE_NOISE, ' ')).join(' ')
+
+const normalizeCompany = (company) => toWords(company).filter(word => !LEGAL_SUFFIXES.has(word)).join(' ')
+
+// Nur der erste Teil ("Berlin, Germany" -> "berlin"), Remote-Angaben zählen als unbekannt
+const normalizeLocation = (location) => {
+  const first = String(location || '').split(/[,/|(]/)[0]
+  const normalized = toWords(first).join(' ')
+  return /^(remote|worldwide|anywhere|weltweit)$/.test(normalized) ? '' : normalized
+}
+
+const descriptionTokens = (description) => new Set(toWords(description).filter(word => word.length > 2))
+
+/**
+ * Jaccard-Ähnlichkeit zweier Wortmengen (0 = nichts gemeinsam, 1 = identisch)
+ */
+const jaccard = (a, b) => {
+  let shared = 0
+  for (const token of a) {
+    if (b.has(token)) shared += 1
+  }
+  const union = a.size + b.size - shared
+  return union === 0 ? 0 : shared / union
+}
+
+/**
+ * Gleiche Stelle? Titel und Firma stimmen normalisiert schon überein (Gruppierung),
+ * geprüft werden Ort und - wenn beide genug Text haben - die Beschreibung
+ */
+const isSamePosting = (cluster, candidate) => {
+  if (cluster.location && candidate.location && cluster.location !== candidate.location) {
+    return false
+  }
+  if (cluster.tokens.size >= MIN_DESCRIPTION_TOKENS && candidate.tokens.size >= MIN_DESCRIPTION_TOKENS) {
+    return jaccard(cluster.tokens, candidate.tokens) >= DESCRIPTION_SIMILARITY_THRESHOLD
+  }
+  return true
+}
+
+/**
+ * Führt Duplikate zusammen: Hauptdaten vom Treffer mit der längsten Beschreibung,
+ * fehlende Felder (Gehalt, Anstellungsart, ...) werden aus den anderen ergänzt
+ */
+const mergeCluster = (items) => {
+  const primary = items.reduce((best, item) => (
+    (item.description || '').length > (best.description || '').length ? item : best
+  ))
+  const merged = { ...primary }
+  for (const item of items) {
+    for (const key of ['location', 'url', 'createdAt', 'remote', 'employmentType', 'salaryMin', 'salaryMax']) {
+      if ((merged[key] === null || merged[key] === undefined || merged[key] === '') && item[key] !== undefined) {
+        merged[key] = item[key]
+      }
+    }
+  }
+
+  const foundOn = []
+  for (const item of items) {
+    for (const entry of item.foundOn || [{ source: item.source, id: item.id, url: item.url }]) {
+      if (!foundOn.some(existing => existing.id === entry.id || (entry.url && existing.url === entry.url))) {
+        foundOn.push(entry)
+      }
+    }
+  }
+  merged.foundOn = foundOn
+  return merged
+}
+
+/**
+ * Entfernt doppelte Jobs, auch über Quellen hinweg
+ * Gleich sind Treffer mit identischer URL/ID oder mit gleichem normalisierten Titel
+ * und Firma (ohne Rechtsform), passendem Ort und ähnlicher Beschreibung.
+ * Jeder Treffer bekommt foundOn: [{ source, id, url }] mit allen Fundstellen.
+ */
+export const dedupeJobs = (items) => {
+  const clusters = []
+  const byExactKey = new Map()
+  const byPostingKey = new Map()
+
+  for (const item of items) {
+    const exactKey = item.url || item.id
+    if (!exactKey) {
+      continue
+    }
+    if (byExactKey.has(exactKey)) {
+      byExactKey.get(exactKey).items.push(item)
+      continue
+    }
+
+    const candidate = {
+      items: [item],
+      location: normalizeLocation(item.location),
+      tokens: descriptionTokens(item.description)
+    }
+    const title = normalizeTitle(item.title)
+    const company = normalizeCompany(item.company)
+    const postingKey = title && company && company !== 'unbekannt' ? `${title}::${company}` : null
+    const existing = postingKey
+      ? (byPostingKey.get(postingKey) || []).find(cluster => isSamePosting(cluster, candidate))
+      : null
+
+    if (existing) {
+      existing.items.push(item)
+      existing.location = existing.location || candidate.location
+      if (candidate.tokens.size > existing.tokens.size) {
+        existing.tokens = candidate.tokens
+      }
+      byExactKey.set(exactKey, existing)
+      continue
+    }
+
+    clusters.push(candidate)
+    byExactKey.set(exactKey, candidate)
+    if (postingKey) {
+      byPostingKey.set(postingKey, [...(byPostingKey.get(postingKey) || []), candidate])
+    }
+  }
+
+  return clusters.map(cluster => mergeCluster(cluster.items))
+}
+
+// ===== ADAPTER =====
+
+// Mehrere Abrufe einer Quelle (Feeds, Firmen): einzelne Fehler werden übersprungen,
+// nur wenn alle scheitern, gilt die Quelle als failed
+const collectSettled = async (tasks) => {
+  const settled = await Promise.allSettled(tasks)
+  const fulfilled = settled.filter(result => result.status === 'fulfilled')
+  if (settled.length > 0 && fulfilled.length === 0) {
+    throw settled[0].reason
+  }
+  return fulfilled.flatMap(result => result.value)
+}
+
+/**
+ * Adapter für ein ATS-Job-Board (Firmen aus der Watchlist, siehe watchlist.js)
+ * fetchBoard({ slug, getJson, getText }) liefert alle offenen Stellen einer Firma,
+ * die Stichwortsuche läuft lokal über Titel, Firma, Ort und Beschreibung
+ */
+const createAtsSource = ({ id, name, fetchBoard, normalize }) => ({
+  id,
+  name,
+  requiredEnv: [],
+  ats: id,
+  fetchBoard,
+  search: async ({ query, companies, getJson, getText }) => {
+    const jobs = await collectSettled(companies
+      .filter(company => company.ats === id)
+      .map(async company => (await fetchBoard({ slug: company.slug, getJson, getText }))
+        .map(job => ({ ...job, watchedCompany: company }))))
+    return jobs.filter((job) => {
+      const item = normalize(job)
+      return matchesQueryTerms(query, `${item.title} ${item.company} ${item.location || ''} ${item.description}`)
+    })
+  },
+  normalize
+})
+
+/**
+ * search({ query, limit, filters, env, getJson, getText, feeds, companies }) liefert die Roh-Jobs der Quelle,
+ * normalize(job) macht daraus ein JobSearchItem
+ * requiresFeeds = Quelle wird ohne registrierte Feeds übersprungen
+ * ats = Quelle durchsucht nur Firmen mit diesem ATS-Typ aus der Watchlist
+ */
+const JOB_SOURCES = [
+  {
+    id: 'arbeitnow',
+    name: 'Arbeitnow',
+    requiredEnv: [],
+    search: async ({ query, getJson }) => {
+      const payload = await getJson(`https://www.arbeitnow.com/api/job-board-api?search=${encodeURIComponent(query)}`)
+      return Array.isArray(payload?.data) ? payload.data : []
+    },
+    normalize: (job) => normalizeJobItem('Arbeitnow', job)
+  },
+  {
+    id: 'remotive',
+    name: 'Remotive',
+    requiredEnv: [],
+    search: async ({ query, limit, getJson }) => {
+      const params = new URLSearchParams({ search: query, limit: String(limit) })
+      const payload = await getJson(`https://remotive.com/api/remote-jobs?${params.toString()}`)
+      return Array.isArray(payload?.jobs) ? payload.jobs : []
+    },
+    // Nur Remote-Jobs, Ort = erlaubte Bewerber-Region
+    normalize: (job) => normalizeJobItem('Remotive', { ...job, remote: true })
+  },
+  {
+    id: 'themuse',
+    name: 'The Muse',
+    requiredEnv: [],
+    // location nicht nativ: bei remoteOnly wird der Ort nicht gesendet, daher immer nachfiltern
+    nativeFilters: ['remoteOnly'],
+    // Ohne Key nutzbar, THEMUSE_API_KEY erhöht nur das Rate-Limit
+    search: async ({ query, filters, env, getJson }) => {
+      const params = new URLSearchParams({
+        page: '1',
+        descending: 'true',
+        query
+      })
+      if (filters.remoteOnly) {
+        params.set('location', 'Flexible / Remote')
+      } else if (filters.location) {
+        params.set('location', filters.location)
+      }
+      if (env.THEMUSE_API_KEY) {
+        params.set('api_key', env.THEMUSE_API_KEY)
+      }
+      const payload = await getJson(`https://www.themuse.com/api/public/jobs?${params.toString()}`)
+      return Array.isArray(payload?.results) ? payload.results : []
+    },
+    normalize: (job) => normalizeJobItem('The Muse', {
+      ...job,
+      company: job.company?.name,
+      location: job.locations?.[0]?.name,
+      url: job.refs?.landing_page,
+      remote: (job.locations || []).some(location => /remote|flexible/i.test(location.name))
+    })
+  },
+  {
+    id: 'adzuna',
+    name: 'Adzuna',
+    requiredEnv: ['ADZUNA_APP_ID', 'ADZUNA_APP_KEY'],
+    countries: ['at', 'au', 'be', 'br', 'ca', 'ch', 'de', 'es', 'fr', 'gb', 'in', 'it', 'mx', 'nl', 'nz', 'pl', 'sg', 'us', 'za'],
+    nativeFilters: ['location', 'radiusKm', 'country', 'postedWithinDays', 'salaryMin', 'employmentType'],
+    search: async ({ query, limit, filters, env, getJson }) => {
+      const params = new URLSearchParams({
+        app_id: env.ADZUNA_APP_ID,
+        app_key: env.ADZUNA_APP_KEY,
+        what: query,
+        results_per_page: String(limit),
+        'content-type': 'application/json'
+      })
+      if (filters.location) params.set('where', filters.location)
+      if (filters.radiusKm) params.set('distance', String(filters.radiusKm))
+      if (filters.postedWithinDays) params.set('max_days_old', String(filters.postedWithinDays))
+      if (filters.salaryMin) params.set('salary_min', String(filters.salaryMin))
+      if (filters.employmentType === 'full_time') params.set('full_time', '1')
+      if (filters.employmentType === 'part_time') params.set('part_time', '1')
+      if (filters.employmentType === 'contract') params.set('contract', '1')
+
+      const country = filters.country || 'de'
+      const payload = await getJson(`https://api.adzuna.com/v1/api/jobs/${country}/search/1?${params.toString()}`)
+      return Array.isArray(payload?.results) ? payload.results : []
+    },
+    normalize: (job) => normalizeJobItem('Adzuna', {
+      ...job,
+      company: job.company?.display_name,
+      location: job.location?.display_name,
+      url: job.redirect_url,
+      employmentType: job.contract_type === 'contract' ? 'contract' : job.contract_time
+    })
+  },
+  {
+    id: 'reed',
+    name: 'Reed',
+    requiredEnv: ['REED_API_KEY'],
+    countries: ['gb'],
+    nativeFilters: ['location', 'radiusKm', 'country', 'salaryMin', 'employmentType'],
+    search: async ({ query, limit, filters, env, getJson }) => {
+      const params = new URLSearchParams({
+        keywords: query,
+        resultsToTake: String(limit)
+      })
+      if (filters.location) params.set('locationName', filters.location)
+      // Reed erwartet Meilen
+      if (filters.radiusKm) params.set('distanceFromLocation', String(Math.round(filters.radiusKm / 1.609)))
+      if (filters.salaryMin) params.set('minimumSalary', String(filters.salaryMin))
+      if (filters.employmentType === 'full_time') params.set('fullTime', 'true')
+      if (filters.employmentType === 'part_time') params.set('partTime', 'true')
+      if (filters.employmentType === 'contract') params.set('contract', 'true')
+      const authHeader = `Basic ${Buffer.from(`${env.REED_API_KEY}:`).toString('base64')}`
+      const payload = await getJson(`https://www.reed.co.uk/api/1.0/search?${params.toString()}`, {
+        headers: { Authorization: authHeader }
+      })
+      return Array.isArray(payload?.results) ? payload.results : []
+    },
+    normalize: (job) => normalizeJobItem('Reed', {
+      ...job,
+      company: job.employerName,
+      location: job.locationName,
+      url: job.jobUrl,
+      description: job.jobDescription,
+      salaryMin: job.minimumSalary,
+      salaryMax: job.maximumSalary
+    })
+  },
+  {
+    id: 'remoteok',
+    name: 'RemoteOK',
+    requiredEnv: [],
+    // Die API hat keine Suche, gefiltert wird lokal: jeder Suchbegriff muss
+    // in Titel, Firma, Tags oder Beschreibung vorkommen (Reihenfolge egal)
+    search: async ({ query, getJson }) => {
+      const payload = await getJson('https://remoteok.com/api', { headers: { 'User-Agent': 'JobAssistant/1.0' } })
+      const jobs = Array.isArray(payload) ? payload.filter((item) => item && item.id && item.position) : []
+      return jobs.filter(job => matchesQueryTerms(
+        query,
+        `${job.position} ${job.company} ${(job.tags || []).join(' ')} ${stripHtml(job.description)}`
+      ))
+    },
+    normalize: (job) => normalizeJobItem('RemoteOK', {
+      ...job,
+      title: job.position,
+      company: job.company,
+      url: job.url || job.apply_url,
+      description: job.description,
+      remote: true,
+      employmentType: (job.tags || []).join(' ')
+    })
+  },
+  {
+    id: 'feeds',
+    name: 'Feeds',
+    requiredEnv: [],
+    requiresFeeds: true,
+    // RSS/Atom/JSON-Feeds des Chats (siehe feeds.js), gefiltert wird wie bei RemoteOK lokal
+    search: async ({ query, feeds, getText }) => {
+      const items = await collectSettled(feeds.map(async (feed) => {
+        const parsed = parseFeed(await getText(feed.url))
+        return parsed.items.map(item => ({ ...item, feedTitle: feed.title || parsed.title }))
+      }))
+      return items.filter(item => matchesQueryTerms(
+          query,
+          `${item.title} ${item.company} ${item.feedTitle} ${item.categories.join(' ')} ${stripHtml(item.description)}`
+        ))
+    },
+    normalize: (job) => normalizeJobItem('Feed', {
+      ...job,
+      company: job.company || job.feedTitle,
+      date: job.published,
+      employmentType: job.categories.join(' ')
+    })
+  },
+  createAtsSource({
+    id: 'greenhouse',
+    name: 'Greenhouse',
+    fetchBoard: async ({ slug, getJson }) => {
+      const payload = await getJson(`https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(slug)}/jobs?content=true`)
+      return Array.isArray(payload?.jobs) ? payload.jobs : []
+    },
+    // content ist maskiertes HTML ("&lt;p&gt;We&amp;#39;re"), daher vor und nach stripHtml dekodieren
+    normalize: (job) => normalizeJobItem('Greenhouse', {
+      id: `${job.watchedCompany.slug}:${job.id}`,
+      title: job.title,
+      company: job.watchedCompany.name,
+      location: job.location?.name,
+      url: job.absolute_url,
+      description: decodeEntities(stripHtml(decodeEntities(job.content || ''))),
+      date: job.first_published || job.updated_at,
+      remote: /remote/i.test(job.location?.name || '') ? true : null
+    })
+  }),
+  createAtsSource({
+    id: 'lever',
+    name: 'Lever',
+    fetchBoard: async ({ slug, getJson }) => {
+      const payload = await getJson(`https://api.lever.co/v0/postings/${encodeURIComponent(slug)}?mode=json`)
+      return Array.isArray(payload) ? payload : []
+    },
+    normalize: (job) => normalizeJobItem('Lever', {
+      id: `${job.watchedCompany.slug}:${job.id}`,
+      title: job.text,
+      company: job.watchedCompany.name,
+      location: job.categories?.location,
+      url: job.hostedUrl,
+      description: [
+        job.descriptionPlain,
+        ...(job.lists || []).map(list => `${list.text}: ${stripHtml(list.content)}`),
+        job.additionalPlain
+      ].filter(Boolean).join('\n'),
+      date: job.createdAt,
+      remote: job.workplaceType ? job.workplaceType === 'remote' : null,
+      employmentType: job.categories?.commitment
+    })
+  }),
+  createAtsSource({
+    id: 'workable',
+    name: 'Workable',
+    fetchBoard: async ({ slug, getJson }) => {
+      const payload = await getJson(`https://apply.workable.com/api/v1/widget/accounts/${encodeURIComponent(slug)}?details=true`)
+      return Array.isArray(payload?.jobs) ? payload.jobs : []
+    },
+    normalize: (job) => normalizeJobItem('Workable', {
+      id: `${job.watchedCompany.slug}:${job.shortcode}`,
+      title: job.title,
+      company: job.watchedCompany.name,
+      location: [job.city, job.state, job.country].filter(Boolean).join(', ') || null,
+      url: job.url || job.shortlink || job.application_url,
+      description: job.description,
+      date: job.published_on || job.created_at,
+      remote: typeof job.telecommuting === 'boolean' ? job.telecommuting : null,
+      employmentType: job.employment_type
+    })
+  }),
+  createAtsSource({
+    id: 'personio',
+    name: 'Personio',
+    // Personio hat keine JSON-API, nur den XML-Export der Karriereseite
+    fetchBoard: async ({ slug, getText }) => {
+      const xml = await getText(`https://${encodeURIComponent(slug)}.jobs.personio.de/xml`)
+      return findXmlElements(xml, 'position').map(({ text }) => {
+        // <name> gibt es auch in jobDescription, der Stellentitel steht außerhalb
+        const head = text.replace(/<jobDescriptions>[\s\S]*?<\/jobDescriptions>/i, '')
+        return {
+          id: getXmlText(head, 'id'),
+          name: getXmlText(head, 'name'),
+          subcompany: getXmlText(head, 'subcompany'),
+          office: getXmlText(head, 'office'),
+          employmentType: getXmlText(head, 'employmentType'),
+          schedule: getXmlText(head, 'schedule'),
+          createdAt: getXmlText(head, 'createdAt'),
+          descriptions: findXmlElements(text, 'jobDescription').map(entry => ({
+            name: getXmlText(entry.text, 'name'),
+            value: getXmlText(entry.text, 'value')
+          }))
+        }
+      }).filter(position => position.id && position.name)
+    },
+    normalize: (job) => normalizeJobItem('Personio', {
+      id: `${job.watchedCompany.slug}:${job.id}`,
+      title: job.name,
+      company: job.subcompany || job.watchedCompany.name,
+      location: job.office || null,
+      url: `https://${job.watchedCompany.slug}.jobs.personio.de/job/${job.id}`,
+      description: job.descriptions.map(entry => `${entry.name}: ${decodeEntities(stripHtml(entry.value))}`).join('\n'),
+      date: job.createdAt,
+      employmentType: `${job.schedule} ${job.employmentType}`
+    })
+  })
+]
+
+const getMissingEnv = (source, env) => source.requiredEnv.filter(key => !env[key])
+
+/**
+ * Liste der Quellen für die UI
+ * configured = alle benötigten Env-Keys sind gesetzt
+ * countries = unterstützte Länder (null = nicht landesgebunden)
+ */
+export const listJobSources = (env = process.env) => JOB_SOURCES.map(source => ({
+  id: source.id,
+  name: source.name,
+  requiredEnv: source.requiredEnv,
+  countries: source.countries || null,
+  nativeFilters: source.nativeFilters || [],
+  configured: getMissingEnv(source, env).length === 0
+}))
+
+export const isKnownJobSource = (id) => JOB_SOURCES.some(source => source.id === id)
+
+/**
+ * Lädt alle offenen Stellen einer Firma aus der Watchlist (ohne Stichwortfilter)
+ * Wird beim Anlegen genutzt, um ATS-Typ und Slug zu prüfen
+ *
+ * @param company - { name, ats, slug }
+ * @returns JobSearchItems
+ */
+export const fetchCompanyJobs = async (company, { timeoutMs, fetchImpl }) => {
+  const source = JOB_SOURCES.find(entry => entry.ats === company.ats)
+  if (!source) {
+    throw new Error(`Unknown ATS ${company.ats}`)
+  }
+  const jobs = await source.fetchBoard({
+    slug: company.slug,
+    getJson: (url, options) => fetchJson(url, options, timeoutMs, fetchImpl),
+    getText: (url, options) => fetchText(url, options, timeoutMs, fetchImpl)
+  })
+  return jobs.map(job => source.normalize({ ...job, watchedCompany: company }))
+}
+
+// Landesnamen für den Nachfilter (Ortsangaben der Quellen sind Freitext)
+const COUNTRY_NAMES = {
+  at: ['austria', 'österreich'],
+  au: ['australia'],
+  be: ['belgium', 'belgien'],
+  ca: ['canada'],
+  ch: ['switzerland', 'schweiz'],
+  de: ['germany', 'deutschland'],
+  es: ['spain', 'españa', 'spanien'],
+  fr: ['france', 'frankreich'],
+  gb: ['united kingdom', 'uk', 'england', 'scotland', 'wales', 'london'],
+  it: ['italy', 'italia', 'italien'],
+  nl: ['netherlands', 'niederlande'],
+  pl: ['poland', 'polen'],
+  us: ['united states', 'usa', 'us']
+}
+
+export const JOB_FILTER_COUNTRIES = Object.keys(COUNTRY_NAMES)
+
+// Remote-Jobs ohne Landesbindung passen zu jedem Land
+const WORLDWIDE_PATTERN = /worldwide|anywhere|global|weltweit/i
+
+const detectCountries = (location) => {
+  const words = location.split(/[^\p{L}]+/u)
+  return JOB_FILTER_COUNTRIES.filter(code => COUNTRY_NAMES[code].some(name => (
+    name.includes(' ') ? location.includes(name) : words.includes(name)
+  )))
+}
+
+/**
+ * Bereinigt Filter aus Query-Parametern
+ * Unbekannte oder leere Werte fallen weg, damit der Cache-Key stabil bleibt
+ *
+ * @param raw - { location, radiusKm, country, remoteOnly, employmentType, postedWithinDays, salaryMin }
+ * @returns Objekt nur mit gesetzten Filtern
+ */
+export const normalizeJobFilters = (raw = {}) => {
+  const filters = {}
+  const location = sanitizeText(raw.location || '').trim().slice(0, 100)
+  if (location) filters.location = location
+
+  const radiusKm = Number.parseInt(raw.radiusKm, 10)
+  if (location && Number.isFinite(radiusKm) && radiusKm > 0) filters.radiusKm = Math.min(radiusKm, 500)
+
+  const country = String(raw.country || '').toLowerCase()
+  if (JOB_FILTER_COUNTRIES.includes(country)) filters.country = country
+
+  if (raw.remoteOnly === true || raw.remoteOnly === 'true' || raw.remoteOnly === '1') filters.remoteOnly = true
+
+  if (EMPLOYMENT_TYPES.includes(raw.employmentType)) filters.employmentType = raw.employmentType
+
+  const postedWithinDays = Number.parseInt(raw.postedWithinDays, 10)
+  if (Number.isFinite(postedWithinDays) && postedWithinDays > 0) filters.postedWithinDays = Math.min(postedWithinDays, 365)
+
+  const salaryMin = Number.parseInt(raw.salaryMin, 10)
+  if (Number.isFinite(salaryMin) && salaryMin > 0) filters.salaryMin = salaryMin
+
+  return filters
+}
+
+/**
+ * Nachfilter für Filter, die eine Quelle nicht nativ unterstützt
+ * Fehlt eine Angabe im Job (z.B. kein Gehalt), bleibt er in der Liste
+ */
+const matchesJobFilters = (item, filters, nativeFilters = []) => {
+  const isActive = (key) => filters[key] !== undefined && !nativeFilters.includes(key)
+  const location = (item.location || '').toLowerCase()
+
+  if (isActive('remoteOnly') && item.remote !== true) {
+    return false
+  }
+  if (isActive('location') && location && !location.includes(filters.location.toLowerCase())) {
+    return false
+  }
+  // Ortsangaben nennen oft nur die Stadt, daher nur Jobs mit anderem Land verwerfen
+  if (isActive('country') && location && !WORLDWIDE_PATTERN.test(location)) {
+    const countries = detectCountries(location)
+    if (countries.length > 0 && !countries.includes(filters.country)) {
+      return false
+    }
+  }
+  if (isActive('employmentType') && item.employmentType && item.employmentType !== filters.employmentType) {
+    return false
+  }
+  if (isActive('postedWithinDays') && item.createdAt) {
+    const ageMs = Date.now() - new Date(item.createdAt).getTime()
+    if (ageMs > filters.postedWithinDays * 24 * 60 * 60 * 1000) {
+      return false
+    }
+  }
+  if (isActive('salaryMin')) {
+    const salary = item.salaryMax ?? item.salaryMin
+    if (salary !== null && salary !== undefined && salary < filters.salaryMin) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Fragt die aktiven Quellen parallel ab
+ *
+ * @param query - Suchbegriff
+ * @param limit - Maximale Treffer pro Quelle
+ * @param options - { enabled: string[] | null (null = alle), filters, feeds, companies, timeoutMs, maxItems, snippetMaxChars, env, fetchImpl }
+ *   filters aus normalizeJobFilters(); Quellen ohne das gewählte Land werden übersprungen
+ *   feeds = registrierte Feeds des Chats [{ url, title }] für die Quelle "feeds"
+ *   companies = Watchlist des Chats [{ name, ats, slug }] für die ATS-Quellen
+ *   Kürzere Beschreibungen als snippetMaxChars gelten als Ausschnitt (descriptionType = 'snippet')
+ *   fetchImpl = Ersatz für fetch, z.B. guardedFetch aus urlpolicy.js
+ * @returns { items, payloads, sources: [{ id, name, status: 'ok' | 'failed' | 'skipped' | 'disabled', reason?, latencyMs, itemCount }] }
+ *   payloads = Map("source:id" -> Originalobjekt der API), nur für den Server; items enthalten kein raw
+ */
+export const searchJobSources = async (query, limit, {
+  enabled = null,
+  filters = {},
+  feeds = [],
+  companies = [],
+  timeoutMs,
+  maxItems,
+  snippetMaxChars = 500,
+  env = process.env,
+  fetchImpl = fetch
+} = {}) => {
+  const perSourceLimit = Math.max(1, Math.min(limit, 50))
+  const getJson = (url, options) => fetchJson(url, options, timeoutMs, fetchImpl)
+  const getText = (url, options) => fetchText(url, options, timeoutMs, fetchImpl)
+
+  const results = await Promise.all(JOB_SOURCES.map(async (source) => {
+    const base = { id: source.id, name: source.name }
+
+    if (enabled && !enabled.includes(source.id)) {
+      return { ...base, status: 'disabled', latencyMs: 0, itemCount: 0, items: [] }
+    }
+    const missingEnv = getMissingEnv(source, env)
+    if (missingEnv.length > 0) {
+      return {
+        ...base,
+        status: 'skipped',
+        reason: `Missing ${missingEnv.join(', ')}`,
+        latencyMs: 0,
+        itemCount: 0,
+        items: []
+      }
+    }
+    if (source.requiresFeeds && feeds.length === 0) {
+      return { ...base, status: 'skipped', reason: 'No feeds registered', latencyMs: 0, itemCount: 0, items: [] }
+    }
+    if (source.ats && !companies.some(company => company.ats === source.ats)) {
+      return { ...base, status: 'skipped', reason: 'No watched companies', latencyMs: 0, itemCount: 0, items: [] }
+    }
+    if (filters.country && source.countries && !source.countries.includes(filters.country)) {
+      return {
+        ...base,
+        status: 'skipped',
+        reason: `Not available for country ${filters.country.toUpperCase()}`,
+        latencyMs: 0,
+        itemCount: 0,
+        items: []
+      }
+    }
+
+    const startedAt = Date.now()
+    try {
+      const jobs = await source.search({ query, limit: perSourceLimit, filters, env, getJson, getText, feeds, companies })
+      // raw = Originalobjekt der API, wird unten in payloads abgetrennt
+      const items = jobs
+        .map(job => ({ ...source.normalize(job), raw: job }))
+        .filter(item => matchesJobFilters(item, filters, source.nativeFilters))
+        .slice(0, perSourceLimit)
+      return { ...base, status: 'ok', latencyMs: Date.now() - startedAt, itemCount: items.length, items }
+    } catch (error) {
+      return {
+        ...base,
+        status: 'failed',
+        // Netzwerkfehler von fetch stecken in error.cause (z.B. ENOTFOUND)
+        reason: error.cause?.code ? `${error.message} (${error.cause.code})` : error.message,
+        latencyMs: Date.now() - startedAt,
+        itemCount: 0,
+        items: []
+      }
+    }
+  }))
+
+  // Vendor-Payloads gehen weder an den Browser noch in den Job-Cache
+  const payloads = new Map()
+  const items = dedupeJobs(results.flatMap(result => result.items))
+    .slice(0, maxItems)
+    .map(({ raw, ...item }) => {
+      payloads.set(`${item.source}:${item.id}`, raw)
+      return {
+        ...item,
+        descriptionType: item.description.length < snippetMaxChars ? 'snippet' : 'full'
+      }
+    })
+
+  return {
+    items,
+    payloads,
+    sources: results.map(({ id, name, status, reason, latencyMs, itemCount }) => ({
+      id,
+      name,
+      status,
+      reason,
+      latencyMs,
+      itemCount
+    }))
+  }
+}
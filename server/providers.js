@@ -0,0 +1,703 @@
+/**
+ * providers.js - Einheitliche Adapter-Schicht für alle KI-Provider
+ *
+ * Nimmt einen AiServiceRequest (messages, temperature, maxTokens, topP,
+ * frequencyPenalty, presencePenalty) entgegen, übersetzt ihn in das Format
+ * des jeweiligen Anbieters und liefert eine normalisierte AiServiceResponse
+ * mit Token-Verbrauch und finishReason zurück.
+ */
+
+import { estimateTokens } from './retrieval.js'
+
+export const DEFAULT_MAX_TOKENS = 1000
+const DEFAULT_TEMPERATURE = 0.7
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434'
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const LOCAL_STREAM_DELAY_MS = 30
+const LOCAL_PROVIDER = 'local'
+
+// Standardwerte für Timeout und Retries, überschreibbar per options
+const DEFAULT_RETRY_OPTIONS = {
+  timeoutMs: 60000,
+  maxRetries: 2,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 30000
+}
+
+// 529 = Anthropic "overloaded"
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504, 529])
+
+// Provider-spezifische Abbruchgründe -> 'stop' | 'length' | 'content_filter'
+const FINISH_REASONS = {
+  openai: { stop: 'stop', length: 'length', content_filter: 'content_filter' },
+  claude: { end_turn: 'stop', stop_sequence: 'stop', max_tokens: 'length', refusal: 'content_filter' },
+  gemini: {
+    STOP: 'stop',
+    MAX_TOKENS: 'length',
+    SAFETY: 'content_filter',
+    RECITATION: 'content_filter',
+    BLOCKLIST: 'content_filter',
+    PROHIBITED_CONTENT: 'content_filter',
+    SPII: 'content_filter'
+  },
+  ollama: { stop: 'stop', length: 'length' }
+}
+
+const toNumber = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+// Entfernt undefined-Felder, damit Anbieter ihre eigenen Defaults verwenden
+const compact = (object) => Object.fromEntries(
+  Object.entries(object).filter(([, value]) => value !== undefined)
+)
+
+/**
+ * Übernimmt nur gültige Header-Namen mit String-Werten
+ * (eigene Header für OpenAI-kompatible Server, z.B. Routing oder Proxy-Auth)
+ */
+export const normalizeHeaders = (headers) => {
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+    return {}
+  }
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name, value]) => /^[A-Za-z0-9-]+$/.test(name) && typeof value === 'string')
+  )
+}
+
+const mapFinishReason = (provider, reason) => FINISH_REASONS[provider]?.[reason] || 'stop'
+
+const splitSystemMessages = (messages) => ({
+  system: messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n'),
+  conversation: messages.filter(m => m.role !== 'system')
+})
+
+/**
+ * Baut einen AiServiceRequest aus dem Request-Body
+ * Fehlende Werte fallen auf die Standardwerte zurück
+ *
+ * @param body - Request-Body von /api/ai/chat bzw. /api/ai/chat/stream
+ * @param messages - Prompt-Nachrichten (inkl. Datei- und Retrieval-Kontext)
+ */
+export const buildAiRequest = (body, messages) => ({
+  messages,
+  temperature: toNumber(body.temperature) ?? DEFAULT_TEMPERATURE,
+  maxTokens: toNumber(body.maxTokens) ?? DEFAULT_MAX_TOKENS,
+  topP: toNumber(body.topP),
+  frequencyPenalty: toNumber(body.frequencyPenalty),
+  presencePenalty: toNumber(body.presencePenalty)
+})
+
+/**
+ * Liest einen zeilenbasierten Response-Body (SSE oder NDJSON)
+ * und ruft onLine für jede nicht-leere Zeile auf
+ */
+const readStreamLines = async (body, onLine) => {
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop()
+    for (const line of lines) {
+      if (line.trim()) {
+        onLine(line.trim())
+      }
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) {
+    onLine(buffer.trim())
+  }
+}
+
+/**
+ * Extrahiert das JSON-Payload einer SSE "data:" Zeile
+ */
+const parseSseData = (line) => {
+  if (!line.startsWith('data:')) {
+    return null
+  }
+  const data = line.slice(5).trim()
+  if (!data || data === '[DONE]') {
+    return null
+  }
+  try {
+    return JSON.parse(data)
+  } catch {
+    return null
+  }
+}
+
+const parseJsonLine = (line) => {
+  try {
+    return JSON.parse(line)
+  } catch {
+    // Unvollständige Zeilen ignorieren
+    return null
+  }
+}
+
+/**
+ * Liest Retry-After als Sekunden oder HTTP-Datum
+ * @returns Wartezeit in ms oder undefined
+ */
+const parseRetryAfter = (value) => {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+const readError = async (response, label) => {
+  const payload = await response.json().catch(() => null)
+  const message = typeof payload?.error === 'string' ? payload.error : payload?.error?.message
+  const error = new Error(message || `${label} error: ${response.status}`)
+  error.status = response.status
+  error.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+  return error
+}
+
+// Wartet, bricht aber sofort ab, wenn der Client abbricht
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason)
+    return
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(signal.reason)
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+/**
+ * Wartezeit vor dem nächsten Versuch: Retry-After des Providers,
+ * sonst exponentielles Backoff mit Jitter
+ */
+const getRetryDelay = (error, attempt, options) => {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs
+  }
+  const exponential = options.retryBaseDelayMs * 2 ** attempt
+  return Math.min(options.retryMaxDelayMs, exponential + Math.random() * options.retryBaseDelayMs)
+}
+
+const fetchListing = async (url, headers, label, signal) => {
+  const response = await fetch(url, { headers, signal })
+  if (!response.ok) {
+    throw await readError(response, label)
+  }
+  return response.json()
+}
+
+// Unix-Sekunden oder Datumsstring -> ISO Timestamp
+const toIsoDate = (value) => {
+  if (!value) {
+    return undefined
+  }
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Baut einen AiModelInfo-Eintrag, unbekannte Felder bleiben weg
+ */
+const buildModelInfo = (provider, { modelId, name, maxTokens, released, deprecated }) => compact({
+  provider,
+  modelId,
+  name: name || modelId,
+  maxTokens: toNumber(maxTokens),
+  released: toIsoDate(released),
+  deprecated: toIsoDate(deprecated)
+})
+
+// Chat-Modelle von OpenAI (ohne Embeddings, Audio, Bild- und Moderationsmodelle)
+const OPENAI_CHAT_MODEL = /^(gpt-|o\d|chatgpt-)/
+const OPENAI_NON_CHAT_MODEL = /(audio|realtime|tts|transcribe|image|embedding|search|moderation|instruct)/
+// Reasoning-Modelle (o1, o3, o4-mini ...) lehnen max_tokens und Sampling-Parameter ab
+const OPENAI_REASONING_MODEL = /^o\d/
+
+// ===== ADAPTER =====
+
+/**
+ * Adapter für die Chat Completions API (OpenAI und kompatible Server)
+ * Kompatible Server (LM Studio, vLLM, llama.cpp) brauchen eine Basis-URL,
+ * optional einen Key und eigene Header
+ * Für Reasoning-Modelle geht das Limit als max_completion_tokens raus,
+ * temperature, top_p und penalties entfallen
+ */
+const createChatCompletionsAdapter = (label, getBaseUrl, isChatModel = () => true, isReasoningModel = () => false) => ({
+  label,
+  buildRequest: (config, request, stream) => {
+    const reasoning = isReasoningModel(String(config.model || ''))
+    return {
+      url: `${getBaseUrl(config).replace(/\/+$/, '')}/chat/completions`,
+      headers: compact({
+        'Content-Type': 'application/json',
+        ...config.headers,
+        'Authorization': config.apiKey ? `Bearer ${config.apiKey}` : undefined
+      }),
+      body: compact({
+        model: config.model,
+        messages: request.messages,
+        temperature: reasoning ? undefined : request.temperature,
+        max_tokens: reasoning ? undefined : request.maxTokens,
+        max_completion_tokens: reasoning ? request.maxTokens : undefined,
+        top_p: reasoning ? undefined : request.topP,
+        frequency_penalty: reasoning ? undefined : request.frequencyPenalty,
+        presence_penalty: reasoning ? undefined : request.presencePenalty,
+        stream: stream || undefined,
+        // Usage kommt beim Streaming nur mit include_usage im letzten Chunk
+        stream_options: stream ? { include_usage: true } : undefined
+      })
+    }
+  },
+  parseResponse: (data) => ({
+    content: data.choices?.[0]?.message?.content || '',
+    usage: {
+      prompt: data.usage?.prompt_tokens,
+      completion: data.usage?.completion_tokens
+    },
+    finishReason: mapFinishReason('openai', data.choices?.[0]?.finish_reason)
+  }),
+  parseStreamLine: (line, state) => {
+    const payload = parseSseData(line)
+    const choice = payload?.choices?.[0]
+    if (choice?.finish_reason) {
+      state.finishReason = mapFinishReason('openai', choice.finish_reason)
+    }
+    if (payload?.usage) {
+      state.usage = {
+        prompt: payload.usage.prompt_tokens,
+        completion: payload.usage.completion_tokens
+      }
+    }
+    return choice?.delta?.content
+  },
+  // vLLM liefert max_model_len, llama.cpp meta.n_ctx_train
+  listModels: async (config, signal) => {
+    const data = await fetchListing(
+      `${getBaseUrl(config).replace(/\/+$/, '')}/models`,
+      compact({ ...config.headers, 'Authorization': config.apiKey ? `Bearer ${config.apiKey}` : undefined }),
+      label,
+      signal
+    )
+    return (data.data || [])
+      .filter(model => isChatModel(model.id))
+      .map(model => buildModelInfo(config.provider, {
+        modelId: model.id,
+        maxTokens: model.max_model_len ?? model.context_length ?? model.meta?.n_ctx_train,
+        released: model.created,
+        deprecated: model.deprecated
+      }))
+  }
+})
+
+/**
+ * Jeder Adapter beschreibt:
+ * - buildRequest: AiServiceRequest -> { url, headers, body } im Anbieter-Format
+ * - parseResponse: Antwort ohne Streaming -> { content, usage, finishReason }
+ * - parseStreamLine: eine Stream-Zeile -> Token (Usage/finishReason landen in state)
+ */
+const adapters = {
+  openai: createChatCompletionsAdapter(
+    'OpenAI API',
+    () => OPENAI_BASE_URL,
+    modelId => OPENAI_CHAT_MODEL.test(modelId) && !OPENAI_NON_CHAT_MODEL.test(modelId),
+    modelId => OPENAI_REASONING_MODEL.test(modelId)
+  ),
+
+  'openai-compatible': createChatCompletionsAdapter('OpenAI-compatible API', config => config.apiUrl),
+
+  claude: {
+    label: 'Claude API',
+    buildRequest: ({ apiKey, model }, request, stream) => {
+      const { system, conversation } = splitSystemMessages(request.messages)
+      return {
+        url: 'https://api.anthropic.com/v1/messages',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        // Claude kennt keine frequency/presence penalties
+        body: compact({
+          model,
+          max_tokens: request.maxTokens,
+          system: system || undefined,
+          messages: conversation.map(m => ({
+            role: m.role === 'assistant' ? 'assistant' : 'user',
+            content: m.content
+          })),
+          temperature: request.temperature,
+          top_p: request.topP,
+          stream: stream || undefined
+        })
+      }
+    },
+    parseResponse: (data) => ({
+      content: (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join(''),
+      usage: {
+        prompt: data.usage?.input_tokens,
+        completion: data.usage?.output_tokens
+      },
+      finishReason: mapFinishReason('claude', data.stop_reason)
+    }),
+    parseStreamLine: (line, state) => {
+      const payload = parseSseData(line)
+      if (payload?.type === 'message_start') {
+        state.usage.prompt = payload.message?.usage?.input_tokens
+      } else if (payload?.type === 'message_delta') {
+        state.usage.completion = payload.usage?.output_tokens
+        state.finishReason = mapFinishReason('claude', payload.delta?.stop_reason)
+      } else if (payload?.type === 'content_block_delta') {
+        return payload.delta?.text
+      }
+      return null
+    },
+    listModels: async ({ apiKey }, signal) => {
+      const data = await fetchListing(
+        'https://api.anthropic.com/v1/models?limit=100',
+        { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        'Claude API',
+        signal
+      )
+      return (data.data || []).map(model => buildModelInfo('claude', {
+        modelId: model.id,
+        name: model.display_name,
+        maxTokens: model.max_input_tokens,
+        released: model.created_at
+      }))
+    }
+  },
+
+  gemini: {
+    label: 'Gemini API',
+    buildRequest: ({ apiKey, model }, request, stream) => {
+      const { system, conversation } = splitSystemMessages(request.messages)
+      const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?'
+      return {
+        url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}key=${apiKey}`,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: compact({
+          systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+          contents: conversation.map(m => ({
+            role: m.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: m.content }]
+          })),
+          generationConfig: compact({
+            temperature: request.temperature,
+            maxOutputTokens: request.maxTokens,
+            topP: request.topP,
+            frequencyPenalty: request.frequencyPenalty,
+            presencePenalty: request.presencePenalty
+          })
+        })
+      }
+    },
+    parseResponse: (data) => ({
+      content: (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join(''),
+      usage: {
+        prompt: data.usageMetadata?.promptTokenCount,
+        completion: data.usageMetadata?.candidatesTokenCount
+      },
+      finishReason: mapFinishReason('gemini', data.candidates?.[0]?.finishReason)
+    }),
+    parseStreamLine: (line, state) => {
+      const payload = parseSseData(line)
+      const candidate = payload?.candidates?.[0]
+      if (candidate?.finishReason) {
+        state.finishReason = mapFinishReason('gemini', candidate.finishReason)
+      }
+      // usageMetadata ist kumulativ, der letzte Chunk enthält die Summe
+      if (payload?.usageMetadata) {
+        state.usage = {
+          prompt: payload.usageMetadata.promptTokenCount,
+          completion: payload.usageMetadata.candidatesTokenCount
+        }
+      }
+      return (candidate?.content?.parts || []).map(part => part.text || '').join('')
+    },
+    // Nur Modelle, die generateContent unterstützen (keine Embedding-Modelle)
+    listModels: async ({ apiKey }, signal) => {
+      const data = await fetchListing(
+        `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&key=${apiKey}`,
+        {},
+        'Gemini API',
+        signal
+      )
+      return (data.models || [])
+        .filter(model => (model.supportedGenerationMethods || []).includes('generateContent'))
+        .map(model => buildModelInfo('gemini', {
+          modelId: model.name.replace(/^models\//, ''),
+          name: model.displayName,
+          maxTokens: model.inputTokenLimit
+        }))
+    }
+  },
+
+  ollama: {
+    label: 'Ollama',
+    buildRequest: ({ apiUrl, model }, request, stream) => ({
+      url: `${apiUrl || DEFAULT_OLLAMA_URL}/api/chat`,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model,
+        messages: request.messages,
+        stream,
+        options: compact({
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+          top_p: request.topP,
+          frequency_penalty: request.frequencyPenalty,
+          presence_penalty: request.presencePenalty
+        })
+      }
+    }),
+    parseResponse: (data) => ({
+      content: data.message?.content || '',
+      usage: {
+        prompt: data.prompt_eval_count,
+        completion: data.eval_count
+      },
+      finishReason: mapFinishReason('ollama', data.done_reason)
+    }),
+    // NDJSON, eine JSON-Zeile pro Token-Chunk, die letzte Zeile enthält die Zähler
+    parseStreamLine: (line, state) => {
+      const payload = parseJsonLine(line)
+      if (payload?.done) {
+        state.usage = {
+          prompt: payload.prompt_eval_count,
+          completion: payload.eval_count
+        }
+        state.finishReason = mapFinishReason('ollama', payload.done_reason)
+      }
+      return payload?.message?.content
+    },
+    // Context-Größe steht nur in /api/show (model_info["<arch>.context_length"])
+    listModels: async ({ apiUrl }, signal) => {
+      const baseUrl = apiUrl || DEFAULT_OLLAMA_URL
+      const data = await fetchListing(`${baseUrl}/api/tags`, {}, 'Ollama', signal)
+
+      return Promise.all((data.models || []).map(async (model) => {
+        let maxTokens
+        try {
+          const response = await fetch(`${baseUrl}/api/show`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: model.name }),
+            signal
+          })
+          const details = response.ok ? await response.json() : null
+          const contextKey = Object.keys(details?.model_info || {}).find(key => key.endsWith('.context_length'))
+          maxTokens = contextKey ? details.model_info[contextKey] : undefined
+        } catch {
+          maxTokens = undefined
+        }
+        return buildModelInfo('ollama', {
+          modelId: model.name,
+          maxTokens,
+          released: model.modified_at
+        })
+      }))
+    }
+  }
+}
+
+/**
+ * Local Echo Service (für Demo/Testing ohne Netzwerk)
+ */
+const buildLocalReply = (messages) => {
+  const lastMessage = messages[messages.length - 1]?.content || ''
+  return `[LOCAL RESPONSE] You said: ${lastMessage}`
+}
+
+export const isSupportedProvider = (provider) => provider === LOCAL_PROVIDER || Boolean(adapters[provider])
+
+/**
+ * Fragt die verfügbaren Modelle beim Provider ab
+ *
+ * @param config - { provider, apiKey, apiUrl, headers }
+ * @returns AiModelInfo[] (maxTokens, released, deprecated nur wenn der Provider sie liefert)
+ */
+export const listProviderModels = async (config, signal) => {
+  if (config.provider === LOCAL_PROVIDER) {
+    return [buildModelInfo(LOCAL_PROVIDER, { modelId: 'echo', name: 'Echo' })]
+  }
+  return adapters[config.provider].listModels(config, signal)
+}
+
+/**
+ * Ergänzt fehlende Token-Zahlen durch eine Schätzung
+ * (z.B. Local Echo oder abgebrochene Streams ohne Usage-Chunk)
+ */
+const normalizeUsage = (usage, messages, content) => {
+  const prompt = toNumber(usage?.prompt) ?? estimateTokens(messages.map(m => m.content).join('\n'))
+  const completion = toNumber(usage?.completion) ?? estimateTokens(content)
+  return { prompt, completion, total: prompt + completion }
+}
+
+const buildResponse = (config, request, { content, usage, finishReason }) => ({
+  content,
+  provider: config.provider,
+  model: config.model,
+  tokens: normalizeUsage(usage, request.messages, content),
+  finishReason: finishReason || 'stop',
+  generatedAt: new Date().toISOString()
+})
+
+/**
+ * Ein einzelner Versuch mit Timeout
+ * Der Timeout gilt bis zum Eintreffen der Antwort-Header (bei Streaming also nur
+ * bis zum Start des Streams), danach bricht nur noch das externe Signal ab
+ */
+const fetchWithTimeout = async (url, init, signal, timeoutMs, label) => {
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(signal.reason)
+  signal?.addEventListener('abort', onAbort, { once: true })
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      const timeoutError = new Error(`${label} did not respond within ${timeoutMs} ms`)
+      timeoutError.code = 'TIMEOUT'
+      throw timeoutError
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Sendet den Request, wiederholt bei 429 und 5xx mit Backoff
+ * Ist Retry-After länger als retryMaxDelayMs, wird nicht gewartet,
+ * damit ein Fallback-Provider übernehmen kann
+ */
+const sendProviderRequest = async (config, request, stream, signal, options) => {
+  const adapter = adapters[config.provider]
+  const { url, headers, body } = adapter.buildRequest(config, request, stream)
+  const init = { method: 'POST', headers, body: JSON.stringify(body) }
+
+  for (let attempt = 0; ; attempt += 1) {
+    const response = await fetchWithTimeout(url, init, signal, options.timeoutMs, adapter.label)
+    if (response.ok) {
+      return response
+    }
+
+    const error = await readError(response, adapter.label)
+    error.attempts = attempt + 1
+    if (!RETRYABLE_STATUS.has(error.status) || attempt >= options.maxRetries) {
+      throw error
+    }
+    const delay = getRetryDelay(error, attempt, options)
+    if (delay > options.retryMaxDelayMs) {
+      throw error
+    }
+    await sleep(delay, signal)
+  }
+}
+
+/**
+ * Schickt einen AiServiceRequest an den Provider (ohne Streaming)
+ *
+ * @param config - { provider, apiKey, apiUrl, model }
+ * @param request - AiServiceRequest aus buildAiRequest()
+ * @param options - { timeoutMs, maxRetries, retryBaseDelayMs, retryMaxDelayMs }
+ * @returns AiServiceResponse inkl. tokens, finishReason und generatedAt
+ */
+export const callProvider = async (config, request, signal, options = {}) => {
+  if (config.provider === LOCAL_PROVIDER) {
+    return buildResponse(config, request, { content: buildLocalReply(request.messages) })
+  }
+
+  const response = await sendProviderRequest(
+    config,
+    request,
+    false,
+    signal,
+    { ...DEFAULT_RETRY_OPTIONS, ...compact(options) }
+  )
+  const data = await response.json()
+  return buildResponse(config, request, adapters[config.provider].parseResponse(data))
+}
+
+/**
+ * Wie callProvider, ruft aber onToken für jedes eintreffende Text-Stück auf
+ * Local Echo gibt die Antwort wortweise mit kurzer Verzögerung aus
+ * Retries gibt es nur bis zum Start des Streams
+ * Bricht der Stream danach ab, trägt der Fehler den bisherigen Stand als
+ * error.partialResponse, damit die verbrauchten Tokens protokolliert werden können
+ *
+ * @returns AiServiceResponse mit dem vollständigen Text
+ */
+export const streamProvider = async (config, request, onToken, signal, options = {}) => {
+  let content = ''
+  const emit = (token) => {
+    if (token) {
+      content += token
+      onToken(token)
+    }
+  }
+
+  if (config.provider === LOCAL_PROVIDER) {
+    const tokens = buildLocalReply(request.messages).match(/\S+\s*/g) || []
+    for (const token of tokens) {
+      if (signal?.aborted) {
+        break
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCAL_STREAM_DELAY_MS))
+      emit(token)
+    }
+    return buildResponse(config, request, { content })
+  }
+
+  const adapter = adapters[config.provider]
+  const response = await sendProviderRequest(
+    config,
+    request,
+    true,
+    signal,
+    { ...DEFAULT_RETRY_OPTIONS, ...compact(options) }
+  )
+  const state = { usage: {}, finishReason: 'stop' }
+
+  try {
+    await readStreamLines(response.body, (line) => {
+      emit(adapter.parseStreamLine(line, state))
+    })
+  } catch (error) {
+    error.partialResponse = buildResponse(config, request, { content, usage: state.usage, finishReason: state.finishReason })
+    throw error
+  }
+
+  return buildResponse(config, request, { content, usage: state.usage, finishReason: state.finishReason })
+}
@@ -0,0 +1,337 @@
+/**
+ * readability.js - Hauptinhalt einer Seite als Markdown
+ *
+ * Ein kleiner HTML-Parser baut einen Baum, Navigation, Cookie-Banner,
+ * Footer usw. fallen weg. Der Hauptteil ist <main>/<article> oder der
+ * Block mit der höchsten Absatz-Wertung (wie bei Readability).
+ * Überschriften, Listen, Absätze und Tabellen bleiben als Markdown erhalten.
+ */
+
+import { decodeEntities } from './xml.js'
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+
+// Diese Tags schließen ein offenes Element gleichen Namens (<li>a<li>b)
+const SELF_CLOSING_SIBLINGS = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'option'])
+
+const SKIPPED_TAGS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'canvas',
+  'nav', 'header', 'footer', 'aside', 'form', 'button', 'select', 'textarea', 'dialog'
+])
+
+const BOILERPLATE_PATTERN = /cookie|consent|gdpr|banner|navbar|navigation|menu|footer|header|sidebar|breadcrumb|share|social|newsletter|popup|modal|related|comment|advert|promo/i
+// Klassen wie "main-content sidebar-layout" bleiben trotz Treffer oben erhalten
+const CONTENT_PATTERN = /article|body|content|entry|main|post|text|story|job|posting|description/i
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alert', 'search'])
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figure', 'figcaption',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+])
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>|[^<]+|</g
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+const parseAttributes = (source) => Object.fromEntries(
+  Array.from((source || '').matchAll(ATTRIBUTE_PATTERN), (match) => [
+    match[1].toLowerCase(),
+    decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  ])
+)
+
+/**
+ * Baut einen toleranten DOM-Baum: { tag, attributes, children, parent } bzw. { text }
+ * Fehlende End-Tags werden beim nächsten passenden End-Tag oder am Ende geschlossen
+ */
+const parseHtml = (html) => {
+  const source = html
+    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+  const root = { tag: 'root', attributes: {}, children: [], parent: null }
+  const stack = [root]
+
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    const [token, closingTag, openingTag, attributes] = match
+    const current = stack[stack.length - 1]
+
+    if (closingTag) {
+      const tag = closingTag.toLowerCase()
+      const index = stack.findLastIndex(node => node.tag === tag)
+      if (index > 0) {
+        stack.length = index
+      }
+    } else if (openingTag) {
+      const tag = openingTag.toLowerCase()
+      if (SELF_CLOSING_SIBLINGS.has(tag) && current.tag === tag) {
+        stack.pop()
+      }
+      const parent = stack[stack.length - 1]
+      const node = { tag, attributes: parseAttributes(attributes), children: [], parent }
+      parent.children.push(node)
+      if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) {
+        stack.push(node)
+      }
+    } else if (!token.startsWith('<!')) {
+      current.children.push({ text: decodeEntities(token) })
+    }
+  }
+  return root
+}
+
+const isBoilerplate = (node) => {
+  if (SKIPPED_TAGS.has(node.tag)) {
+    return true
+  }
+  const { attributes } = node
+  if ('hidden' in attributes || attributes['aria-hidden'] === 'true' || BOILERPLATE_ROLES.has(attributes.role)) {
+    return true
+  }
+  // Hauptcontainer nie wegen ihrer Klasse verwerfen
+  if (['html', 'body', 'main', 'article'].includes(node.tag) || attributes.role === 'main') {
+    return false
+  }
+  const names = `${attributes.id || ''} ${attributes.class || ''}`
+  return BOILERPLATE_PATTERN.test(names) && !CONTENT_PATTERN.test(names)
+}
+
+const removeBoilerplate = (node) => {
+  node.children = node.children.filter(child => child.text !== undefined || !isBoilerplate(child))
+  node.children.forEach(child => child.children && removeBoilerplate(child))
+  return node
+}
+
+const getText = (node) => (
+  node.text !== undefined ? node.text : node.children.map(getText).join(' ')
+)
+
+const getTextLength = (node) => getText(node).replace(/\s+/g, ' ').trim().length
+
+const walk = (node, visit) => {
+  if (!node.children) {
+    return
+  }
+  visit(node)
+  node.children.forEach(child => walk(child, visit))
+}
+
+const findFirst = (root, predicate) => {
+  let found = null
+  walk(root, (node) => {
+    if (!found && predicate(node)) {
+      found = node
+    }
+  })
+  return found
+}
+
+const getLinkDensity = (node) => {
+  const length = getTextLength(node)
+  if (length === 0) {
+    return 0
+  }
+  let linkLength = 0
+  walk(node, (child) => {
+    if (child.tag === 'a') {
+      linkLength += getTextLength(child)
+    }
+  })
+  return Math.min(1, linkLength / length)
+}
+
+/**
+ * Wertet Absätze aus und vererbt die Punkte an bis zu drei Vorfahren
+ * @returns Element mit der höchsten Wertung (abzüglich Link-Anteil) oder null
+ */
+const findBestCandidate = (root) => {
+  const scores = new Map()
+  walk(root, (node) => {
+    if (!['p', 'pre', 'li', 'td', 'blockquote', 'dd'].includes(node.tag)) {
+      return
+    }
+    const text = getText(node).replace(/\s+/g, ' ').trim()
+    if (text.length < 25) {
+      return
+    }
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3)
+    let ancestor = node.parent
+    for (let level = 0; ancestor && ancestor.tag !== 'root' && level < 3; level += 1) {
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3
+      scores.set(ancestor, (scores.get(ancestor) || 0) + score / divider)
+      ancestor = ancestor.parent
+    }
+  })
+
+  let best = null
+  let bestScore = 0
+  for (const [node, score] of scores) {
+    const finalScore = score * (1 - getLinkDensity(node))
+    if (finalScore > bestScore) {
+      best = node
+      bestScore = finalScore
+    }
+  }
+  return best
+}
+
+/**
+ * Sucht den Hauptteil: JobPosting-Microdata, <main>, <article>, role="main",
+ * sonst den Block mit der höchsten Absatz-Wertung, zuletzt <body>
+ */
+const findMainContent = (root) => {
+  const MIN_LENGTH = 200
+  const semantic = findFirst(root, node => /schema\.org\/JobPosting/i.test(node.attributes.itemtype || ''))
+    || findFirst(root, node => node.tag === 'main' || node.attributes.role === 'main')
+    || findFirst(root, node => node.tag === 'article')
+  if (semantic && getTextLength(semantic) >= MIN_LENGTH) {
+    return semantic
+  }
+  const candidate = findBestCandidate(root)
+  if (candidate && getTextLength(candidate) >= MIN_LENGTH) {
+    return candidate
+  }
+  return findFirst(root, node => node.tag === 'body') || root
+}
+
+const collapse = (text) => text.replace(/\s+/g, ' ')
+
+// Markierung innen, umgebende Leerzeichen bleiben außen ("a<b> b</b>" → "a **b**")
+const wrapInline = (inner, marker) => {
+  const text = inner.trim()
+  if (!text) {
+    return inner
+  }
+  return `${/^\s/.test(inner) ? ' ' : ''}${marker}${text}${marker}${/\s$/.test(inner) ? ' ' : ''}`
+}
+
+const renderInline = (node) => {
+  if (node.text !== undefined) {
+    return collapse(node.text)
+  }
+  const inner = node.children.map(renderInline).join('')
+  switch (node.tag) {
+    case 'br':
+      return '\n'
+    case 'img':
+      return ''
+    case 'strong':
+    case 'b':
+      return wrapInline(inner, '**')
+    case 'em':
+    case 'i':
+      return wrapInline(inner, '_')
+    case 'code':
+      return wrapInline(inner, '`')
+    default:
+      return BLOCK_TAGS.has(node.tag) ? ` ${inner} ` : inner
+  }
+}
+
+const cleanLine = (text) => text
+  .split('\n')
+  .map(line => line.replace(/[ \t]+/g, ' ').trim())
+  .filter(Boolean)
+  .join('\n')
+
+const prefixLines = (text, first, rest) => text
+  .split('\n')
+  .map((line, index) => `${index === 0 ? first : rest}${line}`)
+  .join('\n')
+
+/**
+ * Wandelt einen Teilbaum in Markdown-Blöcke um
+ * Reiner Text zwischen Blöcken wird zu eigenen Absätzen zusammengefasst
+ */
+const renderBlocks = (node) => {
+  const blocks = []
+  let inline = []
+
+  const flush = () => {
+    const text = cleanLine(inline.join(''))
+    if (text) {
+      blocks.push(text)
+    }
+    inline = []
+  }
+
+  for (const child of node.children) {
+    if (child.text !== undefined || !BLOCK_TAGS.has(child.tag)) {
+      inline.push(renderInline(child))
+      continue
+    }
+    flush()
+    const block = renderBlock(child)
+    if (block) {
+      blocks.push(block)
+    }
+  }
+  flush()
+  return blocks
+}
+
+const renderBlock = (node) => {
+  const heading = node.tag.match(/^h([1-6])$/)
+  if (heading) {
+    const text = cleanLine(renderInline(node)).replace(/\n/g, ' ')
+    return text ? `${'#'.repeat(Number(heading[1]))} ${text}` : ''
+  }
+
+  switch (node.tag) {
+    case 'hr':
+      return '---'
+    case 'pre': {
+      const text = getText(node).replace(/^\n+|\s+$/g, '')
+      return text ? `\`\`\`\n${text}\n\`\`\`` : ''
+    }
+    case 'ul':
+    case 'ol': {
+      const items = node.children.filter(child => child.tag === 'li')
+      return items
+        .map((item, index) => {
+          const marker = node.tag === 'ol' ? `${index + 1}. ` : '- '
+          const text = renderBlocks(item).join('\n')
+          return text ? prefixLines(text, marker, ' '.repeat(marker.length)) : ''
+        })
+        .filter(Boolean)
+        .join('\n')
+    }
+    case 'blockquote': {
+      const text = renderBlocks(node).join('\n\n')
+      return text ? prefixLines(text, '> ', '> ') : ''
+    }
+    case 'dt': {
+      const text = cleanLine(renderInline(node)).replace(/\n/g, ' ')
+      return text ? `**${text}**` : ''
+    }
+    case 'table': {
+      const rows = []
+      walk(node, (child) => {
+        if (child.tag !== 'tr') {
+          return
+        }
+        const cells = child.children
+          .filter(cell => cell.tag === 'td' || cell.tag === 'th')
+          .map(cell => cleanLine(renderInline(cell)).replace(/\n/g, ' ').replace(/\|/g, '\\|'))
+        if (cells.some(Boolean)) {
+          rows.push(`| ${cells.join(' | ')} |`)
+        }
+      })
+      return rows.join('\n')
+    }
+    default:
+      return renderBlocks(node).join('\n\n')
+  }
+}
+
+/**
+ * Hauptinhalt einer Seite als Markdown (Überschriften, Listen, Absätze, Tabellen)
+ *
+ * @param html - Rohes HTML
+ * @returns Markdown-Text, leer wenn die Seite keinen Text enthält
+ */
+export const extractMainContent = (html) => {
+  const root = removeBoilerplate(parseHtml(String(html || '')))
+  return renderBlocks(findMainContent(root))
+    .join('\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,190 @@
+/**
+ * retrieval.js - Retrieval über die Seiten-Datenbank eines Chats
+ *
+ * Wählt vor jedem Chat-Turn die relevantesten pages-Zeilen zur Frage aus
+ * und baut daraus einen Kontext-Block mit nummerierten Quellen für den Prompt.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'mention',
+  'mentions', 'my', 'of', 'on', 'or', 'saved', 'that', 'the', 'this', 'to', 'was', 'what', 'which',
+  'who', 'with', 'der', 'die', 'das', 'und', 'oder', 'ist', 'sind', 'ein', 'eine', 'einen', 'mit',
+  'von', 'für', 'auf', 'im', 'zu', 'den', 'dem', 'des', 'welche', 'welcher', 'meine', 'wie',
+  'gibt', 'es', 'ich', 'nicht', 'auch'
+])
+
+const MAX_CANDIDATES = 200
+const EXCERPT_RADIUS = 300
+
+// Grobe Schätzung: ~4 Zeichen pro Token
+export const estimateTokens = (text) => Math.ceil(String(text || '').length / 4)
+
+export const tokenizeQuery = (query) => {
+  const terms = String(query || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}+#.-]+/u)
+    .map(term => term.replace(/^[.-]+|[.-]+$/g, ''))
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+
+  return Array.from(new Set(terms))
+}
+
+const countOccurrences = (haystack, term) => {
+  let count = 0
+  let index = haystack.indexOf(term)
+  while (index !== -1) {
+    count += 1
+    index = haystack.indexOf(term, index + term.length)
+  }
+  return count
+}
+
+/**
+ * Schneidet einen Ausschnitt um die erste Trefferstelle aus
+ */
+const buildExcerpt = (content, terms, maxChars) => {
+  const lower = content.toLowerCase()
+  const positions = terms
+    .map(term => lower.indexOf(term))
+    .filter(position => position !== -1)
+    .sort((a, b) => a - b)
+
+  const anchor = positions.length > 0 ? positions[0] : 0
+  const radius = Math.min(EXCERPT_RADIUS, Math.floor(maxChars / 2))
+  const start = Math.max(0, anchor - radius)
+  const end = Math.min(content.length, start + maxChars)
+  const excerpt = content.slice(start, end).trim()
+
+  return `${start > 0 ? '…' : ''}${excerpt}${end < content.length ? '…' : ''}`
+}
+
+/**
+ * Sucht die relevantesten Seiten für eine Frage
+ * Vorauswahl per LIKE, Ranking per BM25-ähnlichem Score (Titel zählt doppelt)
+ *
+ * @param db - Chat-Datenbank aus getDb()
+ * @param query - Frage des Users
+ * @param options - { maxPages, tokenBudget }
+ * @returns Quellen mit Ausschnitt, sortiert nach Relevanz, innerhalb des Token-Budgets
+ */
+export const retrievePages = async (db, query, { maxPages = 5, tokenBudget = 1500 } = {}) => {
+  const terms = tokenizeQuery(query)
+  if (terms.length === 0) {
+    return []
+  }
+
+  const likeClause = terms.map(() => '(lower(content) LIKE ? OR lower(coalesce(title, \'\')) LIKE ?)').join(' OR ')
+  const params = terms.flatMap(term => [`%${term}%`, `%${term}%`])
+  const rows = await db.all(
+    `SELECT id, url, title, content FROM pages WHERE ${likeClause} ORDER BY id DESC LIMIT ?`,
+    [...params, MAX_CANDIDATES]
+  )
+
+  if (rows.length === 0) {
+    return []
+  }
+
+  const documentFrequency = new Map(terms.map(term => [term, 0]))
+  const prepared = rows.map((row) => {
+    const content = row.content.toLowerCase()
+    const title = (row.title || '').toLowerCase()
+    const frequencies = new Map()
+    for (const term of terms) {
+      const frequency = countOccurrences(content, term) + 2 * countOccurrences(title, term)
+      frequencies.set(term, frequency)
+      if (frequency > 0) {
+        documentFrequency.set(term, documentFrequency.get(term) + 1)
+      }
+    }
+    return { row, frequencies, length: content.length }
+  })
+
+  const averageLength = prepared.reduce((sum, item) => sum + item.length, 0) / prepared.length || 1
+  const k1 = 1.2
+  const b = 0.75
+
+  const scored = prepared.map(({ row, frequencies, length }) => {
+    let score = 0
+    let matchedTerms = 0
+    for (const term of terms) {
+      const frequency = frequencies.get(term)
+      if (frequency === 0) {
+        continue
+      }
+      matchedTerms += 1
+      const df = documentFrequency.get(term)
+      const idf = Math.log(1 + (prepared.length - df + 0.5) / (df + 0.5))
+      score += idf * ((frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * (length / averageLength))))
+    }
+    // Seiten die alle Begriffe enthalten deutlich bevorzugen
+    return { row, score: score * (matchedTerms / terms.length) }
+  })
+
+  scored.sort((a, c) => c.score - a.score)
+
+  const sources = []
+  let remainingTokens = tokenBudget
+  const perPageChars = Math.max(200, Math.floor((tokenBudget * 4) / maxPages))
+
+  for (const { row, score } of scored) {
+    if (sources.length >= maxPages || score <= 0) {
+      break
+    }
+    const excerpt = buildExcerpt(row.content, terms, perPageChars)
+    const cost = estimateTokens(`${row.title || ''} ${row.url} ${excerpt}`)
+    if (cost > remainingTokens) {
+      break
+    }
+    remainingTokens -= cost
+    sources.push({
+      index: sources.length + 1,
+      id: row.id,
+      url: row.url,
+      title: row.title || null,
+      excerpt,
+      score: Number(score.toFixed(3))
+    })
+  }
+
+  return sources
+}
+
+/**
+ * Baut den Kontext-Block für den System-Prompt
+ * Die KI soll mit [n] auf die Quellen verweisen
+ */
+export const buildRetrievalContext = (sources) => {
+  if (sources.length === 0) {
+    return ''
+  }
+
+  const entries = sources.map(source => (
+    `[${source.index}] ${source.title || source.url}\nURL: ${source.url}\n${source.excerpt}`
+  ))
+
+  return [
+    'Relevante Einträge aus der Datenbank dieses Chats. Beziehe dich bei Aussagen daraus mit [Nummer] auf die Quelle:',
+    ...entries
+  ].join('\n\n')
+}
+
+/**
+ * Hängt einen Kontext-Block an die System-Nachricht an (oder fügt eine hinzu)
+ * Wird für Retrieval- und Datei-Kontext verwendet
+ */
+export const injectSystemContext = (messages, context) => {
+  if (!context) {
+    return messages
+  }
+
+  const systemIndex = messages.findIndex(message => message.role === 'system')
+  if (systemIndex === -1) {
+    return [{ role: 'system', content: context }, ...messages]
+  }
+
+  return messages.map((message, index) => (
+    index === systemIndex
+      ? { ...message, content: `${message.content}\n\n${context}` }
+      : message
+  ))
+}
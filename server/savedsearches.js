@@ -0,0 +1,287 @@
+/**
+ * savedsearches.js - Gespeicherte Jobsuchen pro Chat
+ *
+ * Eine gespeicherte Suche hält Suchbegriffe, Filter und Quellen und wird
+ * vom Scheduler in index.js im eingestellten Intervall erneut ausgeführt.
+ * Bereits gesehene Job-IDs landen in saved_search_results; neue Treffer
+ * bleiben als "neu" markiert, bis der User sie angesehen hat.
+ */
+
+import { normalizeJobFilters, isKnownJobSource } from './jobsources.js'
+
+export const MIN_INTERVAL_MINUTES = 15
+export const MAX_SAVED_QUERIES = 10
+
+// Ältere Treffer werden pro Suche verworfen, damit die Chat-DB nicht endlos wächst
+const MAX_RESULTS_PER_SEARCH = 500
+
+const parseJson = (value, fallback) => {
+  try {
+    return value ? JSON.parse(value) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+const mapSavedSearchRow = (row) => ({
+  id: row.id,
+  name: row.name,
+  queries: parseJson(row.queries, []),
+  filters: parseJson(row.filters, {}),
+  sources: parseJson(row.sources, null),
+  intervalMinutes: row.interval_minutes,
+  enabled: Boolean(row.enabled),
+  lastRunAt: row.last_run_at,
+  lastSuccessAt: row.last_success_at,
+  lastRunStatus: row.last_run_status,
+  lastError: row.last_error,
+  newCount: row.new_count ?? 0,
+  totalCount: row.total_count ?? 0,
+  createdAt: row.created_at
+})
+
+const SAVED_SEARCH_SELECT = `
+  SELECT s.*,
+    (SELECT COUNT(*) FROM saved_search_results r WHERE r.saved_search_id = s.id AND r.is_new = 1) AS new_count,
+    (SELECT COUNT(*) FROM saved_search_results r WHERE r.saved_search_id = s.id) AS total_count
+  FROM saved_searches s`
+
+/**
+ * Prüft und bereinigt die Felder einer gespeicherten Suche
+ * Bei partial = true (PATCH) sind alle Felder optional
+ *
+ * @returns { value } oder { error }
+ */
+export const validateSavedSearch = (body, { partial = false, defaultIntervalMinutes = 1440 } = {}) => {
+  const value = {}
+
+  if (body.queries !== undefined || !partial) {
+    if (!Array.isArray(body.queries)) {
+      return { error: 'queries must be an array of strings' }
+    }
+    const queries = Array.from(new Set(
+      body.queries.map(query => String(query || '').trim()).filter(Boolean)
+    ))
+    if (queries.length === 0 || queries.length > MAX_SAVED_QUERIES) {
+      return { error: `queries must contain 1 to ${MAX_SAVED_QUERIES} search terms` }
+    }
+    value.queries = queries
+  }
+
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name || '').trim() || value.queries?.join(', ') || ''
+    if (!name) {
+      return { error: 'name is required' }
+    }
+    value.name = name.slice(0, 100)
+  }
+
+  if (body.filters !== undefined || !partial) {
+    value.filters = normalizeJobFilters(body.filters || {})
+  }
+
+  if (body.sources !== undefined || !partial) {
+    if (body.sources !== null && body.sources !== undefined && !Array.isArray(body.sources)) {
+      return { error: 'sources must be an array or null' }
+    }
+    value.sources = Array.isArray(body.sources) ? body.sources.filter(isKnownJobSource) : null
+  }
+
+  if (body.intervalMinutes !== undefined || !partial) {
+    const interval = body.intervalMinutes === undefined
+      ? defaultIntervalMinutes
+      : Number.parseInt(body.intervalMinutes, 10)
+    if (!Number.isFinite(interval) || interval < MIN_INTERVAL_MINUTES) {
+      return { error: `intervalMinutes must be at least ${MIN_INTERVAL_MINUTES}` }
+    }
+    value.intervalMinutes = interval
+  }
+
+  if (body.enabled !== undefined) {
+    value.enabled = Boolean(body.enabled)
+  }
+
+  return { value }
+}
+
+export const listSavedSearches = async (db) => {
+  const rows = await db.all(`${SAVED_SEARCH_SELECT} ORDER BY s.created_at, s.id`)
+  return rows.map(mapSavedSearchRow)
+}
+
+export const getSavedSearch = async (db, id) => {
+  const row = await db.get(`${SAVED_SEARCH_SELECT} WHERE s.id = ?`, [id])
+  return row ? mapSavedSearchRow(row) : null
+}
+
+export const createSavedSearch = async (db, { name, queries, filters, sources, intervalMinutes, enabled = true }) => {
+  const result = await db.run(
+    `INSERT INTO saved_searches (name, queries, filters, sources, interval_minutes, enabled)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      name,
+      JSON.stringify(queries),
+      JSON.stringify(filters),
+      sources ? JSON.stringify(sources) : null,
+      intervalMinutes,
+      enabled ? 1 : 0
+    ]
+  )
+  return getSavedSearch(db, result.lastID)
+}
+
+/**
+ * Aktualisiert nur die übergebenen Felder
+ * @returns Aktualisierte Suche oder null, wenn die ID unbekannt ist
+ */
+export const updateSavedSearch = async (db, id, changes) => {
+  const columns = {
+    name: ['name', value => value],
+    queries: ['queries', value => JSON.stringify(value)],
+    filters: ['filters', value => JSON.stringify(value)],
+    sources: ['sources', value => (value ? JSON.stringify(value) : null)],
+    intervalMinutes: ['interval_minutes', value => value],
+    enabled: ['enabled', value => (value ? 1 : 0)]
+  }
+  const entries = Object.entries(changes).filter(([key]) => columns[key])
+
+  if (entries.length > 0) {
+    const assignments = entries.map(([key]) => `${columns[key][0]} = ?`).join(', ')
+    const params = entries.map(([key, value]) => columns[key][1](value))
+    await db.run(
+      `UPDATE saved_searches SET ${assignments}, updated_at = datetime('now') WHERE id = ?`,
+      [...params, id]
+    )
+  }
+
+  return getSavedSearch(db, id)
+}
+
+export const deleteSavedSearch = async (db, id) => {
+  await db.run('DELETE FROM saved_search_results WHERE saved_search_id = ?', [id])
+  const result = await db.run('DELETE FROM saved_searches WHERE id = ?', [id])
+  return result.changes > 0
+}
+
+/**
+ * Suchen, deren Intervall abgelaufen ist (noch nie gelaufene zuerst)
+ */
+export const listDueSavedSearches = async (db) => {
+  const rows = await db.all(
+    `${SAVED_SEARCH_SELECT}
+     WHERE s.enabled = 1
+       AND (s.last_run_at IS NULL
+         OR datetime(s.last_run_at, '+' || s.interval_minutes || ' minutes') <= datetime('now'))
+     ORDER BY s.last_run_at IS NOT NULL, s.last_run_at`
+  )
+  return rows.map(mapSavedSearchRow)
+}
+
+/**
+ * Führt eine gespeicherte Suche aus und merkt sich unbekannte Job-IDs
+ * Beim ersten erfolgreichen Lauf gelten alle Treffer als bekannt (Ausgangsbasis, kein "neu")
+ *
+ * @param db - Chat-Datenbank aus getDb()
+ * @param savedSearch - Eintrag aus getSavedSearch()
+ * @param search - async (query, { enabled, filters }) => { items, sources } (siehe searchJobSources)
+ * @returns { savedSearch, newItems }
+ */
+export const runSavedSearch = async (db, savedSearch, search) => {
+  const isFirstRun = !savedSearch.lastSuccessAt
+  const settled = await Promise.allSettled(savedSearch.queries.map(query => (
+    search(query, { enabled: savedSearch.sources, filters: savedSearch.filters })
+  )))
+
+  const items = new Map()
+  const sourceErrors = []
+  for (const result of settled) {
+    if (result.status === 'rejected') {
+      sourceErrors.push(result.reason?.message || 'Search failed')
+      continue
+    }
+    result.value.items.forEach(item => items.set(item.id, item))
+    result.value.sources
+      .filter(source => source.status === 'failed')
+      .forEach(source => sourceErrors.push(`${source.name}: ${source.reason}`))
+  }
+
+  const newItems = []
+  for (const item of items.values()) {
+    // Zusammengeführte Jobs können je Lauf eine andere Haupt-ID haben, bekannt ist bekannt
+    const ids = Array.from(new Set([item.id, ...(item.foundOn || []).map(entry => entry.id)]))
+    const known = await db.get(
+      `SELECT 1 FROM saved_search_results WHERE saved_search_id = ? AND job_id IN (${ids.map(() => '?').join(', ')})`,
+      [savedSearch.id, ...ids]
+    )
+    if (known) {
+      continue
+    }
+    const result = await db.run(
+      `INSERT OR IGNORE INTO saved_search_results (saved_search_id, job_id, item, is_new)
+       VALUES (?, ?, ?, ?)`,
+      [savedSearch.id, item.id, JSON.stringify(item), isFirstRun ? 0 : 1]
+    )
+    if (result.changes > 0 && !isFirstRun) {
+      newItems.push(item)
+    }
+  }
+
+  await db.run(
+    `DELETE FROM saved_search_results
+     WHERE saved_search_id = ? AND job_id NOT IN (
+       SELECT job_id FROM saved_search_results WHERE saved_search_id = ?
+       ORDER BY first_seen_at DESC LIMIT ?
+     )`,
+    [savedSearch.id, savedSearch.id, MAX_RESULTS_PER_SEARCH]
+  )
+
+  // partial = einzelne Quellen oder Begriffe fehlgeschlagen, failed = keine Quelle hat geantwortet
+  const anySourceOk = settled.some(result => (
+    result.status === 'fulfilled' && result.value.sources.some(source => source.status === 'ok')
+  ))
+  const status = !anySourceOk ? 'failed' : sourceErrors.length > 0 ? 'partial' : 'ok'
+  await db.run(
+    `UPDATE saved_searches
+     SET last_run_at = datetime('now'),
+       last_success_at = CASE WHEN ? THEN datetime('now') ELSE last_success_at END,
+       last_run_status = ?,
+       last_error = ?
+     WHERE id = ?`,
+    [
+      anySourceOk ? 1 : 0,
+      status,
+      sourceErrors.length > 0 ? Array.from(new Set(sourceErrors)).join('; ').slice(0, 500) : null,
+      savedSearch.id
+    ]
+  )
+
+  return { savedSearch: await getSavedSearch(db, savedSearch.id), newItems }
+}
+
+/**
+ * Treffer einer gespeicherten Suche, neueste zuerst
+ */
+export const listSavedSearchResults = async (db, id, { onlyNew = false } = {}) => {
+  const rows = await db.all(
+    `SELECT item, is_new, first_seen_at FROM saved_search_results
+     WHERE saved_search_id = ? ${onlyNew ? 'AND is_new = 1' : ''}
+     ORDER BY first_seen_at DESC, rowid DESC`,
+    [id]
+  )
+  return rows.map(row => ({
+    ...parseJson(row.item, {}),
+    isNew: Boolean(row.is_new),
+    firstSeenAt: row.first_seen_at
+  }))
+}
+
+/**
+ * Markiert alle Treffer als gesehen (setzt das "neu"-Badge zurück)
+ */
+export const markSavedSearchSeen = async (db, id) => {
+  const result = await db.run(
+    'UPDATE saved_search_results SET is_new = 0 WHERE saved_search_id = ? AND is_new = 1',
+    [id]
+  )
+  return result.changes
+}
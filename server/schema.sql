@@ -3,9 +3,20 @@ CREATE TABLE IF NOT EXISTS pages (
   url TEXT NOT NULL UNIQUE,
   title TEXT,
   content TEXT NOT NULL,
+  content_format TEXT NOT NULL DEFAULT 'text',
+  raw_html TEXT,
   status_code INTEGER,
   content_hash TEXT,
   fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+  job_company TEXT,
+  job_location TEXT,
+  job_date_posted TEXT,
+  job_valid_through TEXT,
+  job_employment_type TEXT,
+  job_salary_min REAL,
+  job_salary_max REAL,
+  job_salary_currency TEXT,
+  job_salary_unit TEXT,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
@@ -17,5 +28,119 @@ CREATE TABLE IF NOT EXISTS files (
   size INTEGER,
   content_base64 TEXT NOT NULL,
   content_hash TEXT,
+  text_content TEXT,
+  text_format TEXT,
+  text_status TEXT,
+  text_extracted_at TEXT,
   uploaded_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id INTEGER PRIMARY KEY,
+  title TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id INTEGER PRIMARY KEY,
+  conversation_id INTEGER NOT NULL,
+  sender TEXT NOT NULL,
+  text TEXT NOT NULL,
+  sources TEXT,
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  finish_reason TEXT,
+  generated_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages (conversation_id, id);
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  queries TEXT NOT NULL,
+  filters TEXT NOT NULL DEFAULT '{}',
+  sources TEXT,
+  interval_minutes INTEGER NOT NULL DEFAULT 1440,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  last_run_at TEXT,
+  last_success_at TEXT,
+  last_run_status TEXT,
+  last_error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS saved_search_results (
+  saved_search_id INTEGER NOT NULL,
+  job_id TEXT NOT NULL,
+  item TEXT NOT NULL,
+  is_new INTEGER NOT NULL DEFAULT 1,
+  first_seen_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (saved_search_id, job_id)
+);
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY,
+  source TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  company TEXT,
+  location TEXT,
+  url TEXT,
+  description TEXT,
+  description_type TEXT,
+  remote INTEGER,
+  employment_type TEXT,
+  salary_min REAL,
+  salary_max REAL,
+  created_at TEXT,
+  raw TEXT,
+  saved_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (source, external_id)
+);
+
+CREATE TABLE IF NOT EXISTS job_feeds (
+  id INTEGER PRIMARY KEY,
+  url TEXT NOT NULL UNIQUE,
+  title TEXT,
+  format TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS watched_companies (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  ats TEXT NOT NULL,
+  slug TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (ats, slug)
+);
+
+CREATE TABLE IF NOT EXISTS crawl_jobs (
+  id INTEGER PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'running',
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  finished_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS crawl_job_urls (
+  job_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  reason TEXT,
+  detail TEXT,
+  page_id INTEGER,
+  status_code INTEGER,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (job_id, position)
+);
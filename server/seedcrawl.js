@@ -0,0 +1,190 @@
+/**
+ * seedcrawl.js - Hilfen für den Link-Crawl ab einer Karriereseite
+ *
+ * Ab einer Seed-URL folgt der Crawler Links derselben Website bis zu einer
+ * Tiefe und einem Seitenbudget (Ablauf in index.js, crawlFromSeed).
+ * Muster für include/exclude sind Globs oder Regex mit Präfix "re:":
+ *   "/jobs/*"            Pfad (+ Query), * = ein Pfadsegment, ** = beliebig
+ *   "https://x.de/**"    ganze URL
+ *   "re:/stellen/\d+"    Regex auf die ganze URL (ohne Groß/Klein)
+ * Muster sind höchstens MAX_SEED_PATTERN_LENGTH Zeichen lang; Regex mit
+ * verschachtelten Quantoren wie (a+)+ werden abgelehnt (ReDoS).
+ */
+
+import { decodeEntities } from './xml.js'
+
+export const MAX_SEED_PATTERNS = 20
+export const MAX_SEED_PATTERN_LENGTH = 200
+
+// Dateien, die keine HTML-Seiten sind, werden nicht verfolgt
+const NON_HTML_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|gz|rar|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|mp3|mp4|avi|mov|woff2?|ttf|eot)$/i
+
+const LINK_PATTERN = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi
+const BASE_PATTERN = /<base\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i
+
+/**
+ * URL ohne Fragment, damit "#apply" und "#top" nicht als eigene Seiten zählen
+ * @returns Normalisierte URL oder null bei ungültigen bzw. nicht-http(s) URLs
+ */
+export const normalizeLink = (href, baseUrl) => {
+  try {
+    const url = new URL(href, baseUrl)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null
+    }
+    url.hash = ''
+    return url.toString()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Alle Links einer Seite als absolute URLs (berücksichtigt <base href>)
+ */
+export const extractLinks = (html, pageUrl) => {
+  const source = String(html || '')
+  const base = source.match(BASE_PATTERN)
+  const baseUrl = base ? normalizeLink(decodeEntities(base[1] ?? base[2] ?? base[3]), pageUrl) || pageUrl : pageUrl
+  const links = new Set()
+  for (const match of source.matchAll(LINK_PATTERN)) {
+    const link = normalizeLink(decodeEntities((match[1] ?? match[2] ?? match[3]).trim()), baseUrl)
+    if (link) {
+      links.add(link)
+    }
+  }
+  return Array.from(links)
+}
+
+const getSiteHost = (url) => new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+
+// Gleiche Website = gleicher Host, "www." wird ignoriert
+export const isSameSite = (url, seedUrl) => getSiteHost(url) === getSiteHost(seedUrl)
+
+export const isLikelyHtml = (url) => !NON_HTML_EXTENSIONS.test(new URL(url).pathname)
+
+const globToRegExp = (glob) => {
+  const body = glob
+    .split('**')
+    .map(part => part
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*'))
+    .join('.*')
+  return new RegExp(`^${body}$`, 'i')
+}
+
+/**
+ * Findet Gruppen mit Quantor, die selbst wiederholt werden, z.B. (a+)+ oder ((\w*)x)*
+ * Solche Regex können bei passenden URLs exponentiell lange backtracken
+ */
+const hasNestedQuantifier = (source) => {
+  // Pro offener Gruppe: enthält sie einen Quantor?
+  const groups = [false]
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index]
+    if (char === '\\') {
+      index += 1
+    } else if (char === '[') {
+      // Zeichenklasse überspringen, darin sind * und + normale Zeichen
+      index += 1
+      while (index < source.length && source[index] !== ']') {
+        index += source[index] === '\\' ? 2 : 1
+      }
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const quantified = groups.length > 1 ? groups.pop() : false
+      if (quantified && /[*+{]/.test(source[index + 1] || '')) {
+        return true
+      }
+      groups[groups.length - 1] = groups[groups.length - 1] || quantified
+    } else if (/[*+{]/.test(char)) {
+      groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+/**
+ * Übersetzt ein Muster in eine Prüffunktion
+ * @throws Error bei zu langem Muster, ungültiger Regex oder verschachtelten Quantoren
+ */
+export const compileUrlPattern = (pattern) => {
+  if (pattern.length > MAX_SEED_PATTERN_LENGTH) {
+    throw new Error(`Pattern "${pattern.slice(0, 40)}..." is longer than ${MAX_SEED_PATTERN_LENGTH} characters`)
+  }
+  if (pattern.startsWith('re:')) {
+    let regex = null
+    try {
+      regex = new RegExp(pattern.slice(3), 'i')
+    } catch (error) {
+      throw new Error(`Invalid pattern "${pattern}": ${error.message}`)
+    }
+    if (hasNestedQuantifier(pattern.slice(3))) {
+      throw new Error(`Invalid pattern "${pattern}": nested quantifiers are not allowed`)
+    }
+    return (url) => regex.test(url)
+  }
+  const regex = globToRegExp(pattern)
+  if (pattern.startsWith('/')) {
+    return (url) => {
+      const parsed = new URL(url)
+      return regex.test(`${parsed.pathname}${parsed.search}`) || regex.test(parsed.pathname)
+    }
+  }
+  return (url) => regex.test(url)
+}
+
+/**
+ * include leer = alle Seiten speichern; exclude wird weder geladen noch gespeichert
+ * @returns { isIncluded(url), isExcluded(url) }
+ */
+export const createUrlMatcher = (include = [], exclude = []) => {
+  const includeTests = include.map(compileUrlPattern)
+  const excludeTests = exclude.map(compileUrlPattern)
+  return {
+    isIncluded: (url) => includeTests.length === 0 || includeTests.some(test => test(url)),
+    isExcluded: (url) => excludeTests.some(test => test(url))
+  }
+}
+
+const parsePatternList = (value) => {
+  const list = Array.isArray(value) ? value : String(value || '').split(/\n+/)
+  return list.map(entry => String(entry || '').trim()).filter(Boolean)
+}
+
+/**
+ * Prüft die Parameter eines Seed-Crawls
+ *
+ * @param body - { seedUrl, maxDepth?, maxPages?, include?, exclude? } (Muster als Array oder zeilenweise)
+ * @param limits - { maxDepthLimit, maxPagesLimit }
+ * @returns { value } oder { error }
+ */
+export const validateSeedCrawl = (body = {}, { maxDepthLimit, maxPagesLimit }) => {
+  const seedUrl = normalizeLink(String(body.seedUrl || '').trim())
+  if (!seedUrl) {
+    return { error: 'seedUrl must be an http(s) URL' }
+  }
+
+  const maxDepth = body.maxDepth === undefined ? 2 : Number.parseInt(body.maxDepth, 10)
+  if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > maxDepthLimit) {
+    return { error: `maxDepth must be between 0 and ${maxDepthLimit}` }
+  }
+  const maxPages = body.maxPages === undefined ? Math.min(50, maxPagesLimit) : Number.parseInt(body.maxPages, 10)
+  if (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > maxPagesLimit) {
+    return { error: `maxPages must be between 1 and ${maxPagesLimit}` }
+  }
+
+  const include = parsePatternList(body.include)
+  const exclude = parsePatternList(body.exclude)
+  if (include.length > MAX_SEED_PATTERNS || exclude.length > MAX_SEED_PATTERNS) {
+    return { error: `At most ${MAX_SEED_PATTERNS} include and exclude patterns` }
+  }
+  try {
+    createUrlMatcher(include, exclude)
+  } catch (error) {
+    return { error: error.message }
+  }
+
+  return { value: { seedUrl, maxDepth, maxPages, include, exclude } }
+}
@@ -0,0 +1,203 @@
+/**
+ * urlpolicy.js - Ausgehende URLs für Crawler, Vorschau und Feeds prüfen (SSRF-Schutz)
+ *
+ * Nur http/https, der Hostname wird aufgelöst und private, Loopback- und
+ * Link-Local-Adressen sind gesperrt (z.B. 169.254.169.254, localhost:11434).
+ * Redirects folgt guardedFetch() selbst und prüft jedes Ziel erneut.
+ *
+ * allowList: Hosts/Netze, die trotz privater Adresse erlaubt sind (Intranet)
+ * denyList: Hosts/Netze, die immer gesperrt sind
+ * Einträge: "example.com", "*.example.com", "10.1.2.3" oder "10.0.0.0/8"
+ *
+ * Grenze: zwischen Prüfung und Abruf löst fetch den Namen erneut auf
+ * (DNS-Rebinding mit sehr kurzer TTL wird dadurch nicht vollständig verhindert).
+ */
+
+import dns from 'dns/promises'
+import net from 'net'
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:']
+
+// Nicht öffentlich routbare Bereiche (RFC 6890); IPv4-gemappte IPv6-Adressen prüft BlockList mit,
+// NAT64- (64:ff9b::/96) und 6to4-Adressen (2002::/16) werden vorher auf ihre IPv4 zurückgeführt (getTargetAddress)
+const PRIVATE_RANGES = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  // Site-Local (veraltet, RFC 3879), manche Netze nutzen es noch intern
+  ['fec0::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+]
+
+const privateNetworks = new net.BlockList()
+PRIVATE_RANGES.forEach(([network, prefix, type]) => privateNetworks.addSubnet(network, prefix, type))
+
+// NAT64 (RFC 6052): die letzten 32 Bit sind die IPv4-Zieladresse
+const nat64Network = new net.BlockList()
+nat64Network.addSubnet('64:ff9b::', 96, 'ipv6')
+
+// 6to4 (RFC 3056): Bit 16-47 sind die IPv4-Adresse des Relays
+const sixToFourNetwork = new net.BlockList()
+sixToFourNetwork.addSubnet('2002::', 16, 'ipv6')
+
+const getAddressType = (address) => (net.isIPv6(address) ? 'ipv6' : 'ipv4')
+
+// IPv6-Adresse als 8 Gruppen à 16 Bit (auch mit "::" und angehängter IPv4)
+const expandIpv6 = (address) => {
+  let text = address.replace(/%.*$/, '')
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number)
+    text = `${text.slice(0, -dotted[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+  const [head, tail] = text.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0')
+  return [...headGroups, ...zeros, ...tailGroups].map(group => Number.parseInt(group, 16))
+}
+
+const toIpv4 = (high, low) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.')
+
+/**
+ * Adresse, gegen die geprüft wird: bei NAT64 und 6to4 die eingebettete IPv4
+ * (IPv4-gemappte Adressen erkennt BlockList selbst)
+ */
+const getTargetAddress = (address) => {
+  if (!net.isIPv6(address)) {
+    return address
+  }
+  if (nat64Network.check(address, 'ipv6')) {
+    const groups = expandIpv6(address)
+    return toIpv4(groups[6], groups[7])
+  }
+  if (sixToFourNetwork.check(address, 'ipv6')) {
+    const groups = expandIpv6(address)
+    return toIpv4(groups[1], groups[2])
+  }
+  return address
+}
+
+const normalizeHost = (hostname) => hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase()
+
+/**
+ * Zerlegt eine Liste aus der Umgebung (Komma oder Leerzeichen getrennt)
+ * @returns { hosts: string[], networks: net.BlockList }
+ */
+export const parseHostList = (value) => {
+  const hosts = []
+  const networks = new net.BlockList()
+  String(value || '')
+    .split(/[\s,]+/)
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [address, prefix] = entry.split('/')
+      if (net.isIP(address)) {
+        const type = getAddressType(address)
+        if (prefix !== undefined) {
+          networks.addSubnet(address, Number(prefix), type)
+        } else {
+          networks.addAddress(address, type)
+        }
+      } else {
+        hosts.push(normalizeHost(entry))
+      }
+    })
+  return { hosts, networks }
+}
+
+// "example.com" passt exakt, "*.example.com" auf alle Subdomains
+const matchesHost = (patterns, host) => patterns.some(pattern => (
+  pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern
+))
+
+const blocked = (message) => {
+  const error = new Error(`Blocked: ${message}`)
+  error.code = 'blocked'
+  return error
+}
+
+/**
+ * Erstellt die Prüfung für ausgehende Anfragen
+ *
+ * @param options - { allowPrivate, allowList, denyList, maxRedirects, lookup } (Listen als String, siehe oben)
+ * @returns { checkUrl(url), guardedFetch(url, options) }
+ */
+export const createUrlPolicy = ({
+  allowPrivate = false,
+  allowList = '',
+  denyList = '',
+  maxRedirects = 5,
+  lookup = (host) => dns.lookup(host, { all: true, verbatim: true })
+} = {}) => {
+  const allowed = parseHostList(allowList)
+  const denied = parseHostList(denyList)
+
+  /**
+   * @throws Error mit code = 'blocked', wenn Schema, Host oder aufgelöste Adresse gesperrt sind
+   */
+  const checkUrl = async (url) => {
+    let parsed = null
+    try {
+      parsed = new URL(url)
+    } catch {
+      throw blocked('invalid URL')
+    }
+    if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+      throw blocked(`scheme ${parsed.protocol.replace(/:$/, '')} is not allowed`)
+    }
+
+    const host = normalizeHost(parsed.hostname)
+    if (matchesHost(denied.hosts, host)) {
+      throw blocked(`host ${host} is on the deny list`)
+    }
+
+    const addresses = net.isIP(host) ? [host] : (await lookup(host)).map(entry => entry.address)
+    const hostAllowed = allowPrivate || matchesHost(allowed.hosts, host)
+    for (const address of addresses) {
+      const target = getTargetAddress(address)
+      const type = getAddressType(target)
+      if (denied.networks.check(target, type)) {
+        throw blocked(`address ${address} of ${host} is on the deny list`)
+      }
+      if (!hostAllowed && !allowed.networks.check(target, type) && privateNetworks.check(target, type)) {
+        throw blocked(address === host ? `private address ${address}` : `${host} resolves to private address ${address}`)
+      }
+    }
+  }
+
+  /**
+   * fetch mit Prüfung vor jedem Request; Redirects werden manuell verfolgt
+   * response.url ist danach die zuletzt abgefragte URL
+   */
+  const guardedFetch = async (url, options = {}) => {
+    let current = url
+    for (let redirects = 0; redirects <= maxRedirects; redirects += 1) {
+      await checkUrl(current)
+      const response = await fetch(current, { ...options, redirect: 'manual' })
+      const location = response.headers.get('location')
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response
+      }
+      await response.body?.cancel()
+      current = new URL(location, current).toString()
+    }
+    throw new Error(`Too many redirects (more than ${maxRedirects})`)
+  }
+
+  return { checkUrl, guardedFetch }
+}
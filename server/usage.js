@@ -0,0 +1,250 @@
+/**
+ * usage.js - Verbrauchs-Ledger für KI-Aufrufe
+ *
+ * Jeder Aufruf (Chat oder Bewerbungs-Batch) wird mit Tokens und geschätzten
+ * Kosten in app.db protokolliert. Dazu kommt ein optionales Budget-Limit,
+ * das die Batch-Generierung stoppt.
+ */
+
+const BUDGET_SETTING_KEY = 'usage_budget'
+const COMPATIBLE_PRICING_SETTING_KEY = 'usage_compatible_pricing'
+const BUDGET_PERIODS = ['day', 'month']
+
+// Provider ohne Abrechnung (laufen lokal bzw. auf eigener Hardware)
+// openai-compatible fehlt bewusst: dahinter kann auch ein kostenpflichtiges Gateway stehen,
+// der Preis (auch 0) lässt sich mit setCompatiblePricing() festlegen
+const FREE_PROVIDERS = new Set(['local', 'ollama'])
+
+/**
+ * Preise in USD pro 1000 Tokens [prompt, completion]
+ * Wird per Präfix gesucht, speziellere Einträge müssen vor allgemeineren stehen
+ */
+const MODEL_PRICING = [
+  ['gpt-4o-mini', 0.00015, 0.0006],
+  ['gpt-4o', 0.0025, 0.01],
+  ['gpt-4.1-nano', 0.0001, 0.0004],
+  ['gpt-4.1-mini', 0.0004, 0.0016],
+  ['gpt-4.1', 0.002, 0.008],
+  ['gpt-4-turbo', 0.01, 0.03],
+  ['gpt-4', 0.03, 0.06],
+  ['gpt-3.5-turbo', 0.0005, 0.0015],
+  ['o1-mini', 0.0011, 0.0044],
+  ['o3-mini', 0.0011, 0.0044],
+  ['o1', 0.015, 0.06],
+  ['claude-3-opus', 0.015, 0.075],
+  ['claude-opus', 0.015, 0.075],
+  ['claude-3-5-haiku', 0.0008, 0.004],
+  ['claude-3-haiku', 0.00025, 0.00125],
+  ['claude-3-5-sonnet', 0.003, 0.015],
+  ['claude-3-7-sonnet', 0.003, 0.015],
+  ['claude-3-sonnet', 0.003, 0.015],
+  ['claude-sonnet', 0.003, 0.015],
+  ['gemini-1.5-flash', 0.000075, 0.0003],
+  ['gemini-1.5-pro', 0.00125, 0.005],
+  ['gemini-2.0-flash', 0.0001, 0.0004],
+  ['gemini-pro', 0.0005, 0.0015]
+]
+
+/**
+ * Ersatzpreis für Modelle ohne Eintrag, nur für das Budget-Limit
+ * (teuerster Eintrag oben), damit unbekannte Modelle das Limit nicht umgehen
+ */
+const FALLBACK_PRICING = [0.015, 0.075]
+
+/**
+ * Liefert die Preise eines Modells
+ *
+ * @param compatiblePricing - Optional: Preis für openai-compatible aus getCompatiblePricing(), gilt vor MODEL_PRICING
+ * @returns { costPer1kPromptTokens, costPer1kCompletionTokens } oder null, wenn unbekannt
+ */
+export const getModelPricing = (provider, model, compatiblePricing = null) => {
+  if (FREE_PROVIDERS.has(provider)) {
+    return { costPer1kPromptTokens: 0, costPer1kCompletionTokens: 0 }
+  }
+  if (provider === 'openai-compatible' && compatiblePricing) {
+    return compatiblePricing
+  }
+  const name = String(model || '').toLowerCase()
+  const entry = MODEL_PRICING.find(([prefix]) => name.startsWith(prefix))
+  if (!entry) {
+    return null
+  }
+  return { costPer1kPromptTokens: entry[1], costPer1kCompletionTokens: entry[2] }
+}
+
+/**
+ * Schätzt die Kosten eines Aufrufs in USD
+ * null = Preis des Modells unbekannt
+ */
+export const estimateCost = (provider, model, tokens, compatiblePricing = null) => {
+  const pricing = getModelPricing(provider, model, compatiblePricing)
+  if (!pricing) {
+    return null
+  }
+  const cost = (tokens.prompt / 1000) * pricing.costPer1kPromptTokens
+    + (tokens.completion / 1000) * pricing.costPer1kCompletionTokens
+  return Number(cost.toFixed(6))
+}
+
+/**
+ * Schreibt einen Eintrag ins Ledger
+ *
+ * @param db - App-Datenbank aus getAppDb()
+ * @param entry - { chatId?, source: 'chat' | 'application', provider, model, tokens }
+ * @returns Geschätzte Kosten in USD (oder null)
+ */
+export const recordUsage = async (db, { chatId, source, provider, model, tokens }) => {
+  const compatiblePricing = provider === 'openai-compatible' ? await getCompatiblePricing(db) : null
+  const costUsd = estimateCost(provider, model, tokens, compatiblePricing)
+  await db.run(
+    `INSERT INTO ai_usage (chat_id, source, provider, model, prompt_tokens, completion_tokens, total_tokens, cost_usd)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [chatId || null, source, provider, model, tokens.prompt, tokens.completion, tokens.total, costUsd]
+  )
+  return costUsd
+}
+
+const mapTotalsRow = (row) => ({
+  calls: row.calls,
+  promptTokens: row.prompt_tokens || 0,
+  completionTokens: row.completion_tokens || 0,
+  totalTokens: row.total_tokens || 0,
+  costUsd: Number((row.cost_usd || 0).toFixed(6)),
+  // Aufrufe mit unbekanntem Preis fehlen in costUsd
+  unpricedCalls: row.unpriced_calls || 0
+})
+
+const TOTALS_COLUMNS = `COUNT(*) AS calls,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(total_tokens) AS total_tokens,
+  SUM(cost_usd) AS cost_usd,
+  SUM(CASE WHEN cost_usd IS NULL THEN 1 ELSE 0 END) AS unpriced_calls`
+
+/**
+ * Summen für die Verbrauchsansicht
+ *
+ * @param options - { chatId?, days } (Zeitraum in Tagen, inkl. heute)
+ * @returns { totals, byDay, byChat, byProvider }
+ */
+export const getUsageSummary = async (db, { chatId, days = 30 } = {}) => {
+  // Ab Mitternacht des ersten Tages, nicht days * 24h rückwärts
+  const conditions = ['created_at >= datetime(\'now\', \'start of day\', ?)']
+  const params = [`-${days - 1} days`]
+  if (chatId) {
+    conditions.push('chat_id = ?')
+    params.push(chatId)
+  }
+  const where = `WHERE ${conditions.join(' AND ')}`
+
+  const totals = await db.get(`SELECT ${TOTALS_COLUMNS} FROM ai_usage ${where}`, params)
+  const byDay = await db.all(
+    `SELECT date(created_at) AS day, ${TOTALS_COLUMNS} FROM ai_usage ${where} GROUP BY day ORDER BY day DESC`,
+    params
+  )
+  const byChat = await db.all(
+    `SELECT chat_id, ${TOTALS_COLUMNS} FROM ai_usage ${where} GROUP BY chat_id ORDER BY cost_usd DESC, total_tokens DESC`,
+    params
+  )
+  const byProvider = await db.all(
+    `SELECT provider, model, ${TOTALS_COLUMNS} FROM ai_usage ${where}
+     GROUP BY provider, model ORDER BY cost_usd DESC, total_tokens DESC`,
+    params
+  )
+
+  return {
+    days,
+    totals: mapTotalsRow(totals),
+    byDay: byDay.map(row => ({ day: row.day, ...mapTotalsRow(row) })),
+    byChat: byChat.map(row => ({ chatId: row.chat_id, ...mapTotalsRow(row) })),
+    byProvider: byProvider.map(row => ({ provider: row.provider, model: row.model, ...mapTotalsRow(row) }))
+  }
+}
+
+/**
+ * Lädt das Budget-Limit
+ * @returns { limitUsd: number | null, period: 'day' | 'month' }
+ */
+export const getBudget = async (db) => {
+  const row = await db.get('SELECT value FROM app_settings WHERE key = ?', [BUDGET_SETTING_KEY])
+  if (!row?.value) {
+    return { limitUsd: null, period: 'month' }
+  }
+  return JSON.parse(row.value)
+}
+
+/**
+ * Speichert das Budget-Limit (limitUsd: null = kein Limit)
+ */
+export const setBudget = async (db, { limitUsd, period }) => {
+  const budget = {
+    limitUsd: limitUsd === null || limitUsd === undefined || limitUsd === '' ? null : Number(limitUsd),
+    period: BUDGET_PERIODS.includes(period) ? period : 'month'
+  }
+
+  await db.run(
+    `INSERT INTO app_settings (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`,
+    [BUDGET_SETTING_KEY, JSON.stringify(budget)]
+  )
+  return budget
+}
+
+/**
+ * Lädt den festgelegten Preis für openai-compatible Endpunkte
+ * @returns { costPer1kPromptTokens, costPer1kCompletionTokens } oder null (nicht festgelegt)
+ */
+export const getCompatiblePricing = async (db) => {
+  const row = await db.get('SELECT value FROM app_settings WHERE key = ?', [COMPATIBLE_PRICING_SETTING_KEY])
+  if (!row?.value) {
+    return null
+  }
+  return JSON.parse(row.value)
+}
+
+/**
+ * Speichert den Preis für openai-compatible Endpunkte (null = wieder unbekannt)
+ * Gilt für neue Aufrufe, bereits protokollierte behalten ihre Kosten
+ */
+export const setCompatiblePricing = async (db, pricing) => {
+  const value = pricing
+    ? {
+        costPer1kPromptTokens: Number(pricing.costPer1kPromptTokens),
+        costPer1kCompletionTokens: Number(pricing.costPer1kCompletionTokens)
+      }
+    : null
+
+  await db.run(
+    `INSERT INTO app_settings (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`,
+    [COMPATIBLE_PRICING_SETTING_KEY, JSON.stringify(value)]
+  )
+  return value
+}
+
+/**
+ * Verbrauch im aktuellen Budget-Zeitraum (Kalendertag bzw. -monat, UTC)
+ * Aufrufe mit unbekanntem Preis zählen mit FALLBACK_PRICING (für openai-compatible: setCompatiblePricing)
+ *
+ * @returns { limitUsd, period, spentUsd, remainingUsd, exceeded }
+ */
+export const getBudgetStatus = async (db) => {
+  const budget = await getBudget(db)
+  const periodStart = budget.period === 'day' ? 'start of day' : 'start of month'
+  const row = await db.get(
+    `SELECT SUM(COALESCE(cost_usd, prompt_tokens / 1000.0 * ? + completion_tokens / 1000.0 * ?)) AS spent
+     FROM ai_usage WHERE created_at >= datetime('now', ?)`,
+    [...FALLBACK_PRICING, periodStart]
+  )
+  const spentUsd = Number((row?.spent || 0).toFixed(6))
+
+  if (budget.limitUsd === null) {
+    return { ...budget, spentUsd, remainingUsd: null, exceeded: false }
+  }
+  return {
+    ...budget,
+    spentUsd,
+    remainingUsd: Number(Math.max(0, budget.limitUsd - spentUsd).toFixed(6)),
+    exceeded: spentUsd >= budget.limitUsd
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * vault.js - Verschlüsselter Speicher für API-Keys der KI-Provider
+ *
+ * Keys werden mit AES-256-GCM verschlüsselt in app.db abgelegt.
+ * Der Schlüssel wird aus VAULT_MASTER_KEY abgeleitet; ohne Master-Secret
+ * können keine Keys gespeichert oder entschlüsselt werden.
+ * Nach außen verlassen Keys den Server nur maskiert.
+ */
+
+import crypto from 'crypto'
+import { Buffer } from 'buffer'
+import process from 'process'
+
+const ALGORITHM = 'aes-256-gcm'
+const KEY_SALT = 'accplication-assistant-vault'
+
+let derivedKey = null
+
+export const isVaultConfigured = () => Boolean(process.env.VAULT_MASTER_KEY)
+
+const getKey = () => {
+  if (!isVaultConfigured()) {
+    throw new Error('VAULT_MASTER_KEY is not configured')
+  }
+  if (!derivedKey) {
+    derivedKey = crypto.scryptSync(process.env.VAULT_MASTER_KEY, KEY_SALT, 32)
+  }
+  return derivedKey
+}
+
+const encryptSecret = (plain) => {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()])
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64')
+  }
+}
+
+const decryptSecret = ({ key_ciphertext: ciphertext, key_iv: iv, key_tag: tag }) => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf-8')
+  } catch {
+    throw new Error('Stored key cannot be decrypted (wrong VAULT_MASTER_KEY?)')
+  }
+}
+
+/**
+ * Maskiert einen Key für die Anzeige, z.B. "sk-…a1b2"
+ */
+export const maskSecret = (plain) => {
+  if (!plain) {
+    return null
+  }
+  return plain.length <= 8 ? '••••' : `${plain.slice(0, 3)}…${plain.slice(-4)}`
+}
+
+const mapCredentialRow = (row) => ({
+  id: row.id,
+  provider: row.provider,
+  label: row.label,
+  apiUrl: row.api_url,
+  maskedKey: row.key_hint,
+  lastTestedAt: row.last_tested_at,
+  lastTestOk: row.last_test_ok === null ? null : Boolean(row.last_test_ok),
+  createdAt: row.created_at
+})
+
+/**
+ * Listet alle gespeicherten Zugangsdaten (nur maskiert)
+ */
+export const listCredentials = async (db) => {
+  const rows = await db.all('SELECT * FROM api_credentials ORDER BY provider, created_at')
+  return rows.map(mapCredentialRow)
+}
+
+/**
+ * Speichert neue Zugangsdaten verschlüsselt
+ *
+ * @param db - App-Datenbank aus getAppDb()
+ * @param credential - { provider, apiKey, label?, apiUrl? }
+ * @returns Gespeicherter Eintrag (maskiert)
+ */
+export const addCredential = async (db, { provider, apiKey, label, apiUrl }) => {
+  const encrypted = apiKey ? encryptSecret(apiKey) : null
+  const id = `svc_${crypto.randomBytes(8).toString('hex')}`
+
+  await db.run(
+    `INSERT INTO api_credentials (id, provider, label, api_url, key_ciphertext, key_iv, key_tag, key_hint)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      provider,
+      label || null,
+      apiUrl || null,
+      encrypted?.ciphertext || null,
+      encrypted?.iv || null,
+      encrypted?.tag || null,
+      maskSecret(apiKey)
+    ]
+  )
+
+  const row = await db.get('SELECT * FROM api_credentials WHERE id = ?', [id])
+  return mapCredentialRow(row)
+}
+
+export const deleteCredential = async (db, id) => {
+  const result = await db.run('DELETE FROM api_credentials WHERE id = ?', [id])
+  return result.changes > 0
+}
+
+/**
+ * Lädt und entschlüsselt Zugangsdaten für einen Provider-Aufruf
+ * Nur serverseitig verwenden, der Key darf nicht in Responses landen
+ *
+ * @returns { id, provider, apiKey, apiUrl } oder null, wenn die ID unbekannt ist
+ */
+export const resolveCredential = async (db, id) => {
+  const row = await db.get('SELECT * FROM api_credentials WHERE id = ?', [id])
+  if (!row) {
+    return null
+  }
+
+  return {
+    id: row.id,
+    provider: row.provider,
+    apiKey: row.key_ciphertext ? decryptSecret(row) : undefined,
+    apiUrl: row.api_url || undefined
+  }
+}
+
+/**
+ * Merkt sich das Ergebnis des letzten Verbindungstests
+ */
+export const recordCredentialTest = async (db, id, ok) => {
+  await db.run(
+    `UPDATE api_credentials
+     SET last_tested_at = datetime('now'), last_test_ok = ?, updated_at = datetime('now')
+     WHERE id = ?`,
+    [ok ? 1 : 0, id]
+  )
+  const row = await db.get('SELECT * FROM api_credentials WHERE id = ?', [id])
+  return mapCredentialRow(row)
+}
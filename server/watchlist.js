@@ -0,0 +1,66 @@
+/**
+ * watchlist.js - Beobachtete Firmen pro Chat
+ *
+ * Viele Firmen veröffentlichen ihre Stellen über ein Bewerbermanagement-System
+ * (ATS) mit öffentlichem Job-Board. Ein Eintrag merkt sich Firmenname,
+ * ATS-Typ und Board-Slug; die passenden Adapter in jobsources.js holen
+ * daraus alle offenen Stellen.
+ */
+
+// Unterstützte ATS-Typen, id = Adapter-id in jobsources.js
+export const ATS_TYPES = ['greenhouse', 'lever', 'workable', 'personio']
+
+export const MAX_WATCHED_COMPANIES = 100
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9._-]{0,99}$/i
+
+const mapCompanyRow = (row) => ({
+  id: row.id,
+  name: row.name,
+  ats: row.ats,
+  slug: row.slug,
+  createdAt: row.created_at
+})
+
+/**
+ * Prüft und bereinigt einen neuen Eintrag
+ * Der Slug ist der Board-Name im ATS, z.B. "acme" aus boards.greenhouse.io/acme
+ *
+ * @returns { value } oder { error }
+ */
+export const validateWatchedCompany = (body = {}) => {
+  const ats = String(body.ats || '').trim().toLowerCase()
+  if (!ATS_TYPES.includes(ats)) {
+    return { error: `ats must be one of ${ATS_TYPES.join(', ')}` }
+  }
+  const slug = String(body.slug || '').trim()
+  if (!SLUG_PATTERN.test(slug)) {
+    return { error: 'slug may only contain letters, digits, ".", "_" and "-"' }
+  }
+  const name = String(body.name || '').trim() || slug
+  return { value: { name: name.slice(0, 100), ats, slug: slug.toLowerCase() } }
+}
+
+export const listWatchedCompanies = async (db) => {
+  const rows = await db.all('SELECT * FROM watched_companies ORDER BY name COLLATE NOCASE, id')
+  return rows.map(mapCompanyRow)
+}
+
+/**
+ * Legt eine Firma an; gleicher ATS-Typ und Slug aktualisiert nur den Namen
+ * @returns Gespeicherter Eintrag
+ */
+export const addWatchedCompany = async (db, { name, ats, slug }) => {
+  await db.run(
+    `INSERT INTO watched_companies (name, ats, slug) VALUES (?, ?, ?)
+     ON CONFLICT(ats, slug) DO UPDATE SET name = excluded.name`,
+    [name, ats, slug]
+  )
+  const row = await db.get('SELECT * FROM watched_companies WHERE ats = ? AND slug = ?', [ats, slug])
+  return mapCompanyRow(row)
+}
+
+export const deleteWatchedCompany = async (db, id) => {
+  const result = await db.run('DELETE FROM watched_companies WHERE id = ?', [id])
+  return result.changes > 0
+}
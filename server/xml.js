@@ -0,0 +1,53 @@
+/**
+ * xml.js - Minimaler XML-Leser für Feeds und ATS-Exporte
+ *
+ * Kein vollständiger Parser: Elemente werden per Name gesucht, Attribute
+ * und Text (CDATA oder mit aufgelösten Entities) gelesen. Reicht für die
+ * flachen Strukturen von RSS, Atom und Personio.
+ */
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+export const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+  if (entity[0] === '#') {
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match
+  }
+  return ENTITIES[entity.toLowerCase()] ?? match
+})
+
+// Inhalt eines XML-Elements, CDATA bleibt roh, sonst werden Entities aufgelöst
+const readXmlText = (inner) => {
+  const cdata = inner.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  return (cdata ? cdata[1] : decodeEntities(inner)).trim()
+}
+
+const escapeTagName = (name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Alle Vorkommen eines Elements (Namespace-Präfix wie "dc:" muss mit angegeben werden)
+ * @returns [{ attributes, text }]
+ */
+export const findXmlElements = (xml, name) => {
+  const tag = escapeTagName(name)
+  const pattern = new RegExp(`<${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${tag}>)`, 'gi')
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    attributes: Object.fromEntries(
+      Array.from((match[1] || '').matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g), (attr) => [
+        attr[1].toLowerCase(),
+        decodeEntities(attr[3] ?? attr[4] ?? '')
+      ])
+    ),
+    text: readXmlText(match[2] || '')
+  }))
+}
+
+export const getXmlText = (xml, ...names) => {
+  for (const name of names) {
+    const element = findXmlElements(xml, name).find(entry => entry.text)
+    if (element) {
+      return element.text
+    }
+  }
+  return ''
+}
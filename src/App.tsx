@@ -18,15 +18,36 @@ import './App.css'
 import data from './data.json'
 import type {
   Message,
+  ChatMessage,
+  ChatMessageMeta,
   Conversation,
   GlobalSettings,
   ChatSettings,
   DataFile,
   WebPageRecord,
   CrawlResultItem,
+  SeedCrawlGraphNode,
+  CrawlJob,
+  CrawlJobItem,
+  CrawlJobStatus,
+  SeedCrawlSkipReason,
   WebPreviewItem,
   JobSearchItem,
-  FileRecord
+  JobSource,
+  JobSourceStatus,
+  JobSearchFilters,
+  JobEmploymentType,
+  SavedSearch,
+  JobRecord,
+  JobFeed,
+  AtsType,
+  WatchedCompany,
+  FileRecord,
+  RetrievalSource,
+  AiCredential,
+  AiServiceInfo,
+  UsageSummaryResponse,
+  UsageBudgetStatus
 } from './type'
 import {
   getTranslation,
@@ -34,16 +55,58 @@ import {
   isMessageValid,
   parseUrlList,
   limitUrls,
-  crawlUrls,
+  crawlFromSeed,
+  fetchCrawlJobs,
+  fetchCrawlJob,
+  createCrawlJob,
+  updateCrawlJobState,
+  retryFailedCrawlJob,
+  subscribeCrawlJob,
+  reextractPages,
   searchPages,
   searchJobs,
+  fetchJobSources,
+  mergeJobSourceStatus,
+  fetchSavedSearches,
+  createSavedSearch,
+  deleteSavedSearch,
+  runSavedSearch,
+  fetchSavedSearchResults,
+  markSavedSearchSeen,
+  fetchSavedJobs,
+  saveJobs,
+  deleteSavedJob,
+  formatJobRecordText,
+  fetchJobFeeds,
+  addJobFeed,
+  deleteJobFeed,
+  fetchWatchedCompanies,
+  addWatchedCompany,
+  deleteWatchedCompany,
   previewUrls,
   fetchFiles,
-  fetchFileContent,
+  fetchFileText,
+  parseHeaderLines,
+  parseFallbackLines,
+  fetchAiServices,
+  fetchCredentials,
+  saveCredential,
+  testCredential,
+  deleteCredential,
+  fetchUsage,
+  saveUsageBudget,
+  saveCompatiblePricing,
+  formatUsd,
   previewDbFilter,
   deleteFilteredDb,
   fetchAllPages,
-  getNextConversationId,
+  fetchConversations,
+  createConversation,
+  renameConversation,
+  deleteConversation,
+  fetchMessages,
+  appendMessage,
+  streamChat,
   filterConversations,
   updateConversationTitle,
   buildSelectionMap,
@@ -55,6 +118,56 @@ import {
 const dataFile = data as DataFile
 const { themes, translations } = dataFile
 
+// Begrüßung für Konversationen ohne gespeicherten Verlauf
+const welcomeMessage: Message = {
+  id: 0,
+  text: 'Hallo! Ich helfe dir bei der Jobsuche, Bewerbungserstellung und Unternehmensforschung. Beschreib dein Profil, dann kann ich dir passende Stellen finden und Bewerbungen optimieren. Los geht\'s! 🚀',
+  sender: 'ai'
+}
+
+// Standard-URLs der Provider mit eigenem Endpoint
+const DEFAULT_API_URLS: Record<string, string> = {
+  ollama: 'http://localhost:11434',
+  'openai-compatible': 'http://localhost:1234/v1'
+}
+
+// Länder und Zeiträume der Job-Filterleiste (wie JOB_FILTER_COUNTRIES im Server)
+const JOB_FILTER_COUNTRIES = ['de', 'at', 'ch', 'gb', 'us', 'fr', 'nl', 'es', 'it', 'pl', 'be', 'ca', 'au']
+const JOB_FILTER_DAYS = [1, 3, 7, 14, 30]
+
+// Intervalle für gespeicherte Suchen (Minuten) und wie oft die Badges nachgeladen werden
+const SAVED_SEARCH_INTERVALS = [60, 360, 720, 1440]
+const SAVED_SEARCH_POLL_MS = 60 * 1000
+
+// Übersetzungsschlüssel für Gründe, aus denen der Seed-Crawl eine URL übersprungen hat
+const SEED_SKIP_LABELS: Partial<Record<SeedCrawlSkipReason, string>> = {
+  excluded: 'seedSkipExcluded',
+  not_matched: 'seedSkipNotMatched',
+  not_html: 'seedSkipNotHtml',
+  max_depth: 'seedSkipMaxDepth',
+  max_pages: 'seedSkipMaxPages',
+  external: 'seedSkipExternal',
+  http_error: 'seedSkipHttpError',
+  no_content: 'seedSkipNoContent',
+  failed: 'seedSkipFailed'
+}
+
+// Übersetzungsschlüssel für den Status eines Crawl-Jobs
+const CRAWL_JOB_STATUS_LABELS: Record<CrawlJobStatus, string> = {
+  running: 'crawlJobRunning',
+  paused: 'crawlJobPaused',
+  completed: 'crawlJobCompleted',
+  cancelled: 'crawlJobCancelled'
+}
+
+// ATS-Typen der Firmen-Watchlist (Anzeigename)
+const ATS_OPTIONS: { id: AtsType, label: string }[] = [
+  { id: 'greenhouse', label: 'Greenhouse' },
+  { id: 'lever', label: 'Lever' },
+  { id: 'workable', label: 'Workable' },
+  { id: 'personio', label: 'Personio' }
+]
+
 /**
  * Hauptkomponente der Anwendung
  * Verwaltet alle States und rendert die Benutzeroberfläche
@@ -62,16 +175,15 @@ const { themes, translations } = dataFile
 function App(): React.ReactElement {
   // ========== MESSAGE STATE ==========
   // messages: Alle Nachrichten in der aktuellen Jobsuche (User-Fragen + Assistenten-Antworten)
-  const [messages, setMessages] = useState<Message[]>([
-    { id: 1, text: 'Hallo! Ich helfe dir bei der Jobsuche, Bewerbungserstellung und Unternehmensforschung. Beschreib dein Profil, dann kann ich dir passende Stellen finden und Bewerbungen optimieren. Los geht\'s! 🚀', sender: 'ai' }
-  ])
+  // Wird beim Wechsel der Konversation vom Server geladen
+  const [messages, setMessages] = useState<ChatMessage[]>([welcomeMessage])
   // input: Aktuell eingegebener Text im Eingabefeld
   const [input, setInput] = useState<string>('')
-  // conversations: Liste aller bisherigen Konversationen in der Sidebar
-  const [conversations, setConversations] = useState<Conversation[]>([
-    { id: 1, title: 'Data Scientist Jobsuche' }
-  ])
-  const [activeConversationId, setActiveConversationId] = useState<number>(1)
+  // conversations: Liste aller bisherigen Konversationen in der Sidebar (serverseitig gespeichert)
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  // activeConversationId: null, bis die Konversationen geladen sind; erst dann laden die Chat-Effects
+  const [activeConversationId, setActiveConversationId] = useState<number | null>(null)
+  const conversationsLoadedRef = useRef<boolean>(false)
   const [conversationSearch, setConversationSearch] = useState<string>('')
   const [editingConversationId, setEditingConversationId] = useState<number | null>(null)
   const [editingConversationTitle, setEditingConversationTitle] = useState<string>('')
@@ -81,6 +193,20 @@ function App(): React.ReactElement {
   const [crawlResults, setCrawlResults] = useState<CrawlResultItem[]>([])
   const [crawlBusy, setCrawlBusy] = useState<boolean>(false)
   const [crawlError, setCrawlError] = useState<string>('')
+  const [reextractBusy, setReextractBusy] = useState<boolean>(false)
+  const [reextractInfo, setReextractInfo] = useState<string>('')
+  // Seed-Crawl: erste URL der Liste ist die Karriereseite, Links derselben Website werden verfolgt
+  const [seedMode, setSeedMode] = useState<boolean>(false)
+  const [seedDepth, setSeedDepth] = useState<number>(2)
+  const [seedMaxPages, setSeedMaxPages] = useState<number>(50)
+  const [seedInclude, setSeedInclude] = useState<string>('')
+  const [seedExclude, setSeedExclude] = useState<string>('')
+  const [seedGraph, setSeedGraph] = useState<SeedCrawlGraphNode[]>([])
+  const [seedSummary, setSeedSummary] = useState<string>('')
+  // URL-Listen laufen als Job auf dem Server; angezeigt wird der letzte Job des Chats
+  const [crawlJob, setCrawlJob] = useState<CrawlJob | null>(null)
+  const [crawlJobItems, setCrawlJobItems] = useState<CrawlJobItem[]>([])
+  const [crawlJobBusy, setCrawlJobBusy] = useState<boolean>(false)
 
   const [searchFields, setSearchFields] = useState<Array<{ id: number; value: string }>>([
     { id: 1, value: '' }
@@ -88,6 +214,32 @@ function App(): React.ReactElement {
   const [lastSearchQueries, setLastSearchQueries] = useState<string[]>([])
   const [searchResults, setSearchResults] = useState<WebPageRecord[]>([])
   const [jobResults, setJobResults] = useState<JobSearchItem[]>([])
+  const [jobSources, setJobSources] = useState<JobSource[]>([])
+  // Abgewählte Quellen (neue Quellen sind automatisch aktiv)
+  const [disabledJobSources, setDisabledJobSources] = useState<string[]>([])
+  const [jobSourceStatus, setJobSourceStatus] = useState<JobSourceStatus[]>([])
+  // Alter der ältesten Antwort aus dem Server-Cache (null = alles frisch abgefragt)
+  const [jobCacheInfo, setJobCacheInfo] = useState<{ ageMs: number, stale: boolean } | null>(null)
+  const [jobFilters, setJobFilters] = useState<JobSearchFilters>({})
+  // Kurze API-Beschreibungen beim Suchen von der Landingpage nachladen (langsamer)
+  const [fetchFullDescriptions, setFetchFullDescriptions] = useState<boolean>(false)
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [savedSearchInterval, setSavedSearchInterval] = useState<number>(1440)
+  const [savedSearchBusyId, setSavedSearchBusyId] = useState<number | null>(null)
+  // In der Chat-Datenbank gespeicherte Jobs und die zum Speichern markierten API-Treffer (JobSearchItem.id)
+  const [savedJobs, setSavedJobs] = useState<JobRecord[]>([])
+  const [selectedJobHits, setSelectedJobHits] = useState<Record<string, boolean>>({})
+  const [jobSaveBusy, setJobSaveBusy] = useState<boolean>(false)
+  const [jobFeeds, setJobFeeds] = useState<JobFeed[]>([])
+  const [feedUrlInput, setFeedUrlInput] = useState<string>('')
+  const [feedBusy, setFeedBusy] = useState<boolean>(false)
+  const [watchedCompanies, setWatchedCompanies] = useState<WatchedCompany[]>([])
+  const [companyInput, setCompanyInput] = useState<{ name: string, ats: AtsType, slug: string }>({
+    name: '',
+    ats: 'greenhouse',
+    slug: ''
+  })
+  const [companyBusy, setCompanyBusy] = useState<boolean>(false)
   const [searchBusy, setSearchBusy] = useState<boolean>(false)
   const [searchError, setSearchError] = useState<string>('')
   const [dbResultsQuery, setDbResultsQuery] = useState<string>('')
@@ -121,11 +273,13 @@ function App(): React.ReactElement {
   })
   // chatSettings: Einstellungen die nur für die aktuelle Jobsuche gelten
   // - temperature: Wie präzise vs. kreativ die Vorschläge sein sollen (0=präzise, 1=kreativ)
+  // - maxTokens: Maximale Antwortlänge, längere Antworten werden abgeschnitten (finishReason 'length')
   // - model: Welches KI-Modell verwendet werden soll
   // - writingStyle: Ton der Bewerbungsschreiben (Professionell, Standard, Enthusiastisch, Technisch)
   // - systemPrompt: Recruiter-Anleitung für diese Jobsuche
   const [chatSettings, setChatSettings] = useState<ChatSettings>({
     temperature: 0.5,
+    maxTokens: 1000,
     model: 'gpt-4',
     writingStyle: 'formal',
     systemPrompt: 'Ich bin ein erfahrener Recruiter und Karriereberater. Ich helfe bei der Jobsuche, Bewerbungserstellung und Unternehmensrecherche.'
@@ -133,11 +287,23 @@ function App(): React.ReactElement {
 
   // ========== AI SERVICE STATE ==========
   const [aiProvider, setAiProvider] = useState<string>('local')
-  const [aiApiKey, setAiApiKey] = useState<string>('')
-  const [aiApiUrl, setAiApiUrl] = useState<string>('http://localhost:11434')
+  // API-Keys liegen verschlüsselt auf dem Server, der Client kennt nur die serviceId
+  const [aiCredentials, setAiCredentials] = useState<AiCredential[]>([])
+  const [aiServiceId, setAiServiceId] = useState<string>('')
+  const [vaultConfigured, setVaultConfigured] = useState<boolean>(true)
+  const [newApiKey, setNewApiKey] = useState<string>('')
+  const [newApiKeyLabel, setNewApiKeyLabel] = useState<string>('')
+  const [credentialStatus, setCredentialStatus] = useState<string>('')
+  const [aiApiUrl, setAiApiUrl] = useState<string>(DEFAULT_API_URLS.ollama)
+  // Eigene Header für OpenAI-kompatible Server, eine Zeile pro "Name: Wert"
+  const [aiCustomHeaders, setAiCustomHeaders] = useState<string>('')
+  // Fallback-Kette, eine Zeile pro "provider modell [apiUrl]"
+  const [aiFallbackChain, setAiFallbackChain] = useState<string>('')
   const [aiLoading, setAiLoading] = useState<boolean>(false)
   const [aiError, setAiError] = useState<string>('')
-  const [availableServices, setAvailableServices] = useState<any[]>([])
+  const aiAbortRef = useRef<AbortController | null>(null)
+  const [availableServices, setAvailableServices] = useState<AiServiceInfo[]>([])
+  const [modelsLoading, setModelsLoading] = useState<boolean>(false)
   const [showApiKeyInput, setShowApiKeyInput] = useState<boolean>(false)
 
   // ========== FILE UPLOAD STATE ==========
@@ -152,6 +318,8 @@ function App(): React.ReactElement {
   const [filterExclude, setFilterExclude] = useState<string>('')
   const [filterPreviewItems, setFilterPreviewItems] = useState<WebPageRecord[]>([])
   const [filterPreviewTotal, setFilterPreviewTotal] = useState<number>(0)
+  const [filterPreviewJobs, setFilterPreviewJobs] = useState<JobRecord[]>([])
+  const [filterPreviewJobTotal, setFilterPreviewJobTotal] = useState<number>(0)
   const [filterBusy, setFilterBusy] = useState<boolean>(false)
   const [filterError, setFilterError] = useState<string>('')
 
@@ -163,6 +331,17 @@ function App(): React.ReactElement {
 
   // ========== MODAL STATE ==========
   const [helpModalOpen, setHelpModalOpen] = useState<boolean>(false)
+  const [usageModalOpen, setUsageModalOpen] = useState<boolean>(false)
+
+  // ===== USAGE STATE =====
+  const [usageSummary, setUsageSummary] = useState<UsageSummaryResponse | null>(null)
+  const [usageDays, setUsageDays] = useState<number>(30)
+  const [usageError, setUsageError] = useState<string>('')
+  const [budgetLimitInput, setBudgetLimitInput] = useState<string>('')
+  const [budgetPeriod, setBudgetPeriod] = useState<UsageBudgetStatus['period']>('month')
+  // Preis für openai-compatible Endpunkte, beide Felder leer = unbekannt
+  const [compatiblePromptPriceInput, setCompatiblePromptPriceInput] = useState<string>('')
+  const [compatibleCompletionPriceInput, setCompatibleCompletionPriceInput] = useState<string>('')
 
   /**
    * Translation helper function
@@ -175,25 +354,159 @@ function App(): React.ReactElement {
   // ========== EFFECTS ==========
 
   /**
-   * Load available AI services on component mount
+   * Load available AI services and their models
+   * Lädt neu, wenn Provider, URL oder Key wechseln (verzögert, damit nicht jeder Tastendruck abfragt)
    */
   useEffect(() => {
-    const loadServices = async () => {
+    const timer = setTimeout(async () => {
+      setModelsLoading(true)
       try {
-        const response = await fetch('/api/ai/services')
-        if (response.ok) {
-          const data = await response.json()
-          setAvailableServices(data.services || [])
-        }
+        const response = await fetchAiServices({
+          provider: aiProvider,
+          apiUrl: aiApiUrl.trim(),
+          serviceId: aiServiceId
+        })
+        setAvailableServices(response.services)
       } catch (error) {
         console.error('Failed to load AI services:', error)
+      } finally {
+        setModelsLoading(false)
+      }
+    }, 400)
+
+    return () => clearTimeout(timer)
+  }, [aiProvider, aiApiUrl, aiServiceId, aiCredentials.length])
+
+  /**
+   * Load available job sources on component mount
+   */
+  useEffect(() => {
+    const loadJobSources = async () => {
+      try {
+        setJobSources(await fetchJobSources())
+      } catch (error) {
+        console.error('Failed to load job sources:', error)
       }
     }
 
-    loadServices()
+    loadJobSources()
   }, [])
 
+  /**
+   * Load usage summary while the usage view is open
+   */
   useEffect(() => {
+    if (!usageModalOpen) {
+      return
+    }
+
+    const loadUsage = async () => {
+      setUsageError('')
+      try {
+        const summary = await fetchUsage(usageDays)
+        setUsageSummary(summary)
+        setBudgetLimitInput(summary.budget.limitUsd === null ? '' : String(summary.budget.limitUsd))
+        setBudgetPeriod(summary.budget.period)
+        setCompatiblePromptPriceInput(summary.compatiblePricing ? String(summary.compatiblePricing.costPer1kPromptTokens) : '')
+        setCompatibleCompletionPriceInput(summary.compatiblePricing ? String(summary.compatiblePricing.costPer1kCompletionTokens) : '')
+      } catch (error) {
+        console.error('Failed to load usage:', error)
+        setUsageError(t('errorUsageLoadFailed'))
+      }
+    }
+
+    loadUsage()
+  }, [usageModalOpen, usageDays])
+
+  /**
+   * Load stored API credentials on component mount
+   */
+  useEffect(() => {
+    const loadCredentials = async () => {
+      try {
+        const response = await fetchCredentials()
+        setAiCredentials(response.credentials)
+        setVaultConfigured(response.vaultConfigured)
+      } catch (error) {
+        console.error('Failed to load API credentials:', error)
+      }
+    }
+
+    loadCredentials()
+  }, [])
+
+  /**
+   * Select a stored key for the current provider
+   * Behält die Auswahl, solange sie zum Provider passt
+   */
+  useEffect(() => {
+    const matching = aiCredentials.filter((credential) => credential.provider === aiProvider)
+    if (!matching.some((credential) => credential.id === aiServiceId)) {
+      setAiServiceId(matching[0]?.id || '')
+    }
+  }, [aiProvider, aiCredentials, aiServiceId])
+
+  /**
+   * Load stored conversations on component mount
+   * Legt eine erste Konversation an, falls noch keine existiert
+   */
+  useEffect(() => {
+    // StrictMode ruft Effects doppelt auf - nur einmal laden/anlegen
+    if (conversationsLoadedRef.current) {
+      return
+    }
+    conversationsLoadedRef.current = true
+
+    const loadConversations = async () => {
+      try {
+        const response = await fetchConversations()
+        const records = response.conversations.length > 0
+          ? response.conversations
+          : [await createConversation()]
+
+        setConversations(records.map(({ id, title }) => ({ id, title })))
+        setActiveConversationId(records[0].id)
+      } catch (error) {
+        console.error('Failed to load conversations:', error)
+      }
+    }
+
+    loadConversations()
+  }, [])
+
+  /**
+   * Load message history whenever the active conversation changes
+   */
+  useEffect(() => {
+    if (activeConversationId === null) {
+      return undefined
+    }
+    let cancelled = false
+
+    const loadMessages = async () => {
+      try {
+        const response = await fetchMessages(activeConversationId)
+        if (!cancelled) {
+          setMessages(response.messages.length > 0 ? response.messages : [welcomeMessage])
+        }
+      } catch (error) {
+        console.error('Failed to load messages:', error)
+        if (!cancelled) {
+          setMessages([welcomeMessage])
+        }
+      }
+    }
+
+    loadMessages()
+    return () => {
+      cancelled = true
+    }
+  }, [activeConversationId])
+
+  useEffect(() => {
+    if (activeConversationId === null) {
+      return
+    }
     const loadFiles = async () => {
       try {
         const response = await fetchFiles(activeConversationId)
@@ -206,6 +519,129 @@ function App(): React.ReactElement {
     loadFiles()
   }, [activeConversationId])
 
+  useEffect(() => {
+    if (activeConversationId === null) {
+      return
+    }
+    const loadSavedJobs = async () => {
+      try {
+        setSavedJobs(await fetchSavedJobs(activeConversationId))
+      } catch (error) {
+        console.error('Failed to load saved jobs:', error)
+      }
+    }
+
+    setSelectedJobHits({})
+    loadSavedJobs()
+  }, [activeConversationId])
+
+  useEffect(() => {
+    if (activeConversationId === null) {
+      return
+    }
+    const loadJobFeeds = async () => {
+      try {
+        setJobFeeds(await fetchJobFeeds(activeConversationId))
+      } catch (error) {
+        console.error('Failed to load job feeds:', error)
+      }
+    }
+
+    const loadWatchedCompanies = async () => {
+      try {
+        setWatchedCompanies(await fetchWatchedCompanies(activeConversationId))
+      } catch (error) {
+        console.error('Failed to load watched companies:', error)
+      }
+    }
+
+    loadJobFeeds()
+    loadWatchedCompanies()
+  }, [activeConversationId])
+
+  /**
+   * Letzten Crawl-Job des Chats laden, damit laufende und fertige Jobs
+   * auch nach dem Schließen des Tabs sichtbar bleiben
+   */
+  useEffect(() => {
+    if (activeConversationId === null) {
+      return undefined
+    }
+    let cancelled = false
+
+    const loadLatestCrawlJob = async () => {
+      try {
+        const [latest] = await fetchCrawlJobs(activeConversationId)
+        const detail = latest ? await fetchCrawlJob(activeConversationId, latest.id) : null
+        if (!cancelled) {
+          setCrawlJob(detail?.job ?? null)
+          setCrawlJobItems(detail?.items ?? [])
+        }
+      } catch (error) {
+        console.error('Failed to load crawl jobs:', error)
+      }
+    }
+
+    setCrawlJob(null)
+    setCrawlJobItems([])
+    loadLatestCrawlJob()
+    return () => {
+      cancelled = true
+    }
+  }, [activeConversationId])
+
+  const crawlJobId = crawlJob?.id ?? null
+  const crawlJobLive = crawlJob?.status === 'running' || crawlJob?.status === 'paused'
+
+  // Fortschritt per SSE, solange der Job läuft oder pausiert ist
+  useEffect(() => {
+    if (activeConversationId === null || !crawlJobId || !crawlJobLive) {
+      return undefined
+    }
+    return subscribeCrawlJob(activeConversationId, crawlJobId, (event) => {
+      setCrawlJob(event.job)
+      const { item } = event
+      if (item) {
+        setCrawlJobItems((prev) => prev.map((entry) => (entry.position === item.position ? item : entry)))
+      }
+    })
+  }, [activeConversationId, crawlJobId, crawlJobLive])
+
+  /**
+   * Gespeicherte Suchen des Chats laden und regelmäßig nachladen,
+   * damit neue Treffer aus dem Server-Scheduler als Badge erscheinen
+   */
+  useEffect(() => {
+    if (activeConversationId === null) {
+      return undefined
+    }
+    let cancelled = false
+
+    const loadSavedSearches = async () => {
+      try {
+        const items = await fetchSavedSearches(activeConversationId)
+        if (!cancelled) {
+          setSavedSearches(items)
+        }
+      } catch (error) {
+        console.error('Failed to load saved searches:', error)
+      }
+    }
+
+    loadSavedSearches()
+    const timer = window.setInterval(loadSavedSearches, SAVED_SEARCH_POLL_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [activeConversationId])
+
+  // Ein gespeicherter Key geht nur an seine eigene URL, das URL-Feld zeigt sie dann nur an
+  // (außer beim Anlegen eines neuen Keys, der die eingetragene URL übernimmt)
+  const credentialApiUrl = showApiKeyInput
+    ? null
+    : aiCredentials.find((credential) => credential.id === aiServiceId && credential.provider === aiProvider)?.apiUrl || null
+
   // ========== EVENT HANDLER ==========
 
   /**
@@ -228,21 +664,19 @@ function App(): React.ReactElement {
 
   /**
    * Start a new chat
-   * Setzt den Chat zurück auf den Anfangszustand
-   * Löscht alte Nachrichten und schließt die Sidebar
+   * Legt die Konversation serverseitig an und wechselt dorthin
+   * Der (leere) Verlauf wird über den Effect auf activeConversationId geladen
    */
-  const handleNewChat = (): void => {
-    const nextId = getNextConversationId(conversations)
-    const nextConversation: Conversation = {
-      id: nextId,
-      title: `Neue Konversation ${nextId}`
-    }
-    setConversations((prev) => [...prev, nextConversation])
-    setActiveConversationId(nextId)
-    setMessages([
-      { id: 1, text: 'Hallo! Neue Jobsuche gestartet. Was für eine Position interessiert dich? 📋', sender: 'ai' }
-    ])
-    setSidebarOpen(false)
+  const handleNewChat = async (): Promise<void> => {
+    try {
+      const created = await createConversation()
+      const nextConversation: Conversation = { id: created.id, title: created.title }
+      setConversations((prev) => [...prev, nextConversation])
+      setActiveConversationId(created.id)
+      setSidebarOpen(false)
+    } catch (error) {
+      console.error('Failed to create conversation:', error)
+    }
   }
 
   const handleStartEditConversation = (conv: Conversation): void => {
@@ -250,18 +684,26 @@ function App(): React.ReactElement {
     setEditingConversationTitle(conv.title)
   }
 
-  const handleCommitConversationTitle = (): void => {
+  const handleCommitConversationTitle = async (): Promise<void> => {
     if (editingConversationId === null) {
       return
     }
+    const conversationId = editingConversationId
+    const nextTitle = editingConversationTitle.trim() || t('defaultConversationTitle')
     setConversations((prev) => updateConversationTitle(
       prev,
-      editingConversationId,
-      editingConversationTitle,
+      conversationId,
+      nextTitle,
       t('defaultConversationTitle')
     ))
     setEditingConversationId(null)
     setEditingConversationTitle('')
+
+    try {
+      await renameConversation(conversationId, nextTitle)
+    } catch (error) {
+      console.error('Failed to rename conversation:', error)
+    }
   }
 
   const handleCancelConversationEdit = (): void => {
@@ -269,32 +711,45 @@ function App(): React.ReactElement {
     setEditingConversationTitle('')
   }
 
-  const handleDeleteConversation = (id: number): void => {
-    setConversations((prev) => {
-      const next = prev.filter(conv => conv.id !== id)
+  const handleDeleteConversation = async (id: number): Promise<void> => {
+    try {
+      await deleteConversation(id)
+      const next = conversations.filter(conv => conv.id !== id)
+
+      if (next.length === 0) {
+        // Es muss immer mindestens eine Konversation geben
+        const created = await createConversation()
+        setConversations([{ id: created.id, title: created.title }])
+        setActiveConversationId(created.id)
+        return
+      }
 
+      setConversations(next)
       if (id === activeConversationId) {
-        if (next.length > 0) {
-          setActiveConversationId(next[0].id)
-          setMessages([
-            { id: 1, text: 'Hallo! Neue Jobsuche gestartet. Was fuer eine Position interessiert dich? 📋', sender: 'ai' }
-          ])
-        } else {
-          const newId = getNextConversationId(prev)
-          const newConversation: Conversation = {
-            id: newId,
-            title: `Neue Konversation ${newId}`
-          }
-          setActiveConversationId(newId)
-          setMessages([
-            { id: 1, text: 'Hallo! Neue Jobsuche gestartet. Was fuer eine Position interessiert dich? 📋', sender: 'ai' }
-          ])
-          return [newConversation]
-        }
+        setActiveConversationId(next[0].id)
       }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error)
+    }
+  }
 
-      return next
-    })
+  /**
+   * Speichert eine Nachricht im Verlauf der Konversation
+   * Fällt auf eine nur lokal angezeigte Nachricht zurück, falls der Server nicht erreichbar ist
+   */
+  const persistMessage = async (
+    conversationId: number,
+    sender: Message['sender'],
+    text: string,
+    sources?: RetrievalSource[],
+    meta?: ChatMessageMeta
+  ): Promise<ChatMessage> => {
+    try {
+      return await appendMessage(conversationId, sender, text, sources, meta)
+    } catch (error) {
+      console.error('Failed to save message:', error)
+      return { id: -Date.now(), text, sender, sources, ...meta }
+    }
   }
 
   /**
@@ -302,6 +757,9 @@ function App(): React.ReactElement {
    * Validiert und speichert hochgeladene Dateien
    */
   const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
     const files = e.currentTarget.files
     if (!files) return
 
@@ -379,35 +837,37 @@ function App(): React.ReactElement {
   /**
    * Send message to AI
    * Vereinfachte Logik: Nur Chat mit KI, keine Web-Suche
-   * KI hat Zugriff auf Datenbank des aktuellen Chats wenn nötig
+   * Der Server sucht passende Seiten aus der Datenbank des aktuellen Chats (Retrieval)
+   * und gibt sie als Quellen zurück, die unter der Antwort verlinkt werden
+   * Die Antwort wird gestreamt und wächst im Nachrichtenbereich mit
    */
   const handleSendMessage = async (): Promise<void> => {
-    if (!isMessageValid(input)) {
+    if (!isMessageValid(input) || aiLoading || activeConversationId === null) {
       return
     }
 
-    // User-Nachricht erstellen
-    const newMessage: Message = {
-      id: messages.length + 1,
-      text: input,
-      sender: 'user'
-    }
-    setMessages([...messages, newMessage])
+    // Konversation merken, damit die Antwort auch nach einem Chat-Wechsel richtig gespeichert wird
+    const conversationId = activeConversationId
+    const text = input
     setInput('')
     setFileUploadError('')
 
+    // User-Nachricht erstellen und speichern
+    const newMessage = await persistMessage(conversationId, 'user', text)
+    setMessages((prev) => [...prev, newMessage])
+
     // AI-Antwort abrufen
     setAiLoading(true)
     setAiError('')
+    const streamingId = -Date.now()
 
     try {
       // Prepare messages for API
       // Kombiniere globale Instruktion + chat-spezifische Instruktion
+      // Der Inhalt hochgeladener Dateien wird serverseitig über fileIds ergänzt
       const systemPrompt = `${globalSettings.globalSystemPrompt}
 
-${chatSettings.systemPrompt}
-
-${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f => f.name).join(', ')}` : ''}`
+${chatSettings.systemPrompt}`
 
       const messagesForApi = [
         {
@@ -420,59 +880,90 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
         })),
         {
           role: 'user' as const,
-          content: input
+          content: text
         }
       ]
 
-      // Call AI Service API
-      const response = await fetch('/api/ai/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
+      // Platzhalter für die wachsende AI-Antwort
+      setMessages((prev) => [...prev, { id: streamingId, text: '', sender: 'ai' }])
+
+      // Call AI Service API (Streaming)
+      const controller = new AbortController()
+      aiAbortRef.current = controller
+      const result = await streamChat(
+        {
           provider: aiProvider,
-          apiKey: aiApiKey || undefined,
+          serviceId: aiServiceId || undefined,
           apiUrl: aiApiUrl || undefined,
+          headers: aiProvider === 'openai-compatible' ? parseHeaderLines(aiCustomHeaders) : undefined,
           model: chatSettings.model,
           temperature: chatSettings.temperature,
+          maxTokens: chatSettings.maxTokens,
           messages: messagesForApi,
-          chatId: activeConversationId,
-          // Files for AI context (in production: send base64 content)
-          files: uploadedFiles.length > 0 ? uploadedFiles.map(f => f.name) : undefined
-        })
-      })
+          chatId: conversationId,
+          retrieval: true,
+          // Extrahierter Text der hochgeladenen Dateien als Kontext
+          fileIds: uploadedFiles.length > 0 ? uploadedFiles.map(f => f.id) : undefined,
+          fallbacks: parseFallbackLines(aiFallbackChain)
+        },
+        (token) => {
+          setMessages((prev) => prev.map((msg) => (
+            msg.id === streamingId ? { ...msg, text: msg.text + token } : msg
+          )))
+        },
+        controller.signal
+      )
 
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || t('errorAiRequestFailed'))
+      // Abgebrochen ohne Inhalt: Platzhalter wieder entfernen
+      if (result.aborted && !result.content) {
+        setMessages((prev) => prev.filter((msg) => msg.id !== streamingId))
+        return
       }
 
-      const data = await response.json()
-
-      // Add AI response to messages
-      const aiResponse: Message = {
-        id: messages.length + 2,
-        text: data.content || t('errorNoAiResponse'),
-        sender: 'ai'
-      }
-      setMessages((prev) => [...prev, aiResponse])
+      // Platzhalter durch gespeicherte AI-Antwort ersetzen
+      // Provider, Modell, Tokens und finishReason werden mitgespeichert
+      const meta: ChatMessageMeta | undefined = result.response
+        ? {
+            aiProvider: result.response.provider,
+            aiModel: result.response.model,
+            tokens: result.response.tokens,
+            finishReason: result.response.finishReason,
+            generatedAt: result.response.generatedAt
+          }
+        : undefined
+      const aiResponse = await persistMessage(
+        conversationId,
+        'ai',
+        result.content || t('errorNoAiResponse'),
+        result.sources,
+        meta
+      )
+      setMessages((prev) => prev.map((msg) => (msg.id === streamingId ? aiResponse : msg)))
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : t('errorUnknown')
       setAiError(errorMsg)
 
-      // Add error message
+      // Add error message (nur lokal, wird nicht gespeichert)
       const errorMessage: Message = {
-        id: messages.length + 2,
+        id: streamingId,
         text: `❌ Fehler: ${errorMsg}`,
         sender: 'ai'
       }
-      setMessages((prev) => [...prev, errorMessage])
+      setMessages((prev) => [...prev.filter((msg) => msg.id !== streamingId), errorMessage])
     } finally {
+      aiAbortRef.current = null
       setAiLoading(false)
     }
   }
 
+  /**
+   * Stop the running AI generation
+   * Bricht den Stream ab; der Server bricht daraufhin den Upstream-Request ab
+   */
+  const handleStopGeneration = (): void => {
+    aiAbortRef.current?.abort()
+  }
+
   /**
    * Handle Enter key press for sending message
    * Shift+Enter erstellt eine neue Zeile statt abzusenden
@@ -507,11 +998,126 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
     })
   }
 
+  /**
+   * Handle AI provider change
+   * Ersetzt die Standard-URL des alten Providers durch die des neuen,
+   * eine selbst eingetragene URL bleibt erhalten
+   */
+  const handleAiProviderChange = (e: ChangeEvent<HTMLSelectElement>): void => {
+    const provider = e.target.value
+    setAiProvider(provider)
+    if (Object.values(DEFAULT_API_URLS).includes(aiApiUrl) && DEFAULT_API_URLS[provider]) {
+      setAiApiUrl(DEFAULT_API_URLS[provider])
+    }
+    // Erstes Modell des neuen Providers wählen, falls das aktuelle dort nicht existiert
+    const models = availableServices.find((service) => service.provider === provider)?.models || []
+    if (models.length > 0 && !models.some((model) => model.modelId === chatSettings.model)) {
+      setChatSettings({ ...chatSettings, model: models[0].modelId })
+    }
+  }
+
+  /**
+   * Reload the model list of the current provider, bypassing the server cache
+   */
+  const handleRefreshModels = async (): Promise<void> => {
+    setModelsLoading(true)
+    try {
+      const response = await fetchAiServices({
+        provider: aiProvider,
+        apiUrl: aiApiUrl.trim(),
+        serviceId: aiServiceId,
+        refresh: true
+      })
+      setAvailableServices(response.services)
+    } catch (error) {
+      console.error('Failed to refresh AI models:', error)
+    } finally {
+      setModelsLoading(false)
+    }
+  }
+
+  /**
+   * Save a new API key in the server-side vault
+   * Der Key wird nur einmal übertragen und danach nur noch maskiert angezeigt
+   */
+  const handleSaveCredential = async (): Promise<void> => {
+    const apiKey = newApiKey.trim()
+    if (!apiKey) {
+      return
+    }
+
+    try {
+      // Für OpenAI-kompatible Server wird die URL mit dem Key gespeichert
+      const credential = await saveCredential(
+        aiProvider,
+        apiKey,
+        newApiKeyLabel.trim() || undefined,
+        aiProvider === 'openai-compatible' ? aiApiUrl.trim() || undefined : undefined
+      )
+      setAiCredentials((prev) => [...prev, credential])
+      setAiServiceId(credential.id)
+      setNewApiKey('')
+      setNewApiKeyLabel('')
+      setShowApiKeyInput(false)
+      setCredentialStatus('')
+    } catch (error) {
+      setCredentialStatus(error instanceof Error ? error.message : t('errorUnknown'))
+    }
+  }
+
+  /**
+   * Test the selected stored key against the provider
+   */
+  const handleTestCredential = async (): Promise<void> => {
+    if (!aiServiceId) {
+      return
+    }
+
+    try {
+      const result = await testCredential(aiServiceId)
+      setAiCredentials((prev) => prev.map((credential) => (
+        credential.id === result.credential.id ? result.credential : credential
+      )))
+      setCredentialStatus(result.valid ? t('apiKeyValid') : t('apiKeyInvalid'))
+    } catch (error) {
+      setCredentialStatus(error instanceof Error ? error.message : t('errorUnknown'))
+    }
+  }
+
+  /**
+   * Delete the selected stored key
+   */
+  const handleDeleteCredential = async (): Promise<void> => {
+    if (!aiServiceId) {
+      return
+    }
+
+    try {
+      await deleteCredential(aiServiceId)
+      setAiCredentials((prev) => prev.filter((credential) => credential.id !== aiServiceId))
+      setCredentialStatus('')
+    } catch (error) {
+      setCredentialStatus(error instanceof Error ? error.message : t('errorUnknown'))
+    }
+  }
+
+  /**
+   * Handle max tokens change
+   * Begrenzt die Länge der KI-Antworten
+   */
+  const handleMaxTokensChange = (e: ChangeEvent<HTMLInputElement>): void => {
+    setChatSettings({
+      ...chatSettings,
+      maxTokens: parseInt(e.target.value, 10)
+    })
+  }
+
   /**
    * Handle model selection change
    * Wählt welches KI-Modell für Antworten verwendet wird
+   * Vorschläge kommen vom Provider, eigene Modellnamen sind erlaubt
    */
-  const handleModelChange = (e: ChangeEvent<HTMLSelectElement>): void => {
+  const handleModelChange = (e: ChangeEvent<HTMLInputElement>): void => {
     setChatSettings({
       ...chatSettings,
       model: e.target.value
@@ -553,11 +1159,18 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
   }
 
   const handleCrawl = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
     const urls = parseUrlList(urlInput)
     if (urls.length === 0) {
       setCrawlError(t('errorUrlRequired'))
       return
     }
+    if (seedMode) {
+      await handleSeedCrawl(urls[0])
+      return
+    }
     if (urls.length > 1000) {
       setCrawlError(t('errorUrlMax'))
       return
@@ -565,16 +1178,107 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
 
     setCrawlBusy(true)
     setCrawlError('')
+    setCrawlResults([])
+    setSeedGraph([])
+    setSeedSummary('')
     try {
-      const response = await crawlUrls(limitUrls(urls, 1000), activeConversationId)
-      setCrawlResults(response.items)
+      const response = await createCrawlJob(activeConversationId, limitUrls(urls, 1000))
+      setCrawlJob(response.job)
+      setCrawlJobItems(response.items)
     } catch (error) {
+      console.error('Failed to start crawl job:', error)
       setCrawlError(t('errorCrawlFailed'))
     } finally {
       setCrawlBusy(false)
     }
   }
 
+  /**
+   * Pause, Fortsetzen, Abbruch oder erneuter Versuch der fehlgeschlagenen URLs
+   * Danach wird der Job neu geladen (Abbruch ändert viele URLs auf einmal)
+   */
+  const handleCrawlJobAction = async (action: 'pause' | 'resume' | 'cancel' | 'retry'): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    if (!crawlJob) {
+      return
+    }
+    setCrawlJobBusy(true)
+    setCrawlError('')
+    try {
+      if (action === 'retry') {
+        await retryFailedCrawlJob(activeConversationId, crawlJob.id)
+      } else {
+        await updateCrawlJobState(activeConversationId, crawlJob.id, action)
+      }
+      const detail = await fetchCrawlJob(activeConversationId, crawlJob.id)
+      setCrawlJob(detail.job)
+      setCrawlJobItems(detail.items)
+    } catch (error) {
+      console.error('Crawl job action failed:', error)
+      setCrawlError(`${t('errorCrawlJobAction')}: ${error instanceof Error ? error.message : ''}`)
+    } finally {
+      setCrawlJobBusy(false)
+    }
+  }
+
+  /**
+   * Folgt ab der Seed-URL den Links; übersprungene URLs erscheinen mit Grund in der Ergebnisliste
+   */
+  const handleSeedCrawl = async (seedUrl: string): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    setCrawlBusy(true)
+    setCrawlError('')
+    setSeedGraph([])
+    setSeedSummary('')
+    try {
+      const response = await crawlFromSeed({
+        seedUrl,
+        maxDepth: seedDepth,
+        maxPages: seedMaxPages,
+        include: parseKeywords(seedInclude),
+        exclude: parseKeywords(seedExclude)
+      }, activeConversationId)
+      setCrawlResults([
+        ...response.items,
+        ...response.skipped.map((item) => ({ ...item, status: 'skipped' as const }))
+      ])
+      setSeedGraph(response.graph)
+      setSeedSummary(
+        `${response.fetched} ${t('seedPagesFetched')} · ${response.items.length} ${t('seedPagesStored')} · ${response.skipped.length} ${t('seedUrlsSkipped')}`
+      )
+    } catch (error) {
+      console.error('Seed crawl failed:', error)
+      setCrawlError(`${t('errorCrawlFailed')}: ${error instanceof Error ? error.message : ''}`)
+    } finally {
+      setCrawlBusy(false)
+    }
+  }
+
+  /**
+   * Alle Seiten des Chats neu extrahieren; Seiten ohne gespeichertes HTML werden neu geladen
+   */
+  const handleReextractPages = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    setReextractBusy(true)
+    setReextractInfo('')
+    setCrawlError('')
+    try {
+      const response = await reextractPages(activeConversationId, undefined, true)
+      setReextractInfo(`${response.updated} ${t('reextractDone')}`)
+    } catch (error) {
+      console.error('Failed to re-extract pages:', error)
+      setCrawlError(t('errorReextractFailed'))
+    } finally {
+      setReextractBusy(false)
+    }
+  }
+
   const getNormalizedQueries = (fields: Array<{ id: number; value: string }>): string[] => {
     return fields
       .map((field) => field.value.trim())
@@ -590,6 +1294,9 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
   }
 
   const handleFilterPreview = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
     setFilterBusy(true)
     setFilterError('')
     try {
@@ -598,6 +1305,8 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
       const response = await previewDbFilter(include, exclude, activeConversationId)
       setFilterPreviewItems(response.items)
       setFilterPreviewTotal(response.total)
+      setFilterPreviewJobs(response.jobs)
+      setFilterPreviewJobTotal(response.jobTotal)
     } catch (error) {
       setFilterError(t('errorFilterPreviewFailed'))
     } finally {
@@ -606,6 +1315,9 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
   }
 
   const handleFilterDelete = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
     setFilterBusy(true)
     setFilterError('')
     try {
@@ -613,8 +1325,11 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
       const exclude = parseKeywords(filterExclude)
       const response = await deleteFilteredDb(include, exclude, activeConversationId)
       setSearchResults((prev) => prev.filter((item) => !response.deletedIds.includes(item.id)))
+      setSavedJobs((prev) => prev.filter((job) => !response.deletedJobIds.includes(job.id)))
       setFilterPreviewItems([])
       setFilterPreviewTotal(0)
+      setFilterPreviewJobs([])
+      setFilterPreviewJobTotal(0)
     } catch (error) {
       setFilterError(t('errorFilterDeleteFailed'))
     } finally {
@@ -622,16 +1337,6 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
     }
   }
 
-  const decodeBase64Text = (base64: string): string => {
-    try {
-      const binary = atob(base64)
-      const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
-      return new TextDecoder('utf-8').decode(bytes)
-    } catch (error) {
-      return ''
-    }
-  }
-
   const parseJsonResponse = async (response: Response): Promise<any> => {
     const text = await response.text()
     if (!text) {
@@ -645,18 +1350,17 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
   }
 
   const buildTemplateBlock = async (): Promise<string> => {
-    if (!selectedTemplateId) {
+    if (!selectedTemplateId || activeConversationId === null) {
       return ''
     }
 
-    const template = await fetchFileContent(selectedTemplateId, activeConversationId)
-    const isText = template.mime ? template.mime.startsWith('text/') : /\.(txt|md|rtf)$/i.test(template.name)
-    if (!isText) {
+    // PDF, DOCX, ODT, RTF, Markdown und HTML werden serverseitig in Text umgewandelt
+    const template = await fetchFileText(selectedTemplateId, activeConversationId)
+    if (template.status !== 'ok' || !template.text) {
       return `${t('templateBinaryNotice')} ${template.name}`
     }
 
-    const content = decodeBase64Text(template.contentBase64)
-    return `${t('templateLabel')}\n${content}`
+    return `${t('templateLabel')}\n${template.text}`
   }
 
   const downloadTextFile = (filename: string, content: string): void => {
@@ -669,14 +1373,76 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
     URL.revokeObjectURL(url)
   }
 
+  /**
+   * Save the budget cap for application generation
+   * Leeres Feld entfernt das Limit
+   */
+  const handleSaveBudget = async (): Promise<void> => {
+    const trimmed = budgetLimitInput.trim().replace(',', '.')
+    const limitUsd = trimmed ? Number(trimmed) : null
+    if (limitUsd !== null && (!Number.isFinite(limitUsd) || limitUsd < 0)) {
+      setUsageError(t('errorBudgetInvalid'))
+      return
+    }
+
+    setUsageError('')
+    try {
+      const budget = await saveUsageBudget(limitUsd, budgetPeriod)
+      setUsageSummary((prev) => (prev ? { ...prev, budget } : prev))
+    } catch (error) {
+      console.error('Failed to save budget:', error)
+      setUsageError(t('errorBudgetSaveFailed'))
+    }
+  }
+
+  /**
+   * Save the price of openai-compatible endpoints (0 = free)
+   * Beide Felder leer: Preis wieder unbekannt
+   */
+  const handleSaveCompatiblePricing = async (): Promise<void> => {
+    const parsePrice = (value: string): number | null => {
+      const trimmed = value.trim().replace(',', '.')
+      return trimmed ? Number(trimmed) : null
+    }
+    const promptPrice = parsePrice(compatiblePromptPriceInput)
+    const completionPrice = parsePrice(compatibleCompletionPriceInput)
+    const cleared = promptPrice === null && completionPrice === null
+    const isValidPrice = (price: number | null): boolean => price !== null && Number.isFinite(price) && price >= 0
+    if (!cleared && !(isValidPrice(promptPrice) && isValidPrice(completionPrice))) {
+      setUsageError(t('errorCompatiblePricingInvalid'))
+      return
+    }
+
+    setUsageError('')
+    try {
+      const compatiblePricing = await saveCompatiblePricing(cleared
+        ? null
+        : { costPer1kPromptTokens: promptPrice as number, costPer1kCompletionTokens: completionPrice as number })
+      setUsageSummary((prev) => (prev ? { ...prev, compatiblePricing } : prev))
+    } catch (error) {
+      console.error('Failed to save compatible pricing:', error)
+      setUsageError(t('errorCompatiblePricingSaveFailed'))
+    }
+  }
+
   const handleGenerateApplications = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
     setApplicationBusy(true)
     setApplicationError('')
     setApplicationProgress({ current: 0, total: 0 })
 
     try {
-      const pagesResponse = await fetchAllPages(activeConversationId)
-      const pages = pagesResponse.items
+      // Gecrawlte Seiten und gespeicherte Jobs werden gleich behandelt
+      const [pagesResponse, jobs] = await Promise.all([
+        fetchAllPages(activeConversationId),
+        fetchSavedJobs(activeConversationId)
+      ])
+      const pages = [
+        ...pagesResponse.items.map((item) => `${item.title || ''} ${item.url}\n${item.content}`.trim()),
+        ...jobs.map(formatJobRecordText)
+      ]
       if (pages.length === 0) {
         setApplicationError(t('errorNoDbEntries'))
         return
@@ -685,11 +1451,11 @@ ${uploadedFiles.length > 0 ? `${t('uploadedFilesSystem')}: ${uploadedFiles.map(f
       const templateBlock = await buildTemplateBlock()
       const instruction = applicationInstruction.trim()
       const total = pages.length
+      let failedCount = 0
       setApplicationProgress({ current: 0, total })
 
       for (let index = 0; index < pages.length; index += 1) {
-        const item = pages[index]
-        const jobText = `${item.title || ''} ${item.url}\n${item.content}`.trim()
+        const jobText = pages[index]
         const prompt = `${t('applicationPrompt')}
 
 ${instruction ? `${t('applicationInstructionLabel')}: ${instruction}\n` : ''}${templateBlock ? `${templateBlock}\n` : ''}${t('applicationJobPostingLabel')}:
@@ -700,10 +1466,12 @@ ${jobText}`
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             provider: aiProvider,
-            apiKey: aiApiKey || undefined,
+            serviceId: aiServiceId || undefined,
             apiUrl: aiApiUrl || undefined,
+            headers: aiProvider === 'openai-compatible' ? parseHeaderLines(aiCustomHeaders) : undefined,
             model: chatSettings.model,
             temperature: chatSettings.temperature,
+            maxTokens: chatSettings.maxTokens,
             messages: [
               {
                 role: 'system',
@@ -713,18 +1481,37 @@ ${chatSettings.systemPrompt}`
               },
               { role: 'user', content: prompt }
             ],
-            chatId: activeConversationId
+            chatId: activeConversationId,
+            usageSource: 'application',
+            fallbacks: parseFallbackLines(aiFallbackChain)
           })
         })
 
+        // Budget-Limit erreicht: bereits erzeugte Bewerbungen bleiben, der Rest wird übersprungen
+        if (response.status === 402) {
+          setApplicationError(t('errorBudgetReached'))
+          return
+        }
+        // Einzelne Fehlschläge (nach Retries und Fallbacks) überspringen, nicht den ganzen Lauf abbrechen
         if (!response.ok) {
-          throw new Error(t('errorApplicationGenerateFailed'))
+          failedCount += 1
+          setApplicationProgress({ current: index + 1, total })
+          continue
         }
 
         const payload = await response.json()
         const filename = `application-${index + 1}.txt`
         downloadTextFile(filename, payload.content || '')
         setApplicationProgress({ current: index + 1, total })
+
+        if (payload.budget?.exceeded && index + 1 < pages.length) {
+          setApplicationError(t('errorBudgetReached'))
+          return
+        }
+      }
+
+      if (failedCount > 0) {
+        setApplicationError(`${t('errorApplicationGenerateFailed')} (${failedCount}/${total})`)
       }
     } catch (error) {
       setApplicationError(t('errorApplicationGenerateFailed'))
@@ -733,7 +1520,121 @@ ${chatSettings.systemPrompt}`
     }
   }
 
+  /**
+   * Setzt einen Job-Filter; leere Werte entfernen den Filter
+   */
+  const updateJobFilter = <K extends keyof JobSearchFilters>(key: K, value: JobSearchFilters[K] | ''): void => {
+    setJobFilters((prev) => {
+      const next = { ...prev }
+      if (value === '' || value === undefined || value === false || Number.isNaN(value)) {
+        delete next[key]
+      } else {
+        next[key] = value
+      }
+      return next
+    })
+  }
+
+  /**
+   * Speichert die aktuellen Suchbegriffe samt Filtern und Quellen
+   * und führt die Suche einmal aus (Ausgangsbasis für "neu")
+   */
+  const handleSaveSearch = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    const normalizedQueries = getNormalizedQueries(searchFields)
+    if (normalizedQueries.length === 0) {
+      setSearchError(t('errorSearchQueryRequired'))
+      return
+    }
+
+    const enabledJobSources = disabledJobSources.length > 0
+      ? jobSources.filter((source) => !disabledJobSources.includes(source.id)).map((source) => source.id)
+      : null
+
+    try {
+      const created = await createSavedSearch(activeConversationId, {
+        queries: normalizedQueries,
+        filters: jobFilters,
+        sources: enabledJobSources,
+        intervalMinutes: savedSearchInterval
+      })
+      setSavedSearches((prev) => [...prev, created])
+      setSavedSearchBusyId(created.id)
+      const result = await runSavedSearch(activeConversationId, created.id)
+      setSavedSearches((prev) => prev.map((entry) => (entry.id === created.id ? result.savedSearch : entry)))
+    } catch (error) {
+      setSearchError(`${t('errorSavedSearch')}: ${error instanceof Error ? error.message : ''}`)
+    } finally {
+      setSavedSearchBusyId(null)
+    }
+  }
+
+  /**
+   * Zeigt die gemerkten Treffer einer gespeicherten Suche und übernimmt
+   * ihre Begriffe und Filter in die Suchmaske; danach gelten sie als gesehen
+   */
+  const handleOpenSavedSearch = async (savedSearch: SavedSearch): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    setSearchFields(savedSearch.queries.map((query, index) => ({ id: index + 1, value: query })))
+    searchFieldIdRef.current = savedSearch.queries.length
+    setJobFilters(savedSearch.filters)
+    setDisabledJobSources(savedSearch.sources
+      ? jobSources.filter((source) => !savedSearch.sources?.includes(source.id)).map((source) => source.id)
+      : [])
+
+    try {
+      const items = await fetchSavedSearchResults(activeConversationId, savedSearch.id)
+      setJobResults(items)
+      setJobSourceStatus([])
+      setJobCacheInfo(null)
+      setLastSearchQueries(savedSearch.queries)
+      if (savedSearch.newCount > 0) {
+        await markSavedSearchSeen(activeConversationId, savedSearch.id)
+        setSavedSearches((prev) => prev.map((entry) => (
+          entry.id === savedSearch.id ? { ...entry, newCount: 0 } : entry
+        )))
+      }
+      setSidebarOpen(false)
+    } catch (error) {
+      setSearchError(`${t('errorSavedSearch')}: ${error instanceof Error ? error.message : ''}`)
+    }
+  }
+
+  const handleRunSavedSearch = async (savedSearch: SavedSearch): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    setSavedSearchBusyId(savedSearch.id)
+    try {
+      const result = await runSavedSearch(activeConversationId, savedSearch.id)
+      setSavedSearches((prev) => prev.map((entry) => (entry.id === savedSearch.id ? result.savedSearch : entry)))
+    } catch (error) {
+      setSearchError(`${t('errorSavedSearch')}: ${error instanceof Error ? error.message : ''}`)
+    } finally {
+      setSavedSearchBusyId(null)
+    }
+  }
+
+  const handleDeleteSavedSearch = async (savedSearch: SavedSearch): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    try {
+      await deleteSavedSearch(activeConversationId, savedSearch.id)
+      setSavedSearches((prev) => prev.filter((entry) => entry.id !== savedSearch.id))
+    } catch (error) {
+      setSearchError(`${t('errorSavedSearch')}: ${error instanceof Error ? error.message : ''}`)
+    }
+  }
+
   const handleSearchAll = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
     const normalizedQueries = getNormalizedQueries(searchFields)
     if (normalizedQueries.length === 0) {
       setSearchError(t('errorSearchQueryRequired'))
@@ -747,6 +1648,9 @@ ${chatSettings.systemPrompt}`
     setPreviewSelected({})
 
     const errorMessages: string[] = []
+    const enabledJobSources = disabledJobSources.length > 0
+      ? jobSources.filter((source) => !disabledJobSources.includes(source.id)).map((source) => source.id)
+      : undefined
 
     try {
       const [searchSettled, jobSettled] = await Promise.all([
@@ -754,7 +1658,7 @@ ${chatSettings.systemPrompt}`
           normalizedQueries.map((query) => searchPages(query, activeConversationId, 1000, 0))
         ),
         Promise.allSettled(
-          normalizedQueries.map((query) => searchJobs(query, 50))
+          normalizedQueries.map((query) => searchJobs(query, 50, enabledJobSources, jobFilters, fetchFullDescriptions, activeConversationId))
         )
       ])
 
@@ -783,19 +1687,35 @@ ${chatSettings.systemPrompt}`
       setDbResultsQuery('')
       setLastSearchQueries(normalizedQueries)
 
-      const jobItems: JobSearchItem[] = []
+      // Mehrere Suchbegriffe liefern oft dieselben Jobs, der Server dedupliziert nur pro Begriff
+      const jobItems = new Map<string, JobSearchItem>()
+      const jobStatusLists: JobSourceStatus[][] = []
       const failedJobQueries: string[] = []
+      let cacheInfo: { ageMs: number, stale: boolean } | null = null
 
       jobSettled.forEach((result, index) => {
         const query = normalizedQueries[index]
         if (result.status === 'fulfilled') {
-          jobItems.push(...result.value.items)
+          result.value.items.forEach((item) => {
+            if (!jobItems.has(item.id)) {
+              jobItems.set(item.id, item)
+            }
+          })
+          jobStatusLists.push(result.value.sources)
+          if (result.value.cached) {
+            cacheInfo = {
+              ageMs: Math.max(cacheInfo?.ageMs ?? 0, result.value.ageMs),
+              stale: Boolean(cacheInfo?.stale || result.value.stale)
+            }
+          }
         } else {
           failedJobQueries.push(query)
         }
       })
 
-      setJobResults(jobItems)
+      setJobResults(Array.from(jobItems.values()))
+      setJobSourceStatus(mergeJobSourceStatus(jobStatusLists))
+      setJobCacheInfo(cacheInfo)
 
       if (failedJobQueries.length > 0) {
         errorMessages.push(`${t('errorJobSearchFailedFor')}: ${failedJobQueries.join(', ')}`)
@@ -818,11 +1738,13 @@ ${chatSettings.systemPrompt}`
           )
 
           const previewItems: WebPreviewItem[] = []
+          const skippedUrls = new Set<string>()
           let previewFailed = false
 
           previewSettled.forEach((result) => {
             if (result.status === 'fulfilled') {
               previewItems.push(...result.value.items)
+              result.value.skipped?.forEach((item) => skippedUrls.add(item.url))
             } else {
               previewFailed = true
             }
@@ -841,6 +1763,8 @@ ${chatSettings.systemPrompt}`
 
           if (previewFailed) {
             setPreviewError(t('errorPreviewFailed'))
+          } else if (skippedUrls.size > 0) {
+            setPreviewError(`${skippedUrls.size} ${t('previewUrlsSkipped')}`)
           }
         }
       }
@@ -873,6 +1797,9 @@ ${chatSettings.systemPrompt}`
   }
 
   const handleSaveSelected = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
     const toSave = previewResults.filter((item) => previewSelected[item.url])
     if (toSave.length === 0) {
       setPreviewError(t('errorSelectUrl'))
@@ -885,7 +1812,7 @@ ${chatSettings.systemPrompt}`
     try {
       let saved = 0
       for (const item of toSave) {
-        await savePage(item.url, item.content, activeConversationId, item.title || undefined)
+        await savePage(item.url, item.content, activeConversationId, item.title || undefined, item.jobPosting, item.contentFormat)
         saved += 1
         setSaveProgress({ current: saved, total: toSave.length })
       }
@@ -922,18 +1849,155 @@ ${chatSettings.systemPrompt}`
     }
   }
 
+  /**
+   * Speichert die markierten Job-Treffer als Einträge in der Chat-Datenbank
+   */
+  const handleSaveSelectedJobs = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    const toSave = jobResults.filter((item) => selectedJobHits[item.id])
+    if (toSave.length === 0) {
+      return
+    }
+
+    setJobSaveBusy(true)
+    setPreviewError('')
+    try {
+      const response = await saveJobs(toSave, activeConversationId)
+      const savedIds = new Set(response.items.map((job) => job.id))
+      setSavedJobs((prev) => [...response.items, ...prev.filter((job) => !savedIds.has(job.id))])
+      setSelectedJobHits({})
+    } catch (error) {
+      console.error('Failed to save jobs:', error)
+      setPreviewError(t('errorSaveFailed'))
+    } finally {
+      setJobSaveBusy(false)
+    }
+  }
+
+  const handleDeleteSavedJob = async (id: number): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    try {
+      await deleteSavedJob(id, activeConversationId)
+      setSavedJobs((prev) => prev.filter((job) => job.id !== id))
+    } catch (error) {
+      console.error('Failed to delete job:', error)
+      setPreviewError(t('errorDeleteJobFailed'))
+    }
+  }
+
+  /**
+   * Registriert einen RSS/Atom/JSON-Feed für die Jobsuche dieses Chats
+   */
+  const handleAddFeed = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    const url = feedUrlInput.trim()
+    if (!url) {
+      return
+    }
+    setFeedBusy(true)
+    setSearchError('')
+    try {
+      const { feed } = await addJobFeed(activeConversationId, url)
+      setJobFeeds((prev) => [...prev.filter((entry) => entry.id !== feed.id), feed])
+      setFeedUrlInput('')
+    } catch (error) {
+      console.error('Failed to add feed:', error)
+      setSearchError(`${t('errorAddFeedFailed')}: ${error instanceof Error ? error.message : ''}`)
+    } finally {
+      setFeedBusy(false)
+    }
+  }
+
+  const handleDeleteFeed = async (id: number): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    try {
+      await deleteJobFeed(activeConversationId, id)
+      setJobFeeds((prev) => prev.filter((feed) => feed.id !== id))
+    } catch (error) {
+      console.error('Failed to delete feed:', error)
+      setSearchError(t('errorDeleteFeedFailed'))
+    }
+  }
+
+  /**
+   * Nimmt eine Firma mit ATS-Typ und Board-Slug in die Watchlist auf
+   */
+  const handleAddCompany = async (): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    if (!companyInput.slug.trim()) {
+      return
+    }
+    setCompanyBusy(true)
+    setSearchError('')
+    try {
+      const { company } = await addWatchedCompany(activeConversationId, {
+        ...companyInput,
+        slug: companyInput.slug.trim()
+      })
+      setWatchedCompanies((prev) => [...prev.filter((entry) => entry.id !== company.id), company]
+        .sort((a, b) => a.name.localeCompare(b.name)))
+      setCompanyInput((prev) => ({ ...prev, name: '', slug: '' }))
+    } catch (error) {
+      console.error('Failed to add company:', error)
+      setSearchError(`${t('errorAddCompanyFailed')}: ${error instanceof Error ? error.message : ''}`)
+    } finally {
+      setCompanyBusy(false)
+    }
+  }
+
+  const handleDeleteCompany = async (id: number): Promise<void> => {
+    if (activeConversationId === null) {
+      return
+    }
+    try {
+      await deleteWatchedCompany(activeConversationId, id)
+      setWatchedCompanies((prev) => prev.filter((company) => company.id !== id))
+    } catch (error) {
+      console.error('Failed to delete company:', error)
+      setSearchError(t('errorDeleteCompanyFailed'))
+    }
+  }
+
+  /**
+   * Firma · Ort · Bewerbungsfrist für die Ergebnisliste (null ohne Angaben)
+   */
+  const formatJobMeta = (company?: string | null, location?: string | null, deadline?: string | null): string | null => {
+    const parts = [company, location, deadline ? `${t('jobDeadline')} ${deadline.slice(0, 10)}` : null]
+      .filter((part): part is string => Boolean(part))
+    return parts.length > 0 ? parts.join(' · ') : null
+  }
+
+  const savedJobKeys = new Set(savedJobs.map((job) => `${job.source}::${job.externalId}`))
+  const selectedJobCount = jobResults.filter((item) => selectedJobHits[item.id]).length
+
   const jobRecords: WebPageRecord[] = jobResults.map((item, index) => ({
     id: -(index + 1),
     url: item.url,
-    title: `[${item.source}] ${item.title}`,
+    title: `${'isNew' in item && item.isNew ? '🆕 ' : ''}[${item.source}] ${item.title}`,
     content: `${item.company} ${item.location ?? ''} ${item.description}`.trim(),
     status_code: null,
     content_hash: null,
     fetched_at: '',
     created_at: '',
-    updated_at: ''
+    updated_at: '',
+    job_company: item.company || null,
+    job_location: item.location ?? null
   }))
   const combinedResults = filterWebResults([...searchResults, ...jobRecords], dbResultsQuery)
+  const crawlJobDone = crawlJob ? crawlJob.total - crawlJob.counts.pending - crawlJob.counts.running : 0
+  const crawlJobPercent = crawlJob && crawlJob.total > 0
+    ? Math.round((crawlJobDone / crawlJob.total) * 100)
+    : 0
   const showProgress = searchBusy || previewBusy || crawlBusy || saveBusy
   const progressLabel = searchBusy
     ? t('progressSearchDb')
@@ -948,6 +2012,7 @@ ${chatSettings.systemPrompt}`
     ? Math.round((saveProgress.current / saveProgress.total) * 100)
     : 0
   const hasSearchQuery = searchFields.some((field) => field.value.trim().length > 0)
+  const currentAiService = availableServices.find((service) => service.provider === aiProvider)
 
   return (
     <div className="app-container">
@@ -994,19 +2059,96 @@ ${chatSettings.systemPrompt}`
                 setSidebarOpen(false)
               }}
             >
-              <span className="conversation-title">{conv.title}</span>
-              <button
-                className="conversation-delete"
-                onClick={(event) => {
-                  event.stopPropagation()
-                  handleDeleteConversation(conv.id)
-                }}
-                aria-label={t('deleteChatAria')}
-              >
-                ✕
-              </button>
+              {editingConversationId === conv.id ? (
+                <input
+                  type="text"
+                  className="conversation-edit"
+                  value={editingConversationTitle}
+                  onChange={(e) => setEditingConversationTitle(e.target.value)}
+                  onClick={(event) => event.stopPropagation()}
+                  onBlur={handleCommitConversationTitle}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') {
+                      handleCommitConversationTitle()
+                    } else if (event.key === 'Escape') {
+                      handleCancelConversationEdit()
+                    }
+                  }}
+                  aria-label={t('renameChatAria')}
+                  autoFocus
+                />
+              ) : (
+                <span className="conversation-title">{conv.title}</span>
+              )}
+              <div className="conversation-actions">
+                <button
+                  className="conversation-edit-btn"
+                  onClick={(event) => {
+                    event.stopPropagation()
+                    handleStartEditConversation(conv)
+                  }}
+                  aria-label={t('renameChatAria')}
+                >
+                  ✎
+                </button>
+                <button
+                  className="conversation-delete"
+                  onClick={(event) => {
+                    event.stopPropagation()
+                    handleDeleteConversation(conv.id)
+                  }}
+                  aria-label={t('deleteChatAria')}
+                >
+                  ✕
+                </button>
+              </div>
             </div>
           ))}
+
+          {savedSearches.length > 0 && (
+            <>
+              <h3 className="conversations-title saved-searches-title">{t('savedSearches')}</h3>
+              {savedSearches.map((savedSearch) => (
+                <div
+                  key={savedSearch.id}
+                  className="conversation-item saved-search-item"
+                  onClick={() => handleOpenSavedSearch(savedSearch)}
+                  title={savedSearch.lastError
+                    ? `${savedSearch.queries.join(', ')}\n${savedSearch.lastError}`
+                    : savedSearch.queries.join(', ')}
+                >
+                  <span className="conversation-title">{savedSearch.name}</span>
+                  {savedSearch.newCount > 0 && (
+                    <span className="saved-search-badge">{`${savedSearch.newCount} ${t('savedSearchNew')}`}</span>
+                  )}
+                  <span className="saved-search-count">{savedSearch.totalCount}</span>
+                  <div className="conversation-actions">
+                    <button
+                      className="conversation-edit-btn"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        handleRunSavedSearch(savedSearch)
+                      }}
+                      disabled={savedSearchBusyId === savedSearch.id}
+                      aria-label={t('savedSearchRunAria')}
+                    >
+                      {savedSearchBusyId === savedSearch.id ? '…' : '↻'}
+                    </button>
+                    <button
+                      className="conversation-delete"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        handleDeleteSavedSearch(savedSearch)
+                      }}
+                      aria-label={t('savedSearchDeleteAria')}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
         </div>
 
         <div className="sidebar-footer">
@@ -1017,6 +2159,13 @@ ${chatSettings.systemPrompt}`
           >
             ⚙️ {t('settings')}
           </button>
+          <button
+            className="sidebar-btn"
+            onClick={() => setUsageModalOpen(true)}
+            aria-label={t('usageAria')}
+          >
+            📊 {t('usage')}
+          </button>
           <button 
             className="sidebar-btn" 
             onClick={() => setHelpModalOpen(true)}
@@ -1061,7 +2210,35 @@ ${chatSettings.systemPrompt}`
               <div key={message.id} className={`message ${message.sender}`}>
                 <div className="message-content">
                   {message.sender === 'ai' && <span className="avatar">🤖</span>}
-                  <div className="message-text">{message.text}</div>
+                  <div className="message-body">
+                    <div className="message-text">{message.text}</div>
+                    {message.finishReason === 'length' && (
+                      <div className="message-truncated">⚠️ {t('truncatedNotice')}</div>
+                    )}
+                    {message.sources && message.sources.length > 0 && (
+                      <div className="message-sources">
+                        <span className="message-sources-label">{t('sourcesLabel')}:</span>
+                        {message.sources.map((source) => (
+                          <a
+                            key={source.id}
+                            href={source.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="message-source"
+                            title={source.url}
+                          >
+                            [{source.index}] {source.title || source.url}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {message.aiModel && (
+                      <div className="message-meta" title={message.generatedAt}>
+                        {message.aiProvider} · {message.aiModel}
+                        {message.tokens && ` · ${message.tokens.total} ${t('tokensLabel')}`}
+                      </div>
+                    )}
+                  </div>
                   {message.sender === 'user' && <span className="avatar">👤</span>}
                 </div>
               </div>
@@ -1111,7 +2288,7 @@ ${chatSettings.systemPrompt}`
               onChange={handleFileUpload}
               style={{ display: 'none' }}
               aria-label={t('fileUploadAria')}
-              accept=".pdf,.txt,.csv,.png,.jpg,.jpeg"
+              accept=".pdf,.docx,.odt,.rtf,.md,.html,.htm,.txt,.csv,.png,.jpg,.jpeg"
             />
             <button
               className="file-upload-btn"
@@ -1133,14 +2310,25 @@ ${chatSettings.systemPrompt}`
                 className="message-input"
                 aria-label={t('messageInputAria')}
               />
-              <button
-                onClick={handleSendMessage}
-                className="send-btn"
-                aria-label={t('sendMessageAria')}
-                disabled={!isMessageValid(input) || aiLoading}
-              >
-                {aiLoading ? '⏳' : '➤'}
-              </button>
+              {aiLoading ? (
+                <button
+                  onClick={handleStopGeneration}
+                  className="send-btn stop"
+                  aria-label={t('stopGenerationAria')}
+                  title={t('stopGenerationAria')}
+                >
+                  ⏹
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  className="send-btn"
+                  aria-label={t('sendMessageAria')}
+                  disabled={!isMessageValid(input)}
+                >
+                  ➤
+                </button>
+              )}
             </div>
             <p className="input-hint">{t('disclaimer')}</p>
           </div>
@@ -1157,6 +2345,58 @@ ${chatSettings.systemPrompt}`
               className="webdb-textarea"
               aria-label={t('urlListAria')}
             />
+            <label className="job-source-toggle">
+              <input
+                type="checkbox"
+                checked={seedMode}
+                onChange={(e) => setSeedMode(e.target.checked)}
+              />
+              {t('seedModeLabel')}
+            </label>
+            {seedMode && (
+              <div className="seed-crawl-options">
+                <label className="job-source-toggle">
+                  {t('seedDepthLabel')}
+                  <input
+                    type="number"
+                    min={0}
+                    max={5}
+                    value={seedDepth}
+                    onChange={(e) => setSeedDepth(Number(e.target.value))}
+                    className="webdb-input"
+                  />
+                </label>
+                <label className="job-source-toggle">
+                  {t('seedMaxPagesLabel')}
+                  <input
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={seedMaxPages}
+                    onChange={(e) => setSeedMaxPages(Number(e.target.value))}
+                    className="webdb-input"
+                  />
+                </label>
+                <input
+                  type="text"
+                  value={seedInclude}
+                  onChange={(e) => setSeedInclude(e.target.value)}
+                  placeholder={t('seedIncludePlaceholder')}
+                  title={t('seedPatternHint')}
+                  className="webdb-input"
+                  aria-label={t('seedIncludePlaceholder')}
+                />
+                <input
+                  type="text"
+                  value={seedExclude}
+                  onChange={(e) => setSeedExclude(e.target.value)}
+                  placeholder={t('seedExcludePlaceholder')}
+                  title={t('seedPatternHint')}
+                  className="webdb-input"
+                  aria-label={t('seedExcludePlaceholder')}
+                />
+              </div>
+            )}
             <button
               className="webdb-action"
               onClick={handleCrawl}
@@ -1164,17 +2404,105 @@ ${chatSettings.systemPrompt}`
             >
               {crawlBusy ? t('crawlBusyLabel') : t('crawlAction')}
             </button>
+            <button
+              className="webdb-link"
+              onClick={handleReextractPages}
+              disabled={reextractBusy}
+              title={t('reextractHint')}
+            >
+              {reextractBusy ? t('reextractBusyLabel') : t('reextractAction')}
+            </button>
+            {reextractInfo && <p className="job-cache-info">{reextractInfo}</p>}
             {crawlError && <p className="webdb-error">{crawlError}</p>}
+            {crawlJob && (
+              <div className="crawl-job">
+                <div className="webdb-progress">
+                  <div className="webdb-progress-bar determinate">
+                    <span className="webdb-progress-fill" style={{ width: `${crawlJobPercent}%` }}></span>
+                  </div>
+                  <span className="webdb-progress-label">
+                    {t(CRAWL_JOB_STATUS_LABELS[crawlJob.status])}
+                    {crawlJob.counts.failed > 0 && ` · ${crawlJob.counts.failed} ${t('crawlJobFailedCount')}`}
+                  </span>
+                  <span className="webdb-progress-count">{crawlJobDone}/{crawlJob.total}</span>
+                </div>
+                <div className="webdb-row">
+                  {crawlJob.status === 'running' && (
+                    <button className="webdb-link" onClick={() => handleCrawlJobAction('pause')} disabled={crawlJobBusy}>
+                      {t('crawlJobPause')}
+                    </button>
+                  )}
+                  {crawlJob.status === 'paused' && (
+                    <button className="webdb-link" onClick={() => handleCrawlJobAction('resume')} disabled={crawlJobBusy}>
+                      {t('crawlJobResume')}
+                    </button>
+                  )}
+                  {crawlJobLive && (
+                    <button className="webdb-link" onClick={() => handleCrawlJobAction('cancel')} disabled={crawlJobBusy}>
+                      {t('crawlJobCancel')}
+                    </button>
+                  )}
+                  {crawlJob.status !== 'running' && crawlJob.counts.failed > 0 && (
+                    <button className="webdb-link" onClick={() => handleCrawlJobAction('retry')} disabled={crawlJobBusy}>
+                      {t('crawlJobRetryFailed')}
+                    </button>
+                  )}
+                </div>
+                <div className="crawl-job-table-wrap">
+                  <table className="crawl-job-table">
+                    <thead>
+                      <tr>
+                        <th>{t('crawlJobUrlColumn')}</th>
+                        <th>{t('crawlJobStatusColumn')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {crawlJobItems.map((item) => (
+                        <tr key={item.position} className={`crawl-job-row ${item.status}`}>
+                          <td className="webdb-result-url">{item.url}</td>
+                          <td className="webdb-result-status" title={item.detail ?? item.reason ?? undefined}>
+                            {item.status}
+                            {item.reason === 'robots_disallowed' && ` · ${t('crawlRobotsDisallowed')}`}
+                            {item.reason === 'blocked' && ` · ${t('crawlBlocked')}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
             {crawlResults.length > 0 && (
               <div className="webdb-results">
                 {crawlResults.map((result) => (
                   <div key={`${result.url}-${result.status}`} className={`webdb-result ${result.status}`}>
                     <span className="webdb-result-url">{result.url}</span>
-                    <span className="webdb-result-status">{result.status}</span>
+                    <span className="webdb-result-status" title={result.detail}>
+                      {result.status}
+                      {result.reason === 'robots_disallowed' && ` · ${t('crawlRobotsDisallowed')}`}
+                      {result.reason === 'blocked' && ` · ${t('crawlBlocked')}`}
+                      {result.reason && SEED_SKIP_LABELS[result.reason as SeedCrawlSkipReason] && (
+                        ` · ${t(SEED_SKIP_LABELS[result.reason as SeedCrawlSkipReason] as string)}`
+                      )}
+                    </span>
                   </div>
                 ))}
               </div>
             )}
+            {seedSummary && <p className="job-cache-info">{seedSummary}</p>}
+            {seedGraph.length > 0 && (
+              <details className="seed-graph">
+                <summary>{t('seedGraphTitle')} ({seedGraph.length})</summary>
+                <ul>
+                  {seedGraph.map((node) => (
+                    <li key={node.url}>
+                      <span className="webdb-result-url">{'→'.repeat(node.depth)} {node.url}</span>
+                      <span className="webdb-result-status">{node.links.length} {t('seedLinksLabel')}</span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
 
             <div className="search-divider"></div>
 
@@ -1221,6 +2549,86 @@ ${chatSettings.systemPrompt}`
                 {t('addSearchField')}
               </button>
             </div>
+            <div className="job-filters">
+              <input
+                type="text"
+                value={jobFilters.location ?? ''}
+                onChange={(e) => updateJobFilter('location', e.target.value)}
+                placeholder={t('jobFilterLocation')}
+                className="webdb-input"
+                aria-label={t('jobFilterLocation')}
+              />
+              <input
+                type="number"
+                min={1}
+                value={jobFilters.radiusKm ?? ''}
+                onChange={(e) => updateJobFilter('radiusKm', e.target.value ? Number(e.target.value) : '')}
+                placeholder={t('jobFilterRadius')}
+                className="webdb-input"
+                aria-label={t('jobFilterRadius')}
+                disabled={!jobFilters.location}
+              />
+              <select
+                className="webdb-input"
+                value={jobFilters.country ?? ''}
+                onChange={(e) => updateJobFilter('country', e.target.value)}
+                aria-label={t('jobFilterCountry')}
+              >
+                <option value="">{t('jobFilterCountry')}</option>
+                {JOB_FILTER_COUNTRIES.map((country) => (
+                  <option key={country} value={country}>{country.toUpperCase()}</option>
+                ))}
+              </select>
+              <select
+                className="webdb-input"
+                value={jobFilters.employmentType ?? ''}
+                onChange={(e) => updateJobFilter('employmentType', e.target.value as JobEmploymentType | '')}
+                aria-label={t('jobFilterEmploymentType')}
+              >
+                <option value="">{t('jobFilterEmploymentType')}</option>
+                <option value="full_time">{t('jobFilterFullTime')}</option>
+                <option value="part_time">{t('jobFilterPartTime')}</option>
+                <option value="contract">{t('jobFilterContract')}</option>
+                <option value="internship">{t('jobFilterInternship')}</option>
+              </select>
+              <select
+                className="webdb-input"
+                value={jobFilters.postedWithinDays ?? ''}
+                onChange={(e) => updateJobFilter('postedWithinDays', e.target.value ? Number(e.target.value) : '')}
+                aria-label={t('jobFilterPosted')}
+              >
+                <option value="">{t('jobFilterPosted')}</option>
+                {JOB_FILTER_DAYS.map((days) => (
+                  <option key={days} value={days}>{`${days} ${t('jobFilterDays')}`}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step={1000}
+                value={jobFilters.salaryMin ?? ''}
+                onChange={(e) => updateJobFilter('salaryMin', e.target.value ? Number(e.target.value) : '')}
+                placeholder={t('jobFilterSalaryMin')}
+                className="webdb-input"
+                aria-label={t('jobFilterSalaryMin')}
+              />
+              <label className="job-source-toggle">
+                <input
+                  type="checkbox"
+                  checked={Boolean(jobFilters.remoteOnly)}
+                  onChange={(e) => updateJobFilter('remoteOnly', e.target.checked)}
+                />
+                {t('jobFilterRemoteOnly')}
+              </label>
+              <label className="job-source-toggle">
+                <input
+                  type="checkbox"
+                  checked={fetchFullDescriptions}
+                  onChange={(e) => setFetchFullDescriptions(e.target.checked)}
+                />
+                {t('jobFetchFullDescriptions')}
+              </label>
+            </div>
             <div className="webdb-row">
               <button
                 className="webdb-action"
@@ -1229,7 +2637,172 @@ ${chatSettings.systemPrompt}`
               >
                 {searchBusy ? t('searchBusyLabel') : t('searchAction')}
               </button>
+              <select
+                className="webdb-input"
+                value={savedSearchInterval}
+                onChange={(e) => setSavedSearchInterval(Number(e.target.value))}
+                aria-label={t('savedSearchIntervalAria')}
+              >
+                {SAVED_SEARCH_INTERVALS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes < 60 * 24 ? `${t('savedSearchEvery')} ${minutes / 60} h` : t('savedSearchDaily')}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="webdb-action"
+                onClick={handleSaveSearch}
+                disabled={!hasSearchQuery || savedSearchBusyId !== null}
+              >
+                {t('savedSearchSave')}
+              </button>
+            </div>
+            {jobSources.length > 0 && (
+              <div className="job-sources">
+                <span className="webdb-label">{t('jobSourcesLabel')}</span>
+                {jobSources.map((source) => (
+                  <label
+                    key={source.id}
+                    className="job-source-toggle"
+                    title={source.configured ? undefined : `${t('jobSourceMissingKey')}: ${source.requiredEnv.join(', ')}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={source.configured && !disabledJobSources.includes(source.id)}
+                      disabled={!source.configured}
+                      onChange={() => setDisabledJobSources((prev) => (
+                        prev.includes(source.id)
+                          ? prev.filter((id) => id !== source.id)
+                          : [...prev, source.id]
+                      ))}
+                    />
+                    {source.name}
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="job-feeds">
+              <span className="webdb-label">{t('jobFeedsLabel')}</span>
+              <div className="webdb-row">
+                <input
+                  type="url"
+                  className="webdb-input"
+                  placeholder={t('jobFeedUrlPlaceholder')}
+                  value={feedUrlInput}
+                  onChange={(e) => setFeedUrlInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      handleAddFeed()
+                    }
+                  }}
+                  aria-label={t('jobFeedUrlPlaceholder')}
+                />
+                <button
+                  className="webdb-action"
+                  onClick={handleAddFeed}
+                  disabled={feedBusy || !feedUrlInput.trim()}
+                >
+                  {feedBusy ? t('saveBusyLabel') : t('jobFeedAdd')}
+                </button>
+              </div>
+              {jobFeeds.map((feed) => (
+                <div key={feed.id} className="webdb-result">
+                  <div className="webdb-result-content">
+                    <span className="webdb-result-title">{feed.title || feed.url}</span>
+                    <span className="webdb-result-url">{`${feed.format.toUpperCase()} · ${feed.url}`}</span>
+                  </div>
+                  <button
+                    className="webdb-icon"
+                    onClick={() => handleDeleteFeed(feed.id)}
+                    aria-label={t('jobFeedDeleteAria')}
+                    type="button"
+                  >
+                    x
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="job-feeds">
+              <span className="webdb-label">{t('watchlistLabel')}</span>
+              <div className="webdb-row">
+                <input
+                  type="text"
+                  className="webdb-input"
+                  placeholder={t('watchlistCompanyPlaceholder')}
+                  value={companyInput.name}
+                  onChange={(e) => setCompanyInput((prev) => ({ ...prev, name: e.target.value }))}
+                  aria-label={t('watchlistCompanyPlaceholder')}
+                />
+                <select
+                  className="webdb-input"
+                  value={companyInput.ats}
+                  onChange={(e) => setCompanyInput((prev) => ({ ...prev, ats: e.target.value as AtsType }))}
+                  aria-label={t('watchlistAtsLabel')}
+                >
+                  {ATS_OPTIONS.map((option) => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  className="webdb-input"
+                  placeholder={t('watchlistSlugPlaceholder')}
+                  value={companyInput.slug}
+                  onChange={(e) => setCompanyInput((prev) => ({ ...prev, slug: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      handleAddCompany()
+                    }
+                  }}
+                  aria-label={t('watchlistSlugPlaceholder')}
+                />
+                <button
+                  className="webdb-action"
+                  onClick={handleAddCompany}
+                  disabled={companyBusy || !companyInput.slug.trim()}
+                >
+                  {companyBusy ? t('saveBusyLabel') : t('watchlistAdd')}
+                </button>
+              </div>
+              {watchedCompanies.map((company) => (
+                <div key={company.id} className="webdb-result">
+                  <div className="webdb-result-content">
+                    <span className="webdb-result-title">{company.name}</span>
+                    <span className="webdb-result-url">
+                      {`${ATS_OPTIONS.find((option) => option.id === company.ats)?.label ?? company.ats} · ${company.slug}`}
+                    </span>
+                  </div>
+                  <button
+                    className="webdb-icon"
+                    onClick={() => handleDeleteCompany(company.id)}
+                    aria-label={t('watchlistDeleteAria')}
+                    type="button"
+                  >
+                    x
+                  </button>
+                </div>
+              ))}
             </div>
+            {jobCacheInfo && (
+              <p className="job-cache-info">
+                {`${t('jobCacheFrom')} (${Math.round(jobCacheInfo.ageMs / 60000)} ${t('jobCacheMinutesOld')})`}
+                {jobCacheInfo.stale && ` · ${t('jobCacheRefreshing')}`}
+              </p>
+            )}
+            {jobSourceStatus.length > 0 && (
+              <div className="webdb-results">
+                {jobSourceStatus.filter((entry) => entry.status !== 'disabled').map((entry) => (
+                  <div key={entry.id} className={`webdb-result ${entry.status}`}>
+                    <span className="webdb-result-url">{entry.name}</span>
+                    <span className="webdb-result-status">
+                      {entry.status === 'ok'
+                        ? `${entry.itemCount} ${t('jobSourceHits')} · ${entry.latencyMs} ms`
+                        : `${entry.status === 'failed' ? t('jobSourceFailed') : t('jobSourceSkipped')}${entry.reason ? `: ${entry.reason}` : ''}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
             {searchError && <p className="webdb-error">{searchError}</p>}
           </div>
         </div>
@@ -1272,16 +2845,91 @@ ${chatSettings.systemPrompt}`
                   />
                 </div>
                 <div className="webdb-results-db">
-                  {combinedResults.map((item, index) => (
-                    <div key={item.id} className="webdb-result-row">
-                      <span className="webdb-result-index">{index + 1}</span>
+                  {combinedResults.map((item, index) => {
+                    // Negative IDs sind Job-Treffer aus den APIs (Index in jobResults)
+                    const jobHit = item.id < 0 ? jobResults[-item.id - 1] : undefined
+                    const jobMeta = formatJobMeta(item.job_company, item.job_location, item.job_valid_through)
+                    return (
+                      <div key={item.id} className="webdb-result-row">
+                        {jobHit ? (
+                          <input
+                            type="checkbox"
+                            className="webdb-result-select"
+                            checked={Boolean(selectedJobHits[jobHit.id])}
+                            disabled={savedJobKeys.has(`${jobHit.source}::${jobHit.id}`)}
+                            title={savedJobKeys.has(`${jobHit.source}::${jobHit.id}`) ? t('jobAlreadySaved') : undefined}
+                            onChange={() => setSelectedJobHits((prev) => ({ ...prev, [jobHit.id]: !prev[jobHit.id] }))}
+                            aria-label={t('jobSelectAria')}
+                          />
+                        ) : (
+                          <span className="webdb-result-index">{index + 1}</span>
+                        )}
+                        <div className="webdb-result-content">
+                          <span className="webdb-result-url">{item.url}</span>
+                          <span className="webdb-result-title">{item.title || t('untitled')}</span>
+                          {jobMeta ? (
+                            <span className="webdb-result-meta">{jobMeta}</span>
+                          ) : (
+                            <span className="webdb-result-snippet">
+                              {item.content.slice(0, 160)}...
+                            </span>
+                          )}
+                          {jobHit?.descriptionType && (
+                            <span className={`job-description-type ${jobHit.descriptionType}`}>
+                              {jobHit.descriptionType === 'full' ? t('jobDescriptionFull') : t('jobDescriptionSnippet')}
+                            </span>
+                          )}
+                          {jobHit?.foundOn && jobHit.foundOn.length > 1 && (
+                            <span className="webdb-result-sources">
+                              {`${t('jobFoundOn')} ${jobHit.foundOn.length} ${t('jobFoundOnSources')}: `}
+                              {jobHit.foundOn.map((entry, entryIndex) => (
+                                <span key={entry.id}>
+                                  {entryIndex > 0 && ', '}
+                                  <a href={entry.url} target="_blank" rel="noreferrer">{entry.source}</a>
+                                </span>
+                              ))}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+                {jobResults.length > 0 && (
+                  <button
+                    className="webdb-action"
+                    onClick={handleSaveSelectedJobs}
+                    disabled={jobSaveBusy || selectedJobCount === 0}
+                  >
+                    {jobSaveBusy ? t('saveBusyLabel') : `${t('saveSelectedJobs')} (${selectedJobCount})`}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {savedJobs.length > 0 && (
+              <div className="webdb-section">
+                <h3 className="results-title">💼 {t('savedJobsTitle')} ({savedJobs.length})</h3>
+                <div className="webdb-results">
+                  {savedJobs.map((job) => (
+                    <div key={job.id} className="webdb-result saved-job">
                       <div className="webdb-result-content">
-                        <span className="webdb-result-url">{item.url}</span>
-                        <span className="webdb-result-title">{item.title || t('untitled')}</span>
-                        <span className="webdb-result-snippet">
-                          {item.content.slice(0, 160)}...
+                        <span className="webdb-result-title">{`[${job.source}] ${job.title}`}</span>
+                        <span className="webdb-result-url">
+                          {[job.company, job.location].filter(Boolean).join(' · ')}
+                        </span>
+                        <span className={`job-description-type ${job.descriptionType}`}>
+                          {job.descriptionType === 'full' ? t('jobDescriptionFull') : t('jobDescriptionSnippet')}
                         </span>
                       </div>
+                      <button
+                        className="webdb-icon"
+                        onClick={() => handleDeleteSavedJob(job.id)}
+                        aria-label={t('deleteJobAria')}
+                        type="button"
+                      >
+                        x
+                      </button>
                     </div>
                   ))}
                 </div>
@@ -1317,13 +2965,13 @@ ${chatSettings.systemPrompt}`
                 <button
                   className="webdb-action"
                   onClick={handleFilterDelete}
-                  disabled={filterBusy || filterPreviewTotal === 0}
+                  disabled={filterBusy || filterPreviewTotal + filterPreviewJobTotal === 0}
                 >
                   {filterBusy ? t('filterDeleteBusy') : t('filterDeleteAction')}
                 </button>
               </div>
               {filterError && <p className="webdb-error">{filterError}</p>}
-              {filterPreviewTotal > 0 && (
+              {filterPreviewTotal + filterPreviewJobTotal > 0 && (
                 <div className="webdb-filter-preview">
                   <span className="webdb-filter-count">
                     {t('filterPreviewLabel')}: {filterPreviewTotal}
@@ -1336,6 +2984,21 @@ ${chatSettings.systemPrompt}`
                       </div>
                     ))}
                   </div>
+                  {filterPreviewJobTotal > 0 && (
+                    <>
+                      <span className="webdb-filter-count">
+                        {t('filterPreviewJobsLabel')}: {filterPreviewJobTotal}
+                      </span>
+                      <div className="webdb-results">
+                        {filterPreviewJobs.map((job) => (
+                          <div key={`job-${job.id}`} className="webdb-result">
+                            <span className="webdb-result-url">{job.url || job.source}</span>
+                            <span className="webdb-result-title">{job.title}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
                   {filterPreviewTotal > filterPreviewItems.length && (
                     <span className="webdb-empty">
                       {t('filterPreviewMore')}
@@ -1400,22 +3063,33 @@ ${chatSettings.systemPrompt}`
                   </div>
                 </div>
                 <div className="webdb-preview-list">
-                  {previewResults.map((item) => (
-                    <label key={item.url} className="webdb-preview-item">
-                      <input
-                        type="checkbox"
-                        checked={Boolean(previewSelected[item.url])}
-                        onChange={() => handleTogglePreview(item.url)}
-                      />
-                      <div className="webdb-preview-content">
-                        <span className="webdb-result-url">{item.url}</span>
-                        <span className="webdb-result-title">{item.title || t('untitled')}</span>
-                        <span className="webdb-result-snippet">
-                          {item.content.slice(0, 120)}...
-                        </span>
-                      </div>
-                    </label>
-                  ))}
+                  {previewResults.map((item) => {
+                    const jobMeta = formatJobMeta(
+                      item.jobPosting?.company,
+                      item.jobPosting?.location,
+                      item.jobPosting?.validThrough
+                    )
+                    return (
+                      <label key={item.url} className="webdb-preview-item">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(previewSelected[item.url])}
+                          onChange={() => handleTogglePreview(item.url)}
+                        />
+                        <div className="webdb-preview-content">
+                          <span className="webdb-result-url">{item.url}</span>
+                          <span className="webdb-result-title">{item.title || t('untitled')}</span>
+                          {jobMeta ? (
+                            <span className="webdb-result-meta">{jobMeta}</span>
+                          ) : (
+                            <span className="webdb-result-snippet">
+                              {item.content.slice(0, 120)}...
+                            </span>
+                          )}
+                        </div>
+                      </label>
+                    )
+                  })}
                 </div>
                 <button
                   className="webdb-action"
@@ -1482,20 +3156,56 @@ ${chatSettings.systemPrompt}`
             </p>
           </div>
 
+          {/* Max Tokens Slider */}
+          <div className="setting-item">
+            <div className="setting-label-container">
+              <label className="setting-label">📏 {t('maxTokensLabel')}</label>
+              <span className="setting-value">{chatSettings.maxTokens}</span>
+            </div>
+            <input
+              type="range"
+              min="250"
+              max="8000"
+              step="250"
+              value={chatSettings.maxTokens}
+              onChange={handleMaxTokensChange}
+              className="slider"
+              aria-label={t('maxTokensAria')}
+            />
+          </div>
+
           {/* Model Selection */}
           <div className="setting-item">
             <label className="setting-label">🤖 {t('model')}</label>
-            <select
+            <input
+              type="text"
               value={chatSettings.model}
               onChange={handleModelChange}
-              className="setting-select"
+              list="ai-model-options"
+              className="setting-input"
+              placeholder={t('modelPlaceholder')}
               aria-label={t('modelAria')}
-            >
-              <option value="gpt-4">GPT-4</option>
-              <option value="gpt-3.5">GPT-3.5 Turbo</option>
-              <option value="claude">Claude</option>
-              <option value="local">{t('model')} {t('localLabel')}</option>
-            </select>
+            />
+            <datalist id="ai-model-options">
+              {(currentAiService?.models || []).map((model) => (
+                <option key={model.modelId} value={model.modelId}>
+                  {[
+                    model.name !== model.modelId ? model.name : null,
+                    model.maxTokens ? `${model.maxTokens.toLocaleString()} ${t('modelContextTokens')}` : null,
+                    model.deprecated ? t('modelDeprecated') : null
+                  ].filter(Boolean).join(' · ')}
+                </option>
+              ))}
+            </datalist>
+            <p className="setting-hint">
+              {currentAiService?.modelSource === 'live' ? t('modelsLiveHint') : t('modelsFallbackHint')}
+              {currentAiService?.modelError && ` (${currentAiService.modelError})`}
+            </p>
+            <div className="setting-buttons">
+              <button className="setting-btn" onClick={handleRefreshModels} disabled={modelsLoading}>
+                {modelsLoading ? t('modelsLoading') : t('modelsRefresh')}
+              </button>
+            </div>
           </div>
 
           {/* AI Service Selection */}
@@ -1503,7 +3213,7 @@ ${chatSettings.systemPrompt}`
             <label className="setting-label">🔌 {t('aiServiceLabel')}</label>
             <select
               value={aiProvider}
-              onChange={(e) => setAiProvider(e.target.value)}
+              onChange={handleAiProviderChange}
               className="setting-select"
               aria-label={t('aiServiceAria')}
             >
@@ -1516,10 +3226,39 @@ ${chatSettings.systemPrompt}`
             <p className="setting-hint">{availableServices.find(s => s.provider === aiProvider)?.description}</p>
           </div>
 
-          {/* API Key Input (if required) */}
-          {availableServices.find(s => s.provider === aiProvider)?.requiresKey && (
+          {/* API Key Vault (if required or optional) */}
+          {(availableServices.find(s => s.provider === aiProvider)?.requiresKey
+            || availableServices.find(s => s.provider === aiProvider)?.acceptsKey) && (
             <div className="setting-item">
               <label className="setting-label">🔑 {t('apiKeyLabel')}</label>
+              {aiCredentials.some((credential) => credential.provider === aiProvider) && (
+                <>
+                  <select
+                    value={aiServiceId}
+                    onChange={(e) => setAiServiceId(e.target.value)}
+                    className="setting-select"
+                    aria-label={t('storedKeysAria')}
+                  >
+                    {aiCredentials
+                      .filter((credential) => credential.provider === aiProvider)
+                      .map((credential) => (
+                        <option key={credential.id} value={credential.id}>
+                          {credential.label ? `${credential.label} (${credential.maskedKey})` : credential.maskedKey}
+                          {credential.apiUrl ? ` – ${credential.apiUrl}` : ''}
+                          {credential.lastTestOk === false ? ' ⚠️' : ''}
+                        </option>
+                      ))}
+                  </select>
+                  <div className="setting-buttons">
+                    <button className="setting-btn" onClick={handleTestCredential}>
+                      {t('apiKeyTest')}
+                    </button>
+                    <button className="setting-btn" onClick={handleDeleteCredential}>
+                      {t('apiKeyDelete')}
+                    </button>
+                  </div>
+                </>
+              )}
               <button
                 className="setting-btn"
                 onClick={() => setShowApiKeyInput(!showApiKeyInput)}
@@ -1527,33 +3266,87 @@ ${chatSettings.systemPrompt}`
                 {showApiKeyInput ? t('apiKeyHide') : t('apiKeyShow')}
               </button>
               {showApiKeyInput && (
-                <input
-                  type="password"
-                  placeholder={t('apiKeyPlaceholder')}
-                  value={aiApiKey}
-                  onChange={(e) => setAiApiKey(e.target.value)}
-                  className="setting-input"
-                  aria-label={t('apiKeyAria')}
-                />
+                <>
+                  <input
+                    type="password"
+                    placeholder={t('apiKeyPlaceholder')}
+                    value={newApiKey}
+                    onChange={(e) => setNewApiKey(e.target.value)}
+                    className="setting-input"
+                    aria-label={t('apiKeyAria')}
+                  />
+                  <input
+                    type="text"
+                    placeholder={t('apiKeyNamePlaceholder')}
+                    value={newApiKeyLabel}
+                    onChange={(e) => setNewApiKeyLabel(e.target.value)}
+                    className="setting-input"
+                    aria-label={t('apiKeyNameAria')}
+                  />
+                  <button
+                    className="setting-btn"
+                    onClick={handleSaveCredential}
+                    disabled={!newApiKey.trim() || !vaultConfigured}
+                  >
+                    {t('apiKeySave')}
+                  </button>
+                </>
               )}
+              {!vaultConfigured && <p className="setting-hint">{t('vaultNotConfigured')}</p>}
+              {credentialStatus && <p className="setting-hint">{credentialStatus}</p>}
             </div>
           )}
 
-          {/* Custom API URL (for Ollama, Local) */}
-          {(aiProvider === 'ollama' || aiProvider === 'local') && (
+          {/* Custom API URL (for Ollama, Local, OpenAI-compatible) */}
+          {(aiProvider === 'ollama' || aiProvider === 'local' || aiProvider === 'openai-compatible') && (
             <div className="setting-item">
               <label className="setting-label">🌐 {t('apiUrlLabel')}</label>
               <input
                 type="text"
-                placeholder="http://localhost:11434"
-                value={aiApiUrl}
+                placeholder={DEFAULT_API_URLS[aiProvider] || DEFAULT_API_URLS.ollama}
+                value={credentialApiUrl || aiApiUrl}
                 onChange={(e) => setAiApiUrl(e.target.value)}
+                disabled={Boolean(credentialApiUrl)}
                 className="setting-input"
                 aria-label={t('apiUrlAria')}
               />
+              {credentialApiUrl && (
+                <p className="setting-hint">{t('apiUrlFromCredential')}</p>
+              )}
+              {aiProvider === 'openai-compatible' && !credentialApiUrl && (
+                <p className="setting-hint">{t('compatibleApiUrlHint')}</p>
+              )}
+            </div>
+          )}
+
+          {/* Custom Headers (for OpenAI-compatible servers) */}
+          {aiProvider === 'openai-compatible' && (
+            <div className="setting-item">
+              <label className="setting-label">🧾 {t('customHeadersLabel')}</label>
+              <textarea
+                value={aiCustomHeaders}
+                onChange={(e) => setAiCustomHeaders(e.target.value)}
+                placeholder="X-Api-Version: 2"
+                className="setting-textarea"
+                aria-label={t('customHeadersAria')}
+              />
+              <p className="setting-hint">{t('customHeadersHint')}</p>
             </div>
           )}
 
+          {/* Fallback Chain */}
+          <div className="setting-item">
+            <label className="setting-label">🔁 {t('fallbackChainLabel')}</label>
+            <textarea
+              value={aiFallbackChain}
+              onChange={(e) => setAiFallbackChain(e.target.value)}
+              placeholder={'openai gpt-4o-mini\nollama llama3:8b'}
+              className="setting-textarea"
+              aria-label={t('fallbackChainAria')}
+            />
+            <p className="setting-hint">{t('fallbackChainHint')}</p>
+          </div>
+
           {/* AI Error Display */}
           {aiError && (
             <div className="setting-item error">
@@ -1669,6 +3462,186 @@ ${chatSettings.systemPrompt}`
         </div>
       </div>
 
+      {/* ===== USAGE MODAL ===== */}
+      {usageModalOpen && (
+        <>
+          <div
+            className="modal-overlay"
+            onClick={() => setUsageModalOpen(false)}
+            aria-hidden="true"
+          />
+          <div className="modal usage-modal">
+            <div className="modal-header">
+              <h2 className="modal-title">📊 {t('usageTitle')}</h2>
+              <button
+                className="modal-close"
+                onClick={() => setUsageModalOpen(false)}
+                aria-label={t('closeUsageAria')}
+              >
+                ✕
+              </button>
+            </div>
+            <div className="modal-content">
+              <div className="usage-toolbar">
+                <select
+                  className="setting-select"
+                  value={usageDays}
+                  onChange={(event) => setUsageDays(Number(event.target.value))}
+                  aria-label={t('usagePeriodAria')}
+                >
+                  <option value={1}>{t('usageToday')}</option>
+                  <option value={7}>{t('usageLast7Days')}</option>
+                  <option value={30}>{t('usageLast30Days')}</option>
+                  <option value={365}>{t('usageLast365Days')}</option>
+                </select>
+              </div>
+
+              {usageError && <p className="webdb-error">{usageError}</p>}
+
+              {usageSummary && (
+                <>
+                  <div className="usage-totals">
+                    <div className="usage-total">
+                      <span className="usage-total-value">{usageSummary.totals.calls}</span>
+                      <span className="usage-total-label">{t('usageCalls')}</span>
+                    </div>
+                    <div className="usage-total">
+                      <span className="usage-total-value">{usageSummary.totals.totalTokens.toLocaleString()}</span>
+                      <span className="usage-total-label">{t('usageTokens')}</span>
+                    </div>
+                    <div className="usage-total">
+                      <span className="usage-total-value">{formatUsd(usageSummary.totals.costUsd)}</span>
+                      <span className="usage-total-label">{t('usageCost')}</span>
+                    </div>
+                  </div>
+                  {usageSummary.totals.unpricedCalls > 0 && (
+                    <p className="setting-hint">
+                      {usageSummary.totals.unpricedCalls} {t('usageUnpricedHint')}
+                    </p>
+                  )}
+
+                  <h3 className="usage-heading">💰 {t('budgetTitle')}</h3>
+                  <div className="usage-budget">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className="setting-input"
+                      value={budgetLimitInput}
+                      onChange={(event) => setBudgetLimitInput(event.target.value)}
+                      placeholder={t('budgetLimitPlaceholder')}
+                      aria-label={t('budgetLimitAria')}
+                    />
+                    <select
+                      className="setting-select"
+                      value={budgetPeriod}
+                      onChange={(event) => setBudgetPeriod(event.target.value as UsageBudgetStatus['period'])}
+                      aria-label={t('budgetPeriodAria')}
+                    >
+                      <option value="day">{t('budgetPerDay')}</option>
+                      <option value="month">{t('budgetPerMonth')}</option>
+                    </select>
+                    <button className="setting-btn" onClick={handleSaveBudget}>
+                      {t('budgetSave')}
+                    </button>
+                  </div>
+                  <p className="setting-hint">
+                    {usageSummary.budget.limitUsd === null
+                      ? t('budgetNone')
+                      : `${formatUsd(usageSummary.budget.spentUsd)} / ${formatUsd(usageSummary.budget.limitUsd)}`
+                        + (usageSummary.budget.exceeded ? ` · ${t('budgetExceeded')}` : '')}
+                  </p>
+
+                  <h3 className="usage-heading">🔌 {t('compatiblePricingTitle')}</h3>
+                  <div className="usage-budget">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className="setting-input"
+                      value={compatiblePromptPriceInput}
+                      onChange={(event) => setCompatiblePromptPriceInput(event.target.value)}
+                      placeholder={t('compatiblePricingPromptPlaceholder')}
+                      aria-label={t('compatiblePricingPromptPlaceholder')}
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className="setting-input"
+                      value={compatibleCompletionPriceInput}
+                      onChange={(event) => setCompatibleCompletionPriceInput(event.target.value)}
+                      placeholder={t('compatiblePricingCompletionPlaceholder')}
+                      aria-label={t('compatiblePricingCompletionPlaceholder')}
+                    />
+                    <button className="setting-btn" onClick={handleSaveCompatiblePricing}>
+                      {t('budgetSave')}
+                    </button>
+                  </div>
+                  <p className="setting-hint">
+                    {usageSummary.compatiblePricing === null
+                      ? t('compatiblePricingNone')
+                      : t('compatiblePricingHint')}
+                  </p>
+
+                  <h3 className="usage-heading">📅 {t('usagePerDay')}</h3>
+                  <table className="usage-table">
+                    <tbody>
+                      {usageSummary.byDay.map((row) => (
+                        <tr key={row.day}>
+                          <td>{row.day}</td>
+                          <td>{row.calls}×</td>
+                          <td>{row.totalTokens.toLocaleString()} {t('usageTokens')}</td>
+                          <td>{formatUsd(row.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <h3 className="usage-heading">💬 {t('usagePerChat')}</h3>
+                  <table className="usage-table">
+                    <tbody>
+                      {usageSummary.byChat.map((row) => (
+                        <tr key={row.chatId || 'none'}>
+                          <td>
+                            {row.chatId
+                              ? conversations.find((conv) => String(conv.id) === row.chatId)?.title
+                                || `${t('usageDeletedChat')} #${row.chatId}`
+                              : t('usageNoChat')}
+                          </td>
+                          <td>{row.calls}×</td>
+                          <td>{row.totalTokens.toLocaleString()} {t('usageTokens')}</td>
+                          <td>{formatUsd(row.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <h3 className="usage-heading">🔌 {t('usagePerProvider')}</h3>
+                  <table className="usage-table">
+                    <tbody>
+                      {usageSummary.byProvider.map((row) => (
+                        <tr key={`${row.provider}:${row.model}`}>
+                          <td>{row.provider} · {row.model}</td>
+                          <td>{row.calls}×</td>
+                          <td>{row.totalTokens.toLocaleString()} {t('usageTokens')}</td>
+                          <td>{row.unpricedCalls > 0 ? '–' : formatUsd(row.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+            <div className="modal-footer">
+              <button
+                className="modal-btn"
+                onClick={() => setUsageModalOpen(false)}
+              >
+                {t('closeModal')}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
       {/* ===== HELP MODAL ===== */}
       {helpModalOpen && (
         <>
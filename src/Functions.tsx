@@ -19,16 +19,65 @@ import type {
   Translations,
   PageSearchResponse,
   CrawlResponse,
+  SeedCrawlParams,
+  SeedCrawlResponse,
+  CrawlJob,
+  CrawlJobListResponse,
+  CrawlJobDetailResponse,
+  CrawlJobEvent,
   WebPageRecord,
+  JobPostingData,
+  PageContentFormat,
+  PageReextractResponse,
   Conversation,
   PreviewResponse,
   WebPreviewItem,
+  JobSearchFilters,
+  JobSearchItem,
   JobSearchResponse,
+  JobRecord,
+  JobRecordListResponse,
+  JobSaveResponse,
+  SavedSearch,
+  SavedSearchPayload,
+  SavedSearchListResponse,
+  SavedSearchRunResponse,
+  SavedSearchResultItem,
+  JobFeed,
+  JobFeedListResponse,
+  JobFeedAddResponse,
+  AtsType,
+  WatchedCompany,
+  WatchedCompanyListResponse,
+  WatchedCompanyAddResponse,
+  JobSource,
+  JobSourceStatus,
   FileListResponse,
   FileContentResponse,
+  FileTextResponse,
   DbFilterPreviewResponse,
   DbFilterDeleteResponse,
-  PageListResponse
+  PageListResponse,
+  Message,
+  ChatMessage,
+  ChatMessageMeta,
+  MessageListResponse,
+  ConversationRecord,
+  ConversationListResponse,
+  AiChatPayload,
+  AiStreamEvent,
+  AiStreamResult,
+  AiServiceResponse,
+  AiCredential,
+  AiCredentialListResponse,
+  AiCredentialTestResponse,
+  AiServiceListResponse,
+  UsageSummaryResponse,
+  UsageBudgetStatus,
+  UsagePricing,
+  AiFallbackEntry,
+  AiProviderType,
+  RetrievalSource
 } from './type'
 
 // Typsichere Deserialisierung der JSON-Konfigurationsdaten
@@ -136,6 +185,42 @@ const ensureScheme = (value: string): string => {
   return `https://${value}`
 }
 
+/**
+ * Parst eigene HTTP-Header im Format "Name: Wert" (eine Zeile pro Header)
+ * Zeilen ohne Doppelpunkt werden ignoriert
+ */
+export const parseHeaderLines = (input: string): Record<string, string> => {
+  const headers: Record<string, string> = {}
+  for (const line of input.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator <= 0) {
+      continue
+    }
+    const name = line.slice(0, separator).trim()
+    const value = line.slice(separator + 1).trim()
+    if (name && value) {
+      headers[name] = value
+    }
+  }
+  return headers
+}
+
+/**
+ * Parst die Fallback-Kette, eine Zeile pro Eintrag: "provider modell [apiUrl]"
+ * z.B. "claude claude-3-5-sonnet-latest" oder "ollama llama3:8b http://localhost:11434"
+ */
+export const parseFallbackLines = (input: string): AiFallbackEntry[] => {
+  return input
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/))
+    .filter(([provider, model]) => provider && model)
+    .map(([provider, model, apiUrl]) => ({
+      provider: provider as AiProviderType,
+      model,
+      ...(apiUrl ? { apiUrl } : {})
+    }))
+}
+
 export const parseUrlList = (input: string): string[] => {
   const raw = input
     .split(/[\s,]+/)
@@ -189,11 +274,18 @@ export const searchPages = async (query: string, chatId: number, limit = 1000, o
  * @param title - Optional: Seitentitel
  * @returns Gespeicherte Seite mit ID
  */
-export const savePage = async (url: string, content: string, chatId: number, title?: string): Promise<WebPageRecord> => {
+export const savePage = async (
+  url: string,
+  content: string,
+  chatId: number,
+  title?: string,
+  jobPosting?: JobPostingData | null,
+  contentFormat?: PageContentFormat
+): Promise<WebPageRecord> => {
   const response = await fetch(`${API_BASE}/api/pages`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ url, content, title, chatId })
+    body: JSON.stringify({ url, content, title, jobPosting, contentFormat, chatId })
   })
 
   if (!response.ok) {
@@ -236,6 +328,149 @@ export const crawlUrls = async (urls: string[], chatId: number): Promise<CrawlRe
   return response.json()
 }
 
+/**
+ * Folgt ab einer Karriereseite den Links derselben Website
+ * Gespeichert werden nur Seiten, die zu den include-Mustern passen
+ *
+ * @param params - Seed-URL, Tiefe, Seitenbudget und Muster
+ * @param chatId - Chat-ID für Datenbank-Isolation
+ * @returns Gespeicherte Seiten, Link-Graph und übersprungene URLs
+ */
+export const crawlFromSeed = async (params: SeedCrawlParams, chatId: number): Promise<SeedCrawlResponse> => {
+  const response = await fetch(`${API_BASE}/api/crawl/seed`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...params, chatId })
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Seed crawl failed')
+  }
+
+  return response.json()
+}
+
+/**
+ * Crawl-Jobs eines Chats, neueste zuerst
+ */
+export const fetchCrawlJobs = async (conversationId: number): Promise<CrawlJob[]> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/crawl-jobs`)
+  if (!response.ok) {
+    throw new Error('Fetch crawl jobs failed')
+  }
+  const data = (await response.json()) as CrawlJobListResponse
+  return data.items
+}
+
+/**
+ * Job mit Status und Ergebnis jeder URL
+ */
+export const fetchCrawlJob = async (conversationId: number, jobId: number): Promise<CrawlJobDetailResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/crawl-jobs/${jobId}`)
+  if (!response.ok) {
+    throw new Error('Fetch crawl job failed')
+  }
+  return response.json()
+}
+
+/**
+ * Startet einen Crawl-Job auf dem Server; er läuft weiter, wenn der Tab geschlossen wird
+ *
+ * @param conversationId - Chat-ID
+ * @param urls - URLs zum Crawlen (max 1000)
+ * @returns Neuer Job mit allen URLs (Status pending)
+ */
+export const createCrawlJob = async (conversationId: number, urls: string[]): Promise<CrawlJobDetailResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/crawl-jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ urls })
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Create crawl job failed')
+  }
+  return response.json()
+}
+
+/**
+ * Pausiert, setzt fort oder bricht einen Job ab
+ * @returns Job mit neuem Status
+ */
+export const updateCrawlJobState = async (
+  conversationId: number,
+  jobId: number,
+  action: 'pause' | 'resume' | 'cancel'
+): Promise<CrawlJob> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/crawl-jobs/${jobId}/${action}`, {
+    method: 'POST'
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `Crawl job ${action} failed`)
+  }
+  return data.job
+}
+
+/**
+ * Lädt nur die fehlgeschlagenen URLs eines Jobs erneut
+ */
+export const retryFailedCrawlJob = async (conversationId: number, jobId: number): Promise<CrawlJobDetailResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/crawl-jobs/${jobId}/retry-failed`, {
+    method: 'POST'
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Retry failed URLs failed')
+  }
+  return response.json()
+}
+
+/**
+ * Abonniert den Fortschritt eines Jobs per Server-Sent Events
+ *
+ * @param onEvent - Wird nach jeder URL und bei Statuswechseln aufgerufen
+ * @returns Funktion zum Beenden der Verbindung
+ */
+export const subscribeCrawlJob = (
+  conversationId: number,
+  jobId: number,
+  onEvent: (event: CrawlJobEvent) => void
+): (() => void) => {
+  const source = new EventSource(`${API_BASE}/api/conversations/${conversationId}/crawl-jobs/${jobId}/events`)
+  source.onmessage = (message) => {
+    try {
+      onEvent(JSON.parse(message.data) as CrawlJobEvent)
+    } catch (error) {
+      console.error('Invalid crawl job event:', error)
+    }
+  }
+  return () => source.close()
+}
+
+/**
+ * Extrahiert gespeicherte Seiten neu (Markdown bzw. Text laut Server-Modus)
+ *
+ * @param chatId - Chat-ID
+ * @param ids - Optional: nur diese Seiten, sonst alle
+ * @param refetch - Seiten ohne gespeichertes HTML neu laden
+ * @returns Ergebnis pro Seite und Anzahl aktualisierter Seiten
+ */
+export const reextractPages = async (chatId: number, ids?: number[], refetch = false): Promise<PageReextractResponse> => {
+  const response = await fetch(`${API_BASE}/api/pages/reextract`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chatId, ids, refetch })
+  })
+
+  if (!response.ok) {
+    throw new Error('Re-extract failed')
+  }
+
+  return response.json()
+}
+
 /**
  * Web-Vorschau ohne zu speichern
  * Für User um URLs vor dem Speichern zu prüfen
@@ -259,17 +494,44 @@ export const previewUrls = async (urls: string[], query: string): Promise<Previe
 }
 
 /**
- * Sucht in Job-APIs (6 Quellen parallel)
+ * Sucht in Job-APIs (alle aktiven Quellen parallel)
  * 
  * @param query - Suchtext z.B. "React Developer"
  * @param limit - Max Ergebnisse pro API
- * @returns Aggregierte Job-Ergebnisse
+ * @param sources - Optional: IDs der aktiven Quellen
+ * @param filters - Optional: Ort, Land, Remote, Anstellungsart, Alter, Mindestgehalt
+ * @param enrich - Optional: Kurze Beschreibungen serverseitig von der Landingpage nachladen
+ * @param chatId - Optional: Chat, dessen registrierte Feeds mit durchsucht werden
+ * @returns Aggregierte Job-Ergebnisse und Status pro Quelle
  */
-export const searchJobs = async (query: string, limit = 50): Promise<JobSearchResponse> => {
+export const searchJobs = async (
+  query: string,
+  limit = 50,
+  sources?: string[],
+  filters: JobSearchFilters = {},
+  enrich = false,
+  chatId?: number
+): Promise<JobSearchResponse> => {
   const params = new URLSearchParams({
     q: query,
     limit: String(limit)
   })
+  if (enrich) {
+    params.set('enrich', 'true')
+  }
+  if (chatId) {
+    params.set('chatId', String(chatId))
+  }
+  // Ohne sources fragt der Server alle Quellen ab
+  if (sources) {
+    params.set('sources', sources.join(','))
+  }
+  // Leere Filter weglassen, damit der Server-Cache greift
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '' && value !== false) {
+      params.set(key, String(value))
+    }
+  })
   const response = await fetch(`${API_BASE}/api/jobs/search?${params.toString()}`)
 
   if (!response.ok) {
@@ -279,6 +541,42 @@ export const searchJobs = async (query: string, limit = 50): Promise<JobSearchRe
   return response.json()
 }
 
+/**
+ * Holt die verfügbaren Job-Quellen
+ */
+export const fetchJobSources = async (): Promise<JobSource[]> => {
+  const response = await fetch(`${API_BASE}/api/jobs/sources`)
+  if (!response.ok) {
+    throw new Error('Fetch job sources failed')
+  }
+  const payload = await response.json()
+  return payload.sources
+}
+
+/**
+ * Fasst den Quellen-Status mehrerer Suchanfragen zusammen
+ * ok gewinnt, Treffer werden addiert, Latenz ist die längste
+ */
+export const mergeJobSourceStatus = (lists: JobSourceStatus[][]): JobSourceStatus[] => {
+  const merged = new Map<string, JobSourceStatus>()
+  for (const list of lists) {
+    for (const entry of list) {
+      const existing = merged.get(entry.id)
+      if (!existing) {
+        merged.set(entry.id, { ...entry })
+        continue
+      }
+      existing.itemCount += entry.itemCount
+      existing.latencyMs = Math.max(existing.latencyMs, entry.latencyMs)
+      if (entry.status === 'ok' && existing.status !== 'ok') {
+        existing.status = 'ok'
+        existing.reason = undefined
+      }
+    }
+  }
+  return Array.from(merged.values())
+}
+
 /**
  * Holt Liste der hochgeladenen Template-Dateien
  * 
@@ -308,6 +606,22 @@ export const fetchFileContent = async (fileId: string, chatId: number): Promise<
   return response.json()
 }
 
+/**
+ * Holt den extrahierten Klartext einer hochgeladenen Datei
+ * PDF, DOCX, ODT, RTF, Markdown und HTML werden serverseitig umgewandelt
+ *
+ * @param fileId - Datei-ID
+ * @param chatId - Chat-ID
+ * @returns Text und Extraktions-Status
+ */
+export const fetchFileText = async (fileId: string, chatId: number): Promise<FileTextResponse> => {
+  const response = await fetch(`${API_BASE}/api/files/${fileId}/text?chatId=${chatId}`)
+  if (!response.ok) {
+    throw new Error('Fetch file text failed')
+  }
+  return response.json()
+}
+
 /**
  * Vorschau: Welche Einträge würden gelöscht?
  * Für Filter-Operationen auf Datenbank
@@ -376,6 +690,579 @@ export const fetchAllPages = async (chatId: number): Promise<PageListResponse> =
   return response.json()
 }
 
+/**
+ * Holt alle gespeicherten Jobs eines Chats
+ *
+ * @param chatId - Chat-ID
+ */
+export const fetchSavedJobs = async (chatId: number): Promise<JobRecord[]> => {
+  const response = await fetch(`${API_BASE}/api/jobs/saved?chatId=${chatId}`)
+  if (!response.ok) {
+    throw new Error('Fetch saved jobs failed')
+  }
+  const data = (await response.json()) as JobRecordListResponse
+  return data.items
+}
+
+/**
+ * Speichert ausgewählte Job-Treffer in der Chat-Datenbank
+ * Bereits gespeicherte Jobs werden aktualisiert statt doppelt angelegt
+ *
+ * @param items - Treffer aus searchJobs()
+ * @param chatId - Chat-ID
+ */
+export const saveJobs = async (items: JobSearchItem[], chatId: number): Promise<JobSaveResponse> => {
+  const response = await fetch(`${API_BASE}/api/jobs/saved`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items, chatId })
+  })
+  if (!response.ok) {
+    throw new Error('Save jobs failed')
+  }
+  return response.json()
+}
+
+export const deleteSavedJob = async (id: number, chatId: number): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/jobs/saved/${id}?chatId=${chatId}`, {
+    method: 'DELETE'
+  })
+  if (!response.ok) {
+    throw new Error('Delete job failed')
+  }
+}
+
+/**
+ * Text eines gespeicherten Jobs für Bewerbungs-Prompts
+ */
+export const formatJobRecordText = (job: JobRecord): string => {
+  return [
+    job.title,
+    [job.company, job.location].filter(Boolean).join(' · '),
+    job.url,
+    job.description
+  ].filter(Boolean).join('\n')
+}
+
+// ===== AI STREAMING =====
+
+/**
+ * Streamt eine KI-Antwort über Server-Sent Events
+ * onToken wird für jedes Teilstück aufgerufen, sobald es ankommt
+ * Wird das Signal abgebrochen, liefert die Funktion den bis dahin empfangenen Text
+ *
+ * @param payload - Provider, Modell und Nachrichten
+ * @param onToken - Callback für jedes empfangene Teilstück
+ * @param signal - AbortSignal zum Stoppen der Generierung
+ * @returns Vollständige (oder abgebrochene) Antwort
+ */
+export const streamChat = async (
+  payload: AiChatPayload,
+  onToken: (token: string) => void,
+  signal: AbortSignal
+): Promise<AiStreamResult> => {
+  let content = ''
+  let sources: RetrievalSource[] = []
+  let result: AiServiceResponse | null = null
+
+  try {
+    const response = await fetch(`${API_BASE}/api/ai/chat/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal
+    })
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => null)
+      throw new Error(error?.error || 'AI request failed')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      buffer += decoder.decode(value, { stream: true })
+
+      // SSE-Events sind durch eine Leerzeile getrennt
+      const events = buffer.split('\n\n')
+      buffer = events.pop() || ''
+
+      for (const rawEvent of events) {
+        const data = rawEvent
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('')
+        if (!data) {
+          continue
+        }
+
+        const event = JSON.parse(data) as AiStreamEvent
+        if (event.type === 'sources') {
+          sources = event.sources
+        } else if (event.type === 'token') {
+          content += event.content
+          onToken(event.content)
+        } else if (event.type === 'done') {
+          content = event.content
+          result = event
+        } else if (event.type === 'error') {
+          throw new Error(event.error)
+        }
+      }
+    }
+
+    return { content, aborted: false, sources, response: result }
+  } catch (error) {
+    if (signal.aborted) {
+      return { content, aborted: true, sources, response: null }
+    }
+    throw error
+  }
+}
+
+/**
+ * Holt die AI Services mit ihren Modellen
+ * Die Modelle fragt der Server beim Provider ab (gecacht)
+ *
+ * @param params - provider/apiUrl für den aktuellen Provider, serviceId für den Key, refresh umgeht den Cache
+ */
+export const fetchAiServices = async (
+  params: { provider?: string; apiUrl?: string; serviceId?: string; refresh?: boolean } = {}
+): Promise<AiServiceListResponse> => {
+  const query = new URLSearchParams()
+  if (params.provider) query.set('provider', params.provider)
+  if (params.apiUrl) query.set('apiUrl', params.apiUrl)
+  if (params.serviceId) query.set('serviceId', params.serviceId)
+  if (params.refresh) query.set('refresh', '1')
+
+  const response = await fetch(`${API_BASE}/api/ai/services?${query.toString()}`)
+  if (!response.ok) {
+    throw new Error('Fetch AI services failed')
+  }
+  return response.json()
+}
+
+// ===== API KEY VAULT FUNCTIONS =====
+
+/**
+ * Holt die gespeicherten Zugangsdaten (Keys nur maskiert)
+ */
+export const fetchCredentials = async (): Promise<AiCredentialListResponse> => {
+  const response = await fetch(`${API_BASE}/api/ai/credentials`)
+  if (!response.ok) {
+    throw new Error('Fetch credentials failed')
+  }
+  return response.json()
+}
+
+/**
+ * Speichert einen API-Key verschlüsselt auf dem Server
+ *
+ * @param provider - Provider des Keys
+ * @param apiKey - Klartext-Key (wird nur einmal übertragen)
+ * @param label - Optional: Anzeigename
+ * @param apiUrl - Server-URL (Pflicht für openai-compatible, der Key geht nur an diese URL)
+ * @returns Gespeicherter Eintrag mit serviceId
+ */
+export const saveCredential = async (
+  provider: string,
+  apiKey: string,
+  label?: string,
+  apiUrl?: string
+): Promise<AiCredential> => {
+  const response = await fetch(`${API_BASE}/api/ai/credentials`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ provider, apiKey, label, apiUrl })
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null)
+    throw new Error(error?.error || 'Save credential failed')
+  }
+
+  return response.json()
+}
+
+/**
+ * Testet gespeicherte Zugangsdaten gegen den Provider
+ */
+export const testCredential = async (id: string): Promise<AiCredentialTestResponse> => {
+  const response = await fetch(`${API_BASE}/api/ai/credentials/${id}/test`, {
+    method: 'POST'
+  })
+  if (!response.ok) {
+    throw new Error('Test credential failed')
+  }
+  return response.json()
+}
+
+/**
+ * Entfernt Zugangsdaten aus dem Vault
+ *
+ * @param id - serviceId
+ */
+export const deleteCredential = async (id: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/ai/credentials/${id}`, {
+    method: 'DELETE'
+  })
+  if (!response.ok) {
+    throw new Error('Delete credential failed')
+  }
+}
+
+// ===== USAGE FUNCTIONS =====
+
+/**
+ * Holt Verbrauch und Kosten der letzten Tage
+ *
+ * @param days - Zeitraum in Tagen (inkl. heute)
+ * @param chatId - Optional: nur ein Chat
+ */
+export const fetchUsage = async (days: number = 30, chatId?: string): Promise<UsageSummaryResponse> => {
+  const params = new URLSearchParams({ days: String(days) })
+  if (chatId) params.set('chatId', chatId)
+
+  const response = await fetch(`${API_BASE}/api/usage?${params.toString()}`)
+  if (!response.ok) {
+    throw new Error('Fetch usage failed')
+  }
+  return response.json()
+}
+
+/**
+ * Setzt das Budget-Limit (limitUsd: null = kein Limit)
+ */
+export const saveUsageBudget = async (
+  limitUsd: number | null,
+  period: UsageBudgetStatus['period']
+): Promise<UsageBudgetStatus> => {
+  const response = await fetch(`${API_BASE}/api/usage/budget`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ limitUsd, period })
+  })
+  if (!response.ok) {
+    throw new Error('Save budget failed')
+  }
+  const payload = await response.json()
+  return payload.budget
+}
+
+/**
+ * Setzt den Preis für openai-compatible Endpunkte (null = wieder unbekannt)
+ */
+export const saveCompatiblePricing = async (pricing: UsagePricing | null): Promise<UsagePricing | null> => {
+  const response = await fetch(`${API_BASE}/api/usage/pricing`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(pricing ?? { costPer1kPromptTokens: null, costPer1kCompletionTokens: null })
+  })
+  if (!response.ok) {
+    throw new Error('Save pricing failed')
+  }
+  const payload = await response.json()
+  return payload.compatiblePricing
+}
+
+/**
+ * Formatiert einen Dollar-Betrag, kleine Beträge mit mehr Nachkommastellen
+ */
+export const formatUsd = (value: number): string => {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`
+}
+
+// ===== CONVERSATION API FUNCTIONS =====
+
+/**
+ * Holt alle gespeicherten Konversationen
+ *
+ * @returns Konversationen mit Titel und Zeitstempeln
+ */
+export const fetchConversations = async (): Promise<ConversationListResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations`)
+  if (!response.ok) {
+    throw new Error('Fetch conversations failed')
+  }
+  return response.json()
+}
+
+/**
+ * Legt eine neue Konversation an
+ * Die ID wird vom Server vergeben
+ *
+ * @param title - Optional: Anzeigename
+ * @returns Gespeicherte Konversation
+ */
+export const createConversation = async (title?: string): Promise<ConversationRecord> => {
+  const response = await fetch(`${API_BASE}/api/conversations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title })
+  })
+
+  if (!response.ok) {
+    throw new Error('Create conversation failed')
+  }
+
+  return response.json()
+}
+
+/**
+ * Benennt eine Konversation um
+ *
+ * @param conversationId - Chat-ID
+ * @param title - Neuer Anzeigename
+ * @returns Aktualisierte Konversation
+ */
+export const renameConversation = async (conversationId: number, title: string): Promise<ConversationRecord> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title })
+  })
+
+  if (!response.ok) {
+    throw new Error('Rename conversation failed')
+  }
+
+  return response.json()
+}
+
+/**
+ * Löscht eine Konversation inklusive Chat-Datenbank
+ *
+ * @param conversationId - Chat-ID
+ */
+export const deleteConversation = async (conversationId: number): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}`, {
+    method: 'DELETE'
+  })
+
+  if (!response.ok) {
+    throw new Error('Delete conversation failed')
+  }
+}
+
+/**
+ * Lädt den Nachrichtenverlauf einer Konversation
+ *
+ * @param conversationId - Chat-ID
+ * @returns Nachrichten in chronologischer Reihenfolge
+ */
+export const fetchMessages = async (conversationId: number): Promise<MessageListResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/messages`)
+  if (!response.ok) {
+    throw new Error('Fetch messages failed')
+  }
+  return response.json()
+}
+
+/**
+ * Speichert eine Nachricht im Verlauf der Konversation
+ *
+ * @param conversationId - Chat-ID
+ * @param sender - 'user' oder 'ai'
+ * @param text - Nachrichtentext
+ * @param sources - Optional: zitierte Seiten aus der Chat-Datenbank
+ * @param meta - Optional: Provider, Modell, Tokens und finishReason der KI-Antwort
+ * @returns Gespeicherte Nachricht mit Server-ID
+ */
+export const appendMessage = async (
+  conversationId: number,
+  sender: Message['sender'],
+  text: string,
+  sources?: RetrievalSource[],
+  meta?: ChatMessageMeta
+): Promise<ChatMessage> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/messages`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sender, text, sources, ...meta })
+  })
+
+  if (!response.ok) {
+    throw new Error('Save message failed')
+  }
+
+  return response.json()
+}
+
+/**
+ * Lädt die gespeicherten Suchen eines Chats
+ */
+export const fetchSavedSearches = async (conversationId: number): Promise<SavedSearch[]> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/saved-searches`)
+  if (!response.ok) {
+    throw new Error('Fetch saved searches failed')
+  }
+  const data = (await response.json()) as SavedSearchListResponse
+  return data.savedSearches
+}
+
+/**
+ * Speichert Suchbegriffe, Filter und Quellen als wiederkehrende Suche
+ *
+ * @param conversationId - Chat-ID
+ * @param payload - { name?, queries, filters?, sources?, intervalMinutes? }
+ * @returns Angelegte Suche (läuft beim nächsten Scheduler-Tick)
+ */
+export const createSavedSearch = async (conversationId: number, payload: SavedSearchPayload): Promise<SavedSearch> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/saved-searches`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Save search failed')
+  }
+  return response.json()
+}
+
+export const deleteSavedSearch = async (conversationId: number, searchId: number): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/saved-searches/${searchId}`, {
+    method: 'DELETE'
+  })
+  if (!response.ok) {
+    throw new Error('Delete saved search failed')
+  }
+}
+
+/**
+ * Führt eine gespeicherte Suche sofort aus
+ * @returns Aktualisierte Suche und die neu gefundenen Jobs
+ */
+export const runSavedSearch = async (conversationId: number, searchId: number): Promise<SavedSearchRunResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/saved-searches/${searchId}/run`, {
+    method: 'POST'
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Run saved search failed')
+  }
+  return response.json()
+}
+
+/**
+ * Lädt die gemerkten Treffer einer gespeicherten Suche (neueste zuerst)
+ */
+export const fetchSavedSearchResults = async (
+  conversationId: number,
+  searchId: number
+): Promise<SavedSearchResultItem[]> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/saved-searches/${searchId}/results`)
+  if (!response.ok) {
+    throw new Error('Fetch saved search results failed')
+  }
+  const data = await response.json()
+  return data.items
+}
+
+/**
+ * Setzt das "neu"-Badge einer gespeicherten Suche zurück
+ */
+export const markSavedSearchSeen = async (conversationId: number, searchId: number): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/saved-searches/${searchId}/seen`, {
+    method: 'POST'
+  })
+  if (!response.ok) {
+    throw new Error('Mark saved search seen failed')
+  }
+}
+
+/**
+ * Lädt die registrierten Job-Feeds eines Chats
+ */
+export const fetchJobFeeds = async (conversationId: number): Promise<JobFeed[]> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/feeds`)
+  if (!response.ok) {
+    throw new Error('Fetch feeds failed')
+  }
+  const data = (await response.json()) as JobFeedListResponse
+  return data.feeds
+}
+
+/**
+ * Registriert einen RSS/Atom/JSON-Feed; der Server prüft die URL beim Anlegen
+ *
+ * @param conversationId - Chat-ID
+ * @param url - Feed-URL
+ * @returns Gespeicherter Feed und Anzahl der Einträge
+ */
+export const addJobFeed = async (conversationId: number, url: string): Promise<JobFeedAddResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/feeds`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url })
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Add feed failed')
+  }
+  return response.json()
+}
+
+export const deleteJobFeed = async (conversationId: number, feedId: number): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/feeds/${feedId}`, {
+    method: 'DELETE'
+  })
+  if (!response.ok) {
+    throw new Error('Delete feed failed')
+  }
+}
+
+/**
+ * Lädt die Firmen-Watchlist eines Chats
+ */
+export const fetchWatchedCompanies = async (conversationId: number): Promise<WatchedCompany[]> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/companies`)
+  if (!response.ok) {
+    throw new Error('Fetch companies failed')
+  }
+  const data = (await response.json()) as WatchedCompanyListResponse
+  return data.companies
+}
+
+/**
+ * Nimmt eine Firma in die Watchlist auf; der Server prüft das Job-Board beim Anlegen
+ *
+ * @param conversationId - Chat-ID
+ * @param company - Firmenname, ATS-Typ und Board-Slug
+ * @returns Gespeicherte Firma und Anzahl offener Stellen
+ */
+export const addWatchedCompany = async (
+  conversationId: number,
+  company: { name: string, ats: AtsType, slug: string }
+): Promise<WatchedCompanyAddResponse> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/companies`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(company)
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Add company failed')
+  }
+  return response.json()
+}
+
+export const deleteWatchedCompany = async (conversationId: number, companyId: number): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/conversations/${conversationId}/companies/${companyId}`, {
+    method: 'DELETE'
+  })
+  if (!response.ok) {
+    throw new Error('Delete company failed')
+  }
+}
+
 export const getNextConversationId = (conversations: Conversation[]): number => {
   if (conversations.length === 0) {
     return 1
@@ -397,7 +1284,7 @@ export const filterWebResults = (items: WebPageRecord[], query: string): WebPage
     return items
   }
   return items.filter((item) => {
-    const haystack = `${item.url} ${item.title ?? ''} ${item.content}`.toLowerCase()
+    const haystack = `${item.url} ${item.title ?? ''} ${item.job_company ?? ''} ${item.job_location ?? ''} ${item.content}`.toLowerCase()
     return haystack.includes(normalized)
   })
 }
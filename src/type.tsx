@@ -27,6 +27,26 @@ export type Message = {
   id: number              // Eindeutige ID (fortlaufend)
   text: string            // Inhalt der Nachricht
   sender: 'user' | 'ai'   // Wer die Nachricht gesendet hat
+  sources?: RetrievalSource[]  // Zitierte Seiten aus der Chat-Datenbank
+  createdAt?: string      // ISO Timestamp (nur bei gespeicherten Nachrichten)
+}
+
+/**
+ * Seite aus der Chat-Datenbank, die als Kontext an die KI ging
+ * index entspricht der Zitiernummer [n] in der Antwort
+ */
+export type RetrievalSource = {
+  index: number
+  id: number
+  url: string
+  title: string | null
+}
+
+/**
+ * Gespeicherter Nachrichtenverlauf einer Konversation
+ */
+export type MessageListResponse = {
+  messages: ChatMessage[]
 }
 
 // ===== CONVERSATION TYPES =====
@@ -40,6 +60,21 @@ export type Conversation = {
   title: string   // Anzeigename der Konversation
 }
 
+/**
+ * Konversation wie sie vom Server gespeichert wird
+ * Ältere Chat-Datenbanken ohne Metadaten erhalten einen Standardtitel
+ */
+export type ConversationRecord = {
+  id: number
+  title: string
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export type ConversationListResponse = {
+  conversations: ConversationRecord[]
+}
+
 // ===== SETTINGS TYPES =====
 
 /**
@@ -60,6 +95,7 @@ export type GlobalSettings = {
  */
 export type ChatSettings = {
   temperature: number   // Kreativität der AI (0=präzise, 1=kreativ)
+  maxTokens: number     // Maximale Länge einer Antwort in Tokens
   model: string         // Welches KI-Modell verwenden
   writingStyle: string  // Schreibstil der Antworten
   systemPrompt: string  // Chat-spezifische Anweisung für die AI
@@ -147,16 +183,45 @@ export type DataFile = {
 
 // ===== WEB PAGE TYPES =====
 
+// Inhalt von pages.content: Markdown (Hauptinhalt) oder gesamter Seitentext
+export type PageContentFormat = 'markdown' | 'text'
+
+/**
+ * schema.org JobPosting aus dem JSON-LD einer Seite
+ */
+export type JobPostingData = {
+  company: string | null
+  location: string | null
+  datePosted: string | null
+  validThrough: string | null       // Bewerbungsfrist
+  employmentType: string | null
+  salaryMin: number | null
+  salaryMax: number | null
+  salaryCurrency: string | null
+  salaryUnit: string | null
+}
+
 export type WebPageRecord = {
   id: number
   url: string
   title: string | null
   content: string
+  content_format?: PageContentFormat
   status_code: number | null
   content_hash: string | null
   fetched_at: string
   created_at: string
   updated_at: string
+  // JobPosting-Felder (nur bei Seiten mit JSON-LD gefüllt)
+  job_company?: string | null
+  job_location?: string | null
+  job_date_posted?: string | null
+  job_valid_through?: string | null
+  job_employment_type?: string | null
+  job_salary_min?: number | null
+  job_salary_max?: number | null
+  job_salary_currency?: string | null
+  job_salary_unit?: string | null
 }
 
 export type PageSearchResponse = {
@@ -171,23 +236,130 @@ export type CrawlResultItem = {
   id?: number
   statusCode?: number
   contentHash?: string
-  reason?: string
+  contentFormat?: PageContentFormat
+  jobPosting?: JobPostingData | null
+  reason?: string                   // z.B. 'no_content', 'robots_disallowed', 'blocked' oder Fehlermeldung
+  detail?: string                   // Begründung bei 'blocked' (SSRF-Schutz)
 }
 
 export type CrawlResponse = {
   items: CrawlResultItem[]
 }
 
+// Link-Crawl ab einer Karriereseite (/api/crawl/seed)
+export type SeedCrawlParams = {
+  seedUrl: string
+  maxDepth?: number
+  maxPages?: number
+  include?: string[]                // Glob ("/jobs/*") oder Regex mit "re:"
+  exclude?: string[]
+}
+
+export type SeedCrawlSkipReason =
+  | 'excluded' | 'not_matched' | 'not_html' | 'max_depth' | 'max_pages'
+  | 'robots_disallowed' | 'blocked' | 'external' | 'http_error' | 'no_content' | 'failed'
+
+export type SeedCrawlSkippedItem = {
+  url: string
+  reason: SeedCrawlSkipReason
+  detail?: string
+}
+
+// Geladene Seite mit ihren Links auf derselben Website
+export type SeedCrawlGraphNode = {
+  url: string
+  depth: number
+  links: string[]
+}
+
+export type SeedCrawlResponse = {
+  seedUrl: string
+  items: (CrawlResultItem & { depth: number })[]
+  graph: SeedCrawlGraphNode[]
+  skipped: SeedCrawlSkippedItem[]
+  fetched: number
+}
+
+// Crawl-Job im Hintergrund (/api/conversations/:id/crawl-jobs)
+export type CrawlJobStatus = 'running' | 'paused' | 'completed' | 'cancelled'
+
+export type CrawlJobUrlStatus = 'pending' | 'running' | 'ok' | 'failed' | 'skipped' | 'cancelled'
+
+export type CrawlJob = {
+  id: number
+  status: CrawlJobStatus
+  total: number
+  counts: Record<CrawlJobUrlStatus, number>
+  createdAt: string
+  updatedAt: string
+  finishedAt: string | null
+}
+
+export type CrawlJobItem = {
+  position: number                  // Reihenfolge der URL im Job
+  url: string
+  status: CrawlJobUrlStatus
+  reason: string | null             // wie CrawlResultItem.reason
+  detail: string | null
+  pageId: number | null             // Gespeicherte Seite bei 'ok'
+  statusCode: number | null
+  attempts: number
+  updatedAt: string
+}
+
+export type CrawlJobListResponse = {
+  items: CrawlJob[]
+}
+
+export type CrawlJobDetailResponse = {
+  job: CrawlJob
+  items: CrawlJobItem[]
+}
+
+// Server-Sent Event nach jeder URL (item = null beim Verbinden und bei Statuswechseln)
+export type CrawlJobEvent = {
+  type: 'progress'
+  job: CrawlJob
+  item: CrawlJobItem | null
+}
+
+export type PageReextractItem = {
+  id: number
+  url: string
+  status: 'ok' | 'failed' | 'skipped'
+  source?: 'html' | 'fetch'       // Gespeichertes HTML oder neu geladen
+  contentFormat?: PageContentFormat
+  reason?: string
+  detail?: string
+}
+
+export type PageReextractResponse = {
+  items: PageReextractItem[]
+  mode: PageContentFormat
+  updated: number
+}
+
 export type WebPreviewItem = {
   url: string
   title: string | null
   content: string
+  contentFormat?: PageContentFormat
   statusCode?: number
+  jobPosting?: JobPostingData | null
   reason?: string
 }
 
+// Von /api/preview übersprungene URL (robots.txt oder SSRF-Schutz)
+export type PreviewSkippedItem = {
+  url: string
+  status: 'skipped'
+  reason: 'blocked' | 'robots_disallowed'
+  detail: string
+}
+
 export type PreviewResponse = {
   items: WebPreviewItem[]
+  skipped?: PreviewSkippedItem[]
 }
 
 // ===== JOB SEARCH TYPES =====
@@ -200,18 +372,210 @@ export type JobSearchItem = {
   url: string
   source: string
   description: string
-  createdAt?: string
+  descriptionType?: JobDescriptionType
+  descriptionSource?: 'page'       // Volltext wurde von der Landingpage nachgeladen
+  createdAt?: string | null
+  remote?: boolean | null          // null = Quelle macht keine Angabe
+  employmentType?: JobEmploymentType | null
+  salaryMin?: number | null
+  salaryMax?: number | null
+  foundOn?: JobFoundOn[]           // alle Quellen, die dieselbe Stelle geliefert haben
+}
+
+/**
+ * Fundstelle eines zusammengeführten Jobs (siehe dedupeJobs im Server)
+ */
+export type JobFoundOn = {
+  source: string
+  id: string
+  url: string
+}
+
+/**
+ * In der Chat-Datenbank gespeicherter Job (Tabelle jobs)
+ * externalId = JobSearchItem.id, createdAt = Veröffentlichungsdatum laut Quelle
+ */
+export type JobRecord = {
+  id: number
+  source: string
+  externalId: string
+  title: string
+  company: string | null
+  location: string | null
+  url: string | null
+  description: string
+  descriptionType: JobDescriptionType
+  remote: boolean | null
+  employmentType: JobEmploymentType | null
+  salaryMin: number | null
+  salaryMax: number | null
+  createdAt: string | null
+  savedAt: string
+  updatedAt: string
+}
+
+export type JobRecordListResponse = {
+  items: JobRecord[]
+}
+
+export type JobSaveResponse = {
+  saved: number                    // neu angelegt
+  updated: number                  // bereits vorhanden, aktualisiert
+  items: JobRecord[]
+}
+
+export type JobEmploymentType = 'full_time' | 'part_time' | 'contract' | 'internship'
+
+// snippet = gekürzter API-Ausschnitt, full = vollständige Stellenbeschreibung
+export type JobDescriptionType = 'snippet' | 'full'
+
+/**
+ * Strukturierte Filter für GET /api/jobs/search
+ * Werden pro Quelle nativ gemappt oder serverseitig nachgefiltert
+ */
+export type JobSearchFilters = {
+  location?: string
+  radiusKm?: number                // nur zusammen mit location
+  country?: string                 // ISO-Code, z.B. 'de', 'gb'
+  remoteOnly?: boolean
+  employmentType?: JobEmploymentType
+  postedWithinDays?: number
+  salaryMin?: number
+}
+
+/**
+ * Job-Quelle aus GET /api/jobs/sources
+ * configured = false, wenn benötigte Env-Keys auf dem Server fehlen
+ */
+export type JobSource = {
+  id: string
+  name: string
+  requiredEnv: string[]
+  configured: boolean
+  countries: string[] | null       // null = nicht landesgebunden
+  nativeFilters: (keyof JobSearchFilters)[]
+}
+
+/**
+ * Ergebnis einer Quelle bei einer Jobsuche
+ * skipped = Env-Key fehlt, disabled = in der UI abgewählt
+ */
+export type JobSourceStatus = {
+  id: string
+  name: string
+  status: 'ok' | 'failed' | 'skipped' | 'disabled'
+  reason?: string
+  latencyMs: number
+  itemCount: number
 }
 
 export type JobSearchResponse = {
   items: JobSearchItem[]
+  sources: JobSourceStatus[]
+  cached: boolean                  // true = Ergebnis aus dem Server-Cache
+  stale: boolean                   // true = Cache-Eintrag veraltet, wird im Hintergrund erneuert
+  fetchedAt: string | null         // Zeitpunkt der Abfrage bei den Quellen
+  ageMs: number
+}
+
+/**
+ * Gespeicherte Jobsuche eines Chats, wird vom Server-Scheduler wiederholt
+ * newCount = Treffer seit dem letzten Ansehen, totalCount = alle gemerkten Treffer
+ */
+export type SavedSearch = {
+  id: number
+  name: string
+  queries: string[]
+  filters: JobSearchFilters
+  sources: string[] | null         // null = alle Quellen
+  intervalMinutes: number
+  enabled: boolean
+  lastRunAt: string | null
+  lastSuccessAt: string | null
+  lastRunStatus: 'ok' | 'partial' | 'failed' | null
+  lastError: string | null
+  newCount: number
+  totalCount: number
+  createdAt: string
+}
+
+export type SavedSearchPayload = {
+  name?: string
+  queries: string[]
+  filters?: JobSearchFilters
+  sources?: string[] | null
+  intervalMinutes?: number
+}
+
+export type SavedSearchListResponse = {
+  savedSearches: SavedSearch[]
+}
+
+export type SavedSearchRunResponse = {
+  savedSearch: SavedSearch
+  newItems: JobSearchItem[]
+}
+
+export type SavedSearchResultItem = JobSearchItem & {
+  isNew: boolean
+  firstSeenAt: string
+}
+
+/**
+ * Registrierter RSS/Atom/JSON-Feed eines Chats (Quelle "feeds")
+ */
+export type JobFeed = {
+  id: number
+  url: string
+  title: string | null
+  format: 'rss' | 'atom' | 'json'
+  createdAt: string
 }
 
+export type JobFeedListResponse = {
+  feeds: JobFeed[]
+}
+
+export type JobFeedAddResponse = {
+  feed: JobFeed
+  itemCount: number                // Einträge beim Registrieren
+}
+
+export type AtsType = 'greenhouse' | 'lever' | 'workable' | 'personio'
+
+/**
+ * Beobachtete Firma eines Chats; slug = Board-Name im ATS (z.B. boards.greenhouse.io/<slug>)
+ */
+export type WatchedCompany = {
+  id: number
+  name: string
+  ats: AtsType
+  slug: string
+  createdAt: string
+}
+
+export type WatchedCompanyListResponse = {
+  companies: WatchedCompany[]
+}
+
+export type WatchedCompanyAddResponse = {
+  company: WatchedCompany
+  jobCount: number                 // offene Stellen beim Anlegen
+}
+
+/**
+ * Status der Text-Extraktion einer Datei
+ * null = noch nicht extrahiert (wird beim ersten Zugriff nachgeholt)
+ */
+export type FileTextStatus = 'ok' | 'empty' | 'unsupported' | 'failed'
+
 export type FileRecord = {
   id: string
   name: string
   mime: string | null
   size: number | null
+  textStatus?: FileTextStatus | null
+  textLength?: number | null
   uploadedAt?: string
 }
 
@@ -223,14 +587,29 @@ export type FileContentResponse = FileRecord & {
   contentBase64: string
 }
 
+/**
+ * Extrahierter Klartext einer Datei (PDF, DOCX, ODT, RTF, Markdown, HTML, Text)
+ */
+export type FileTextResponse = {
+  id: string
+  name: string
+  format: 'pdf' | 'docx' | 'odt' | 'rtf' | 'markdown' | 'html' | 'text' | null
+  status: FileTextStatus
+  text: string | null
+}
+
 export type DbFilterPreviewResponse = {
   items: WebPageRecord[]
   total: number
+  jobs: JobRecord[]                // gespeicherte Jobs, die der Filter löschen würde
+  jobTotal: number
 }
 
 export type DbFilterDeleteResponse = {
   deletedCount: number
   deletedIds: number[]
+  deletedJobCount: number
+  deletedJobIds: number[]
 }
 
 export type PageListResponse = {
@@ -289,7 +668,7 @@ export type OperationResult<T> = {
  * Unterstützte KI-Service Provider
  * Jeder Provider hat eigene API-Schnittstelle und Authentifizierung
  */
-export type AiProviderType = 'openai' | 'claude' | 'gemini' | 'local' | 'ollama'
+export type AiProviderType = 'openai' | 'claude' | 'gemini' | 'local' | 'ollama' | 'openai-compatible'
 
 /**
  * KI-Service Konfiguration mit API Keys und Einstellungen
@@ -299,7 +678,8 @@ export type AiProviderType = 'openai' | 'claude' | 'gemini' | 'local' | 'ollama'
 export type AiServiceConfig = {
   provider: AiProviderType         // Welcher Provider ('openai', 'claude', etc.)
   apiKey: string                   // API-Schlüssel (verschlüsselt)
-  apiUrl?: string                  // Custom endpoint (für Ollama, Local, etc.)
+  apiUrl?: string                  // Custom endpoint (für Ollama, OpenAI-kompatible Server, etc.)
+  headers?: Record<string, string> // Eigene Header (nur OpenAI-kompatible Server)
   model: string                    // Modell-ID (z.B. 'gpt-4', 'claude-3-opus')
   maxTokens?: number               // Response Limit pro Anfrage
   temperature: number              // Kreativität: 0=präzise, 2=kreativ
@@ -311,7 +691,7 @@ export type AiServiceConfig = {
 /**
  * Konfigurierte KI-Services des Benutzers
  * Key = Service-ID, Value = Config
- * Wird in localStorage gespeichert (verschlüsselt)
+ * API-Keys liegen verschlüsselt im serverseitigen Vault (siehe AiCredential)
  */
 export type AiServicesConfig = {
   [key: string]: AiServiceConfig
@@ -329,9 +709,15 @@ export type ChatMessage = Message & {
     completion: number
     total: number
   }
+  finishReason?: AiServiceResponse['finishReason']  // 'length' = wegen maxTokens abgeschnitten
   generatedAt?: string             // ISO Timestamp
 }
 
+/**
+ * KI-Metadaten, die zusammen mit einer Antwort gespeichert werden
+ */
+export type ChatMessageMeta = Pick<ChatMessage, 'aiProvider' | 'aiModel' | 'tokens' | 'finishReason' | 'generatedAt'>
+
 /**
  * Standardisierte Response aller KI-Services
  * Alle Provider werden auf diesen Format genormalisiert
@@ -347,6 +733,10 @@ export type AiServiceResponse = {
     total: number
   }
   finishReason: 'stop' | 'length' | 'content_filter' | 'error'
+  generatedAt: string              // ISO Timestamp
+  costUsd?: number | null          // Geschätzte Kosten (null = Preis unbekannt)
+  attempts?: AiProviderAttempt[]   // Versuche in Reihenfolge, der letzte mit ok = true hat geantwortet
+  budget?: UsageBudgetStatus       // Nur bei usageSource: 'application'
   error?: string                   // Falls Fehler aufgetreten
 }
 
@@ -366,6 +756,71 @@ export type AiServiceRequest = {
   presencePenalty?: number
 }
 
+/**
+ * Request-Body für /api/ai/chat und /api/ai/chat/stream
+ */
+export type AiChatPayload = {
+  provider: string
+  serviceId?: string           // Zugangsdaten aus dem Vault (statt API-Key im Request)
+  apiUrl?: string
+  headers?: Record<string, string>  // Eigene Header für OpenAI-kompatible Server
+  model: string
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+  frequencyPenalty?: number
+  presencePenalty?: number
+  messages: AiServiceRequest['messages']
+  chatId?: number
+  fileIds?: string[]           // Hochgeladene Dateien, deren Text als Kontext mitgeht
+  retrieval?: boolean          // Passende Seiten aus der Chat-DB als Kontext mitgeben
+  usageSource?: AiUsageSource  // Für das Usage-Ledger, 'application' unterliegt dem Budget-Limit
+  fallbacks?: AiFallbackEntry[] // Werden der Reihe nach probiert, wenn der Provider ausfällt
+}
+
+/**
+ * Eintrag der Fallback-Kette
+ * Ohne serviceId nimmt der Server den ersten gespeicherten Key des Providers
+ */
+export type AiFallbackEntry = {
+  provider: AiProviderType
+  model: string
+  serviceId?: string
+  apiUrl?: string
+}
+
+/**
+ * Ein Versuch innerhalb der Fallback-Kette
+ */
+export type AiProviderAttempt = {
+  provider: AiProviderType
+  model: string
+  ok: boolean
+  error?: string
+}
+
+/**
+ * Server-Sent Event von /api/ai/chat/stream
+ * token = inkrementeller Text, done = vollständige Antwort, error = Abbruch mit Fehler
+ */
+export type AiStreamEvent =
+  | { type: 'sources'; sources: RetrievalSource[] }
+  | { type: 'token'; content: string }
+  | ({ type: 'done'; sources: RetrievalSource[] } & AiServiceResponse)
+  | { type: 'error'; error: string; attempts?: AiProviderAttempt[] }
+
+/**
+ * Ergebnis eines gestreamten Chat-Aufrufs
+ * aborted = true wenn der User die Generierung gestoppt hat
+ * response = normalisierte Antwort mit Tokens (null bei Abbruch)
+ */
+export type AiStreamResult = {
+  content: string
+  aborted: boolean
+  sources: RetrievalSource[]
+  response: AiServiceResponse | null
+}
+
 /**
  * Metadaten zu verfügbarem Modell
  * Verwendet für Dropdown-Auswahl in UI
@@ -374,10 +829,10 @@ export type AiModelInfo = {
   provider: AiProviderType
   modelId: string                  // Modell-Identifier für API
   name: string                     // Anzeigename
-  maxTokens: number                // Context-Fenster-Größe
-  costPer1kPromptTokens: number    // $ pro 1000 Prompt-Tokens
-  costPer1kCompletionTokens: number// $ pro 1000 Completion-Tokens
-  released: string                 // ISO Date
+  maxTokens?: number               // Context-Fenster-Größe (falls vom Provider bekannt)
+  costPer1kPromptTokens?: number   // $ pro 1000 Prompt-Tokens
+  costPer1kCompletionTokens?: number// $ pro 1000 Completion-Tokens
+  released?: string                // ISO Date
   deprecated?: string              // ISO Date (falls veraltet)
 }
 
@@ -387,6 +842,27 @@ export type AiModelInfo = {
  */
 export type AvailableAiModels = AiModelInfo[]
 
+/**
+ * AI Service aus GET /api/ai/services
+ * models kommt live vom Provider ('live') oder aus der statischen Liste ('fallback')
+ */
+export type AiServiceInfo = {
+  provider: AiProviderType
+  name: string
+  description: string
+  requiresKey: boolean
+  acceptsKey?: boolean             // Key optional (z.B. OpenAI-kompatible Server)
+  requiresUrl?: boolean
+  models: AvailableAiModels
+  modelSource: 'live' | 'fallback'
+  modelError?: string              // Grund, warum die Live-Abfrage fehlschlug
+}
+
+export type AiServiceListResponse = {
+  services: AiServiceInfo[]
+  models: AvailableAiModels        // Alle Modelle aller Services
+}
+
 /**
  * Validierungsergebnis für API-Keys
  * Vor Speichern prüfen ob Key funktioniert
@@ -398,6 +874,83 @@ export type AiServiceValidation = {
   message?: string
 }
 
+/**
+ * Gespeicherte Zugangsdaten aus dem serverseitigen Vault
+ * Der Key selbst verlässt den Server nie, nur maskiert (z.B. "sk-…a1b2")
+ */
+export type AiCredential = {
+  id: string                       // serviceId für /api/ai/chat
+  provider: AiProviderType
+  label: string | null
+  apiUrl: string | null
+  maskedKey: string | null
+  lastTestedAt: string | null
+  lastTestOk: boolean | null       // null = noch nicht getestet
+  createdAt: string
+}
+
+export type AiCredentialListResponse = {
+  credentials: AiCredential[]
+  vaultConfigured: boolean         // false = VAULT_MASTER_KEY fehlt auf dem Server
+}
+
+export type AiCredentialTestResponse = AiServiceValidation & {
+  credential: AiCredential
+}
+
+// ===== USAGE TYPES =====
+
+/**
+ * Herkunft eines KI-Aufrufs im Usage-Ledger
+ */
+export type AiUsageSource = 'chat' | 'application'
+
+/**
+ * Summen über mehrere Aufrufe
+ * costUsd enthält nur Aufrufe mit bekanntem Preis (siehe unpricedCalls)
+ */
+export type UsageTotals = {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+  unpricedCalls: number
+}
+
+/**
+ * Budget-Limit für die Bewerbungs-Generierung
+ * Zeitraum ist der aktuelle Kalendertag bzw. -monat (UTC)
+ */
+export type UsageBudgetStatus = {
+  limitUsd: number | null          // null = kein Limit
+  period: 'day' | 'month'
+  spentUsd: number                 // unbekannte Modellpreise zählen mit einem hohen Ersatzpreis
+  remainingUsd: number | null
+  exceeded: boolean
+}
+
+/**
+ * Festgelegter Preis für openai-compatible Endpunkte in USD pro 1000 Tokens (0 = kostenlos)
+ */
+export type UsagePricing = {
+  costPer1kPromptTokens: number
+  costPer1kCompletionTokens: number
+}
+
+/**
+ * Antwort von GET /api/usage
+ */
+export type UsageSummaryResponse = {
+  days: number
+  totals: UsageTotals
+  byDay: Array<UsageTotals & { day: string }>
+  byChat: Array<UsageTotals & { chatId: string | null }>
+  byProvider: Array<UsageTotals & { provider: AiProviderType; model: string }>
+  budget: UsageBudgetStatus
+  compatiblePricing: UsagePricing | null  // null = Preis unbekannt
+}
+
 // ===== ENHANCED SEARCH TYPES =====
 
 /**